@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSafeProxyPath, proxyJson } from '@/lib/atlasBackend';
+
+/**
+ * GET /api/architecture/*
+ *
+ * Proxy to ATLAS Core architecture endpoints under /v1/architecture,
+ * e.g. graph and stats.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+
+  if (!isSafeProxyPath(path)) {
+    return NextResponse.json({ error: 'Invalid architecture path' }, { status: 400 });
+  }
+
+  return proxyJson(
+    `/v1/architecture/${path.map(encodeURIComponent).join('/')}`,
+    { method: 'GET', query: req.nextUrl.searchParams },
+    'Failed to fetch architecture data'
+  );
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+
+/**
+ * POST /api/atlas/chat/cancel
+ *
+ * Body: { session_id, request_id }. Tells ATLAS Core to stop working on a
+ * chat request the browser has stopped waiting for.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    return await proxyJson('/v1/atlas/chat/cancel', { method: 'POST', body }, 'Failed to cancel ATLAS chat');
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to cancel ATLAS chat' },
+      { status: 500 }
+    );
+  }
+}
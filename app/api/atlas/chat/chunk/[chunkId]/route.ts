@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+
+/**
+ * GET /api/atlas/chat/chunk/{chunkId}
+ *
+ * Fetch the next chunk of a chunked (non-streamed) ATLAS chat response.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ chunkId: string }> }
+) {
+  const { chunkId } = await params;
+
+  return proxyJson(
+    `/v1/atlas/chat/chunk/${encodeURIComponent(chunkId)}`,
+    { method: 'GET' },
+    'Failed to fetch chat chunk'
+  );
+}
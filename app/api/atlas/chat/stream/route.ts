@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendFetch } from '@/lib/atlasBackend';
+import { SSE_HEADERS, encodeSseEvent } from '@/lib/sse';
+
+/**
+ * POST /api/atlas/chat/stream
+ *
+ * Relays ATLAS Core's server-sent event stream (/v1/atlas/chat/stream)
+ * to the browser without buffering. Events: token, tool_call, patch,
+ * command, test, done (full AtlasChatResponse) and error.
+ *
+ * Backends without a streaming endpoint (404/405) are served through the
+ * blocking /v1/atlas/chat endpoint and replayed as a single `done` event.
+ */
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body.' }, { status: 400 });
+  }
+
+  try {
+    const backendRes = await backendFetch('/v1/atlas/chat/stream', {
+      method: 'POST',
+      headers: { Accept: 'text/event-stream' },
+      body,
+      signal: req.signal,
+    });
+
+    if (backendRes.status === 404 || backendRes.status === 405) {
+      return await replayBlockingChat(body, req.signal);
+    }
+
+    if (!backendRes.ok || !backendRes.body) {
+      const errorText = await backendRes.text();
+      return NextResponse.json(
+        { error: `Backend error: ${errorText}` },
+        { status: backendRes.status || 502 }
+      );
+    }
+
+    return new Response(backendRes.body, { status: 200, headers: SSE_HEADERS });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      return new Response(null, { status: 499 });
+    }
+    console.error('Error proxying ATLAS chat stream:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function replayBlockingChat(body: unknown, signal: AbortSignal): Promise<Response> {
+  const backendRes = await backendFetch('/v1/atlas/chat', {
+    method: 'POST',
+    body,
+    signal,
+  });
+
+  if (!backendRes.ok) {
+    const errorText = await backendRes.text();
+    return NextResponse.json(
+      { error: `Backend error: ${errorText}` },
+      { status: backendRes.status }
+    );
+  }
+
+  const data = await backendRes.json().catch(() => null);
+  if (data === null) {
+    return NextResponse.json({ error: 'Backend returned an invalid chat response' }, { status: 502 });
+  }
+  return new Response(encodeSseEvent('done', data), { status: 200, headers: SSE_HEADERS });
+}
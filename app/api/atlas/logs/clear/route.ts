@@ -1,28 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
 
-const ATLAS_BACKEND_URL = process.env.ATLAS_BACKEND_URL || 'http://localhost:8000';
-
-export async function POST(request: NextRequest) {
+export async function POST() {
   try {
-    const response = await fetch(
-      `${ATLAS_BACKEND_URL}/v1/atlas/logs/clear`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `Backend returned ${response.status}` },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
+    return await proxyJson('/v1/atlas/logs/clear', { method: 'POST' }, 'Failed to clear logs');
   } catch (error: any) {
     console.error('[API /api/atlas/logs/clear] Error:', error);
     return NextResponse.json(
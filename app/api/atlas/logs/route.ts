@@ -1,38 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const ATLAS_BACKEND_URL = process.env.ATLAS_BACKEND_URL || 'http://localhost:8000';
+import { proxyJson } from '@/lib/atlasBackend';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const limit = searchParams.get('limit') || '100';
-    const sessionId = searchParams.get('session_id');
-
-    const params = new URLSearchParams({ limit });
-    if (sessionId) {
-      params.append('session_id', sessionId);
-    }
 
-    const response = await fetch(
-      `${ATLAS_BACKEND_URL}/v1/atlas/logs?${params.toString()}`,
+    return await proxyJson(
+      '/v1/atlas/logs',
       {
         method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
+        query: {
+          limit: searchParams.get('limit') || '100',
+          session_id: searchParams.get('session_id'),
         },
-        cache: 'no-store',
-      }
+      },
+      'Failed to fetch logs'
     );
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `Backend returned ${response.status}` },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
   } catch (error: any) {
     console.error('[API /api/atlas/logs] Error:', error);
     return NextResponse.json(
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const ATLAS_CORE_URL = process.env.ATLAS_CORE_URL || 'http://localhost:8000';
+import { backendFetch } from '@/lib/atlasBackend';
 
 /**
  * GET /api/atlasSkills
@@ -16,27 +15,14 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status');
 
     try {
-        let url: string;
-
-        if (id) {
+        const response = id
             // Fetch detail for specific execution
-            url = `${ATLAS_CORE_URL}/v1/atlas/skill/executions/${id}`;
-        } else {
+            ? await backendFetch(`/v1/atlas/skill/executions/${encodeURIComponent(id)}`, { method: 'GET' })
             // List executions with optional filters
-            const params = new URLSearchParams();
-            if (targetProject) params.append('target_project', targetProject);
-            if (status) params.append('status', status);
-
-            const queryString = params.toString();
-            url = `${ATLAS_CORE_URL}/v1/atlas/skill/executions${queryString ? `?${queryString}` : ''}`;
-        }
-
-        const response = await fetch(url, {
-            method: 'GET',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-        });
+            : await backendFetch('/v1/atlas/skill/executions', {
+                method: 'GET',
+                query: { target_project: targetProject, status },
+            });
 
         if (!response.ok) {
             const errorText = await response.text();
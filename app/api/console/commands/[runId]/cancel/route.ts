@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const { runId } = await params;
+
+    return await proxyJson(
+      `/v1/console/commands/${encodeURIComponent(runId)}/cancel`,
+      { method: 'POST' },
+      'Failed to cancel command'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to cancel command' },
+      { status: 500 }
+    );
+  }
+}
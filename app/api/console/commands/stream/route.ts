@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendFetch } from '@/lib/atlasBackend';
+import { SSE_HEADERS, encodeSseEvent } from '@/lib/sse';
+
+/**
+ * POST /api/console/commands/stream
+ *
+ * Runs a console command and relays its output as server-sent events from
+ * ATLAS Core's /v1/console/commands/stream. Events:
+ *   start  { run_id }  (null when the backend can't cancel the run)
+ *   stdout { data } / stderr { data }
+ *   exit   { exit_code, duration_ms, timed_out? }
+ *   error  { error }
+ *
+ * Closing the request aborts the backend stream; an explicit stop goes
+ * through POST /api/console/commands/{runId}/cancel.
+ *
+ * Backends without a streaming endpoint (404/405) are served through the
+ * blocking /v1/console/commands/run endpoint and replayed as events.
+ */
+export async function POST(req: NextRequest) {
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body.' }, { status: 400 });
+  }
+
+  if (typeof body?.command !== 'string' || !body.command.trim()) {
+    return NextResponse.json({ error: 'command is required' }, { status: 400 });
+  }
+
+  try {
+    const backendRes = await backendFetch('/v1/console/commands/stream', {
+      method: 'POST',
+      headers: { Accept: 'text/event-stream' },
+      body,
+      signal: req.signal,
+    });
+
+    if (backendRes.status === 404 || backendRes.status === 405) {
+      return await replayBlockingRun(body, req.signal);
+    }
+
+    if (!backendRes.ok || !backendRes.body) {
+      const errorText = await backendRes.text();
+      return NextResponse.json(
+        { error: `Backend error: ${errorText}` },
+        { status: backendRes.status || 502 }
+      );
+    }
+
+    return new Response(backendRes.body, { status: 200, headers: SSE_HEADERS });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      return new Response(null, { status: 499 });
+    }
+    console.error('Error proxying console command stream:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+async function replayBlockingRun(body: any, signal: AbortSignal): Promise<Response> {
+  const startedAt = Date.now();
+  const backendRes = await backendFetch('/v1/console/commands/run', {
+    method: 'POST',
+    body,
+    signal,
+  });
+
+  const data = await backendRes.json().catch(() => ({}));
+  if (!backendRes.ok && data?.exit_code === undefined) {
+    return NextResponse.json(
+      { error: `Backend error: ${data?.detail || data?.error || backendRes.statusText}` },
+      { status: backendRes.status }
+    );
+  }
+
+  // No run id means the backend can't cancel this run: the client disables Stop
+  const frames = [encodeSseEvent('start', { run_id: data.run_id || null })];
+  if (data.stdout) frames.push(encodeSseEvent('stdout', { data: data.stdout }));
+  if (data.stderr) frames.push(encodeSseEvent('stderr', { data: data.stderr }));
+  frames.push(
+    encodeSseEvent('exit', {
+      exit_code: typeof data.exit_code === 'number' ? data.exit_code : -1,
+      duration_ms: data.duration_ms ?? Date.now() - startedAt,
+      timed_out: Boolean(data.timed_out),
+    })
+  );
+
+  return new Response(frames.join(''), { status: 200, headers: SSE_HEADERS });
+}
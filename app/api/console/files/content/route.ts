@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { backendFetch, readBackendError } from '@/lib/atlasBackend';
 
-const BACKEND_URL = process.env.ATLAS_BACKEND_URL || 'http://localhost:8000';
-
+// ?encoding=base64 returns the raw bytes base64-encoded (binary files);
+// &max_bytes=N reads only the first N bytes
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const path = searchParams.get('path');
+    const encoding = searchParams.get('encoding') || 'utf8';
+    const maxBytes = searchParams.get('max_bytes');
 
     if (!path) {
       return NextResponse.json(
@@ -13,19 +16,30 @@ export async function GET(req: NextRequest) {
         { status: 400 }
       );
     }
+    if (encoding !== 'utf8' && encoding !== 'base64') {
+      return NextResponse.json(
+        { error: 'encoding must be utf8 or base64' },
+        { status: 400 }
+      );
+    }
+    if (maxBytes !== null && !/^\d+$/.test(maxBytes)) {
+      return NextResponse.json(
+        { error: 'max_bytes must be a positive integer' },
+        { status: 400 }
+      );
+    }
 
-    const backendUrl = `${BACKEND_URL}/v1/console/files/content?path=${encodeURIComponent(path)}`;
-    const backendRes = await fetch(backendUrl);
+    const backendRes = await backendFetch('/v1/console/files/content', {
+      method: 'GET',
+      query: {
+        path,
+        encoding: encoding === 'base64' ? encoding : undefined,
+        max_bytes: maxBytes ?? undefined,
+      },
+    });
 
     if (!backendRes.ok) {
-      let errorMessage = 'Failed to load file';
-      try {
-        const errorData = await backendRes.json();
-        errorMessage = errorData.detail || errorData.error || errorMessage;
-      } catch {
-        errorMessage = await backendRes.text() || errorMessage;
-      }
-      
+      const errorMessage = await readBackendError(backendRes, 'Failed to load file');
       return NextResponse.json(
         { error: errorMessage },
         { status: backendRes.status }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSafeWorkspacePath, proxyJson } from '@/lib/atlasBackend';
+
+// Body is { path, is_dir?, content? }; fails with 409 when the path exists
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    if (typeof body?.path !== 'string' || !isSafeWorkspacePath(body.path)) {
+      return NextResponse.json({ error: 'Invalid file path: path traversal detected.' }, { status: 400 });
+    }
+    const isDir = body.is_dir === true;
+    if (!isDir && body.content !== undefined && typeof body.content !== 'string') {
+      return NextResponse.json({ error: 'content must be a string' }, { status: 400 });
+    }
+
+    return await proxyJson(
+      '/v1/console/files/create',
+      { method: 'POST', body: { path: body.path, is_dir: isDir, content: isDir ? undefined : body.content ?? '' } },
+      'Failed to create file'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to create file' },
+      { status: 500 }
+    );
+  }
+}
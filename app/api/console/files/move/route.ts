@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSafeWorkspacePath, proxyJson } from '@/lib/atlasBackend';
+import { normalizeProjectPath } from '@/lib/atlasProjectFs';
+
+const normalize = (path: unknown) =>
+  typeof path === 'string' && isSafeWorkspacePath(path) ? normalizeProjectPath(path) : null;
+
+// Body is { from, to }; fails with 409 when `to` exists
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    // Normalized so './src' and 'src' compare equal below
+    const from = normalize(body?.from);
+    const to = normalize(body?.to);
+    if (from === null || to === null || from === '.' || to === '.') {
+      return NextResponse.json({ error: 'Invalid file path: path traversal detected.' }, { status: 400 });
+    }
+    if (to === from || to.startsWith(`${from}/`)) {
+      return NextResponse.json({ error: 'Cannot move a folder into itself' }, { status: 400 });
+    }
+
+    return await proxyJson('/v1/console/files/move', { method: 'POST', body: { from, to } }, 'Failed to move file');
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to move file' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,29 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const BACKEND_URL = process.env.ATLAS_BACKEND_URL || 'http://localhost:8000';
+import { proxyJson } from '@/lib/atlasBackend';
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-
-    const backendRes = await fetch(`${BACKEND_URL}/v1/console/files/patch`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
-
-    if (!backendRes.ok) {
-      const errorText = await backendRes.text();
-      return NextResponse.json(
-        { error: `Backend error: ${errorText}` },
-        { status: backendRes.status }
-      );
-    }
-
-    const data = await backendRes.json();
-    return NextResponse.json(data);
+    return await proxyJson('/v1/console/files/patch', { method: 'POST', body }, 'Error proxying file patch');
   } catch (error: any) {
     console.error('Error proxying file patch:', error);
     return NextResponse.json(
@@ -1,26 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const BASE = process.env.NEXT_PUBLIC_ATLAS_WEB_API_BASE || 'http://localhost:8000';
+import { isSafeWorkspacePath, proxyJson } from '@/lib/atlasBackend';
+import { normalizeProjectPath } from '@/lib/atlasProjectFs';
 
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const path = searchParams.get('path') || '.';
 
-    const url = new URL(`${BASE}/v1/console/files`);
-    url.searchParams.set('path', path);
+    return await proxyJson('/v1/console/files', { method: 'GET', query: { path } }, 'Failed to fetch files');
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch files' },
+      { status: 500 }
+    );
+  }
+}
 
-    const res = await fetch(url.toString(), {
-      method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
-      cache: 'no-store',
-    });
+// Delete a file, or a directory with &recursive=true
+export async function DELETE(req: NextRequest) {
+  try {
+    const raw = req.nextUrl.searchParams.get('path') || '';
+    // Normalized first so './', './.' and the like can't name the root
+    const path = isSafeWorkspacePath(raw) ? normalizeProjectPath(raw) : null;
+    if (path === null || path === '.') {
+      return NextResponse.json({ error: 'Invalid file path: path traversal detected.' }, { status: 400 });
+    }
+    const recursive = req.nextUrl.searchParams.get('recursive') === 'true';
 
-    const data = await res.json();
-    return NextResponse.json(data, { status: res.status });
+    return await proxyJson(
+      '/v1/console/files',
+      { method: 'DELETE', query: { path, recursive: recursive || undefined } },
+      'Failed to delete file'
+    );
   } catch (error: any) {
     return NextResponse.json(
-      { error: error.message || 'Failed to fetch files' },
+      { error: error.message || 'Failed to delete file' },
       { status: 500 }
     );
   }
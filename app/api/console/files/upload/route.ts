@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSafeWorkspacePath, proxyJson } from '@/lib/atlasBackend';
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024; // 20MB per request
+
+// multipart/form-data: `dir` (workspace-relative, '.' for the root) and one
+// or more `files`. Existing files are not replaced (409).
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const dir = String(form.get('dir') || '.').replace(/\/+$/, '') || '.';
+    if (dir !== '.' && !isSafeWorkspacePath(dir)) {
+      return NextResponse.json({ error: 'Invalid file path: path traversal detected.' }, { status: 400 });
+    }
+
+    const files = form.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files to upload' }, { status: 400 });
+    }
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: 'Upload is too large (max 20MB).' }, { status: 413 });
+    }
+
+    const uploads = [];
+    for (const file of files) {
+      const path = dir === '.' ? file.name : `${dir}/${file.name}`;
+      if (file.name.includes('/') || !isSafeWorkspacePath(path)) {
+        return NextResponse.json({ error: `Invalid file name: ${file.name}` }, { status: 400 });
+      }
+      const content = Buffer.from(await file.arrayBuffer()).toString('base64');
+      uploads.push({ path, content, encoding: 'base64' });
+    }
+
+    return await proxyJson('/v1/console/files/upload', { method: 'POST', body: { files: uploads } }, 'Failed to upload files');
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to upload files' },
+      { status: 500 }
+    );
+  }
+}
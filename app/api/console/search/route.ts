@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendFetch, readBackendErrorBody } from '@/lib/atlasBackend';
+import { SearchTimeoutError, resolveWorkspaceRoot, searchLocalWorkspace } from '@/lib/localWorkspaceSearch';
+import { DEFAULT_MAX_SEARCH_RESULTS, WorkspaceSearchRequest, compileSearchPattern } from '@/lib/workspaceSearch';
+
+// Backend answers meaning it has no content search
+const NO_SEARCH_ENDPOINT = [404, 405, 501];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Body is a WorkspaceSearchRequest
+export async function POST(req: NextRequest) {
+  try {
+    const raw = await req.json();
+    if (typeof raw?.query !== 'string' || !raw.query) {
+      return NextResponse.json({ error: 'query is required' }, { status: 400 });
+    }
+    for (const key of ['include', 'exclude'] as const) {
+      if (raw[key] !== undefined && !isStringArray(raw[key])) {
+        return NextResponse.json({ error: `${key} must be an array of globs` }, { status: 400 });
+      }
+    }
+    if (raw.max_results !== undefined && !(Number.isInteger(raw.max_results) && raw.max_results > 0)) {
+      return NextResponse.json({ error: 'max_results must be a positive integer' }, { status: 400 });
+    }
+
+    const body: WorkspaceSearchRequest = {
+      query: raw.query,
+      regex: raw.regex === true,
+      case_sensitive: raw.case_sensitive === true,
+      whole_word: raw.whole_word === true,
+      include: raw.include,
+      exclude: raw.exclude,
+      max_results: Math.min(raw.max_results ?? DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_MAX_SEARCH_RESULTS),
+    };
+    try {
+      compileSearchPattern(body);
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message, code: 'invalid_pattern' }, { status: 400 });
+    }
+
+    let backendRes: Response | null = null;
+    try {
+      backendRes = await backendFetch('/v1/console/search', { method: 'POST', body });
+    } catch (err) {
+      console.warn('[search] ATLAS Core unreachable, searching locally:', err);
+    }
+
+    if (backendRes && !NO_SEARCH_ENDPOINT.includes(backendRes.status)) {
+      if (!backendRes.ok) {
+        const { message, code } = await readBackendErrorBody(backendRes, 'Search failed');
+        return NextResponse.json(code ? { error: message, code } : { error: message }, { status: backendRes.status });
+      }
+      const data = await backendRes.json();
+      return NextResponse.json({ ...data, source: 'backend' });
+    }
+
+    const root = await resolveWorkspaceRoot();
+    if (!root) {
+      return NextResponse.json(
+        { error: 'Content search is unavailable: ATLAS Core has no search endpoint and ATLAS_WORKSPACE_ROOT is not set' },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json(await searchLocalWorkspace(root, body));
+  } catch (error: any) {
+    if (error instanceof SearchTimeoutError) {
+      return NextResponse.json({ error: error.message, code: 'pattern_timeout' }, { status: 422 });
+    }
+    console.error('Error searching workspace:', error);
+    return NextResponse.json(
+      { error: error.message || 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+
+// Body is { archived: boolean }; false restores the session
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const body = await req.json();
+
+    return await proxyJson(
+      `/v1/console/sessions/${encodeURIComponent(sessionId)}/archive`,
+      { method: 'POST', body: { archived: body.archived !== false } },
+      'Failed to archive session'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to archive session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const BASE = process.env.NEXT_PUBLIC_ATLAS_WEB_API_BASE || 'http://localhost:8000';
+import { proxyJson } from '@/lib/atlasBackend';
 
 export async function POST(
   req: NextRequest,
@@ -9,13 +8,11 @@ export async function POST(
   try {
     const { sessionId } = await params;
 
-    const res = await fetch(`${BASE}/v1/console/sessions/${sessionId}/clear`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-    });
-
-    const data = await res.json();
-    return NextResponse.json(data, { status: res.status });
+    return await proxyJson(
+      `/v1/console/sessions/${encodeURIComponent(sessionId)}/clear`,
+      { method: 'POST' },
+      'Failed to clear session'
+    );
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'Failed to clear session' },
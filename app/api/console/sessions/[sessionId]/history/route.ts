@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    return await proxyJson(
+      `/v1/console/sessions/${encodeURIComponent(sessionId)}/history`,
+      { method: 'GET' },
+      'Failed to fetch session history'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch session history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+
+// Rename or relabel: body is { name?, tags? }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const body = await req.json();
+
+    return await proxyJson(
+      `/v1/console/sessions/${encodeURIComponent(sessionId)}`,
+      { method: 'PATCH', body },
+      'Failed to update session'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to update session' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+
+    return await proxyJson(
+      `/v1/console/sessions/${encodeURIComponent(sessionId)}`,
+      { method: 'DELETE' },
+      'Failed to delete session'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
 
-const BASE = process.env.NEXT_PUBLIC_ATLAS_WEB_API_BASE || 'http://localhost:8000';
-
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
-    const res = await fetch(`${BASE}/v1/console/sessions`, {
-      method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
-      cache: 'no-store',
-    });
-
-    const data = await res.json();
-    return NextResponse.json(data, { status: res.status });
+    const includeArchived = req.nextUrl.searchParams.get('include_archived') === 'true';
+    return await proxyJson(
+      '/v1/console/sessions',
+      { method: 'GET', query: includeArchived ? { include_archived: 'true' } : undefined },
+      'Failed to fetch sessions'
+    );
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'Failed to fetch sessions' },
@@ -23,15 +20,7 @@ export async function GET() {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-
-    const res = await fetch(`${BASE}/v1/console/sessions`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(body),
-    });
-
-    const data = await res.json();
-    return NextResponse.json(data, { status: res.status });
+    return await proxyJson('/v1/console/sessions', { method: 'POST', body }, 'Failed to create session');
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'Failed to create session' },
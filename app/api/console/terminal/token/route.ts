@@ -0,0 +1,29 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { NextResponse } from 'next/server';
+
+// Keep in sync with scripts/terminal-server.mjs
+const terminalPort = process.env.ATLAS_TERMINAL_PORT || '3101';
+const tokenFile =
+  process.env.ATLAS_TERMINAL_TOKEN_FILE || path.join(tmpdir(), `atlas-terminal-${terminalPort}.token`);
+
+// Per-launch secret the terminal sidecar requires on upgrade. Same-origin
+// only: other sites can't read this response.
+export async function GET() {
+  try {
+    const token = process.env.ATLAS_TERMINAL_TOKEN || (await fs.readFile(tokenFile, 'utf8')).trim();
+    return NextResponse.json({ token }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return NextResponse.json(
+        { error: 'The terminal server is not running (start it with `npm run terminal`)' },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json(
+      { error: error.message || 'Failed to read the terminal token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SSE_HEADERS, encodeSseEvent } from '@/lib/sse';
+import type { AtlasChatResponse, Command, Patch, ToolCall } from '@/lib/types';
+
+/**
+ * Mock ATLAS chat stream for exercising the streaming UI without a backend.
+ *
+ * Point the console at it with
+ *   NEXT_PUBLIC_ATLAS_CHAT_STREAM_URL=/api/debug-chat-stream
+ *
+ * Development only: production builds answer 404.
+ */
+export async function POST(req: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const body = await req.json().catch(() => ({}));
+  const query: string = typeof body?.query === 'string' ? body.query : '';
+
+  const answer =
+    `Mock streamed answer for: "${query.slice(0, 80)}"\n\n` +
+    'This response is emitted token by token so the chat panel can render ' +
+    'partial output, followed by a tool call, a patch and a command.';
+
+  const toolCall: ToolCall = {
+    id: 'mock-tool-1',
+    name: 'read_file',
+    arguments: { path: 'README.md' },
+  };
+  const patch: Patch = {
+    file_path: 'README.md',
+    diff: '--- a/README.md\n+++ b/README.md\n@@ -1,1 +1,2 @@\n # Project\n+Streamed patch line\n',
+    description: 'Mock patch',
+  };
+  const command: Command = { command: 'echo streamed', description: 'Mock command' };
+
+  const encoder = new TextEncoder();
+  // Set when the client goes away: enqueueing on a cancelled stream throws
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+      const pause = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+      const stopped = () => cancelled || req.signal.aborted;
+
+      for (const token of answer.match(/\S+\s*/g) || []) {
+        if (stopped()) return;
+        send('token', { text: token });
+        await pause(40);
+      }
+      if (stopped()) return;
+
+      send('tool_call', toolCall);
+      send('patch', patch);
+      send('command', command);
+
+      const final: AtlasChatResponse = {
+        answer,
+        tool_calls: [toolCall],
+        patches: [patch],
+        commands: [command],
+        assumptions_used: [],
+        unresolved_assumptions: [],
+        notes: 'Served by /api/debug-chat-stream',
+        session_id: body?.session_id ?? null,
+      };
+      send('done', final);
+      controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
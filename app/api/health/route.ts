@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { backendFetch } from '@/lib/atlasBackend';
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+/**
+ * GET /api/health
+ *
+ * Probe ATLAS Core's /health endpoint and report reachability, latency and
+ * the backend version (from the body's `version` or an X-Atlas-Version header).
+ * Always answers 200 when the probe ran so the caller can distinguish
+ * "backend down" (`ok: false`) from "console down" (request failure).
+ */
+export async function GET() {
+  const started = Date.now();
+
+  try {
+    const res = await backendFetch('/health', {
+      method: 'GET',
+      signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS),
+    });
+    const latencyMs = Date.now() - started;
+    const backend = await res.json().catch(() => null);
+
+    return NextResponse.json({
+      ok: res.ok,
+      status: res.status,
+      latency_ms: latencyMs,
+      version: backend?.version ?? res.headers.get('x-atlas-version'),
+      backend,
+      checked_at: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return NextResponse.json({
+      ok: false,
+      status: null,
+      latency_ms: Date.now() - started,
+      error: error?.name === 'TimeoutError' ? 'Health check timed out' : error?.message || 'ATLAS Core unreachable',
+      checked_at: new Date().toISOString(),
+    });
+  }
+}
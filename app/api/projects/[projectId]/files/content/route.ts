@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+import { normalizeProjectPath } from '@/lib/atlasProjectFs';
+
+type Params = { params: Promise<{ projectId: string }> };
+
+const invalidPath = () =>
+  NextResponse.json({ error: 'Path must stay inside the project', code: 'invalid_path' }, { status: 400 });
+
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params;
+    const path = normalizeProjectPath(req.nextUrl.searchParams.get('path') || '');
+    if (path === null || path === '.') return invalidPath();
+
+    return await proxyJson(
+      `/v1/projects/${encodeURIComponent(projectId)}/files/content`,
+      { method: 'GET', query: { path } },
+      'Failed to read project file'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to read project file' },
+      { status: 500 }
+    );
+  }
+}
+
+// Body is { path, content, create_only?, expected_modified_at? }
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params;
+    const body = await req.json();
+    const path = typeof body?.path === 'string' ? normalizeProjectPath(body.path) : null;
+    if (path === null || path === '.') return invalidPath();
+    if (typeof body.content !== 'string') {
+      return NextResponse.json({ error: 'content must be a string' }, { status: 400 });
+    }
+
+    return await proxyJson(
+      `/v1/projects/${encodeURIComponent(projectId)}/files/content`,
+      { method: 'PUT', body: { ...body, path } },
+      'Failed to write project file'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to write project file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+import { normalizeProjectPath } from '@/lib/atlasProjectFs';
+
+// Body is { from, to, overwrite? }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const body = await req.json();
+    const from = typeof body?.from === 'string' ? normalizeProjectPath(body.from) : null;
+    const to = typeof body?.to === 'string' ? normalizeProjectPath(body.to) : null;
+    if (from === null || to === null || from === '.' || to === '.') {
+      return NextResponse.json({ error: 'Paths must stay inside the project', code: 'invalid_path' }, { status: 400 });
+    }
+
+    return await proxyJson(
+      `/v1/projects/${encodeURIComponent(projectId)}/files/move`,
+      { method: 'POST', body: { from, to, overwrite: body.overwrite === true } },
+      'Failed to move project file'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to move project file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+import { normalizeProjectPath } from '@/lib/atlasProjectFs';
+
+type Params = { params: Promise<{ projectId: string }> };
+
+const invalidPath = () =>
+  NextResponse.json({ error: 'Path must stay inside the project', code: 'invalid_path' }, { status: 400 });
+
+// List a directory: ?path=src
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params;
+    const path = normalizeProjectPath(req.nextUrl.searchParams.get('path') || '.');
+    if (path === null) return invalidPath();
+
+    return await proxyJson(
+      `/v1/projects/${encodeURIComponent(projectId)}/files`,
+      { method: 'GET', query: { path } },
+      'Failed to list project files'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to list project files' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a file, or a directory with &recursive=true
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const { projectId } = await params;
+    const path = normalizeProjectPath(req.nextUrl.searchParams.get('path') || '');
+    if (path === null || path === '.') return invalidPath();
+    const recursive = req.nextUrl.searchParams.get('recursive') === 'true';
+
+    return await proxyJson(
+      `/v1/projects/${encodeURIComponent(projectId)}/files`,
+      { method: 'DELETE', query: { path, recursive: recursive || undefined } },
+      'Failed to delete project file'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete project file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { proxyJson } from '@/lib/atlasBackend';
+import { normalizeProjectPath } from '@/lib/atlasProjectFs';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params;
+    const path = normalizeProjectPath(req.nextUrl.searchParams.get('path') || '');
+    if (path === null) {
+      return NextResponse.json({ error: 'Path must stay inside the project', code: 'invalid_path' }, { status: 400 });
+    }
+
+    return await proxyJson(
+      `/v1/projects/${encodeURIComponent(projectId)}/files/stat`,
+      { method: 'GET', query: { path } },
+      'Failed to stat project file'
+    );
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to stat project file' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// Prefer server-side override, fall back to public env, then default.
-const atlasApiBase =
-  process.env.ATLAS_API_URL ||
-  process.env.NEXT_PUBLIC_ATLAS_API_URL ||
-  "http://127.0.0.1:8000";
+import { backendFetch } from "@/lib/atlasBackend";
 
 export async function POST(req: NextRequest) {
   try {
     const payload = await req.json();
 
-    const res = await fetch(`${atlasApiBase}/v1/atlas/sandbox/execute`, {
+    const res = await backendFetch("/v1/atlas/sandbox/execute", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
+      body: payload,
     });
 
     if (!res.ok) {
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSafeProxyPath, proxyJson } from '@/lib/atlasBackend';
+
+/**
+ * GET /api/telemetry/*
+ *
+ * Proxy to ATLAS Core telemetry endpoints under /v1/telemetry, e.g.
+ * flows, bottlenecks, critical-paths, hot-paths, traces/recent.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+
+  if (!isSafeProxyPath(path)) {
+    return NextResponse.json({ error: 'Invalid telemetry path' }, { status: 400 });
+  }
+
+  return proxyJson(
+    `/v1/telemetry/${path.map(encodeURIComponent).join('/')}`,
+    { method: 'GET', query: req.nextUrl.searchParams },
+    'Failed to fetch telemetry'
+  );
+}
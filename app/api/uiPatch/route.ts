@@ -1,10 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// Prefer server-side override, fall back to public env, then default.
-const atlasApiBase =
-  process.env.ATLAS_API_URL ||
-  process.env.NEXT_PUBLIC_ATLAS_API_URL ||
-  "http://127.0.0.1:8000";
+import { backendFetch } from "@/lib/atlasBackend";
 
 export async function POST(req: NextRequest) {
   // Step 1: Parse JSON body
@@ -66,10 +61,9 @@ export async function POST(req: NextRequest) {
   // Step 6: Call ATLAS Core
   let res: Response;
   try {
-    res = await fetch(`${atlasApiBase}/v1/atlas/chat`, {
+    res = await backendFetch("/v1/atlas/chat", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
+      body: payload,
     });
   } catch (err) {
     console.error("Error calling ATLAS Core ui patch endpoint:", err);
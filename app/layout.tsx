@@ -5,6 +5,7 @@ import Sidebar from "@/components/Sidebar";
 import ChatPanel from "@/components/ChatPanel";
 import StatusBar from "@/components/StatusBar";
 import TerminalPanel from "@/components/TerminalPanel";
+import QuickOpen from "@/components/QuickOpen";
 import { ConsoleProvider } from "@/components/ConsoleProvider";
 
 export const metadata = {
@@ -46,6 +47,9 @@ export default function RootLayout({ children }: { children: ReactNode }) {
             {/* Status bar */}
             <StatusBar />
           </div>
+
+          {/* Ctrl+P file finder */}
+          <QuickOpen />
         </ConsoleProvider>
       </body>
     </html>
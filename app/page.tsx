@@ -1,15 +1,17 @@
 "use client";
 
-import { useState } from "react";
-import MainTabs, { MainTabId } from "@/components/MainTabs";
-import FileViewer from "@/components/FileViewer";
+import MainTabs from "@/components/MainTabs";
+import { useConsole } from "@/components/ConsoleProvider";
+import EditorArea from "@/components/EditorArea";
 import LogsView from "@/components/LogsView";
 import MetaView from "@/components/MetaView";
 import TasksView from "@/components/TasksView";
+import PatchesView from "@/components/PatchesView";
 import SecurityView from "@/components/SecurityView";
 import SkillsView from "@/components/SkillsView";
 import SimulationView from "@/components/SimulationView";
 import SandboxView from "@/components/SandboxView";
+import HistorySearchView from "@/components/HistorySearchView";
 import ArchitectureView from "@/components/ArchitectureView";
 import ArchitectureViewV2 from "@/components/ArchitectureViewV2";
 import dynamic from "next/dynamic";
@@ -17,11 +19,11 @@ import dynamic from "next/dynamic";
 const NeuralArchitecture3D = dynamic(() => import("@/components/Neural3D/NeuralArchitecture3DV2"), { ssr: false });
 
 export default function HomePage() {
-  const [activeTab, setActiveTab] = useState<MainTabId>("code");
+  const { activeTab, setActiveTab } = useConsole();
 
   const renderTabContent = () => {
     if (activeTab === "code") {
-      return <FileViewer />;
+      return <EditorArea />;
     }
 
     if (activeTab === "architecture") {
@@ -40,6 +42,10 @@ export default function HomePage() {
       return <TasksView />;
     }
 
+    if (activeTab === "patches") {
+      return <PatchesView />;
+    }
+
     if (activeTab === "security") {
       return <SecurityView />;
     }
@@ -56,6 +62,10 @@ export default function HomePage() {
       return <SandboxView />;
     }
 
+    if (activeTab === "history") {
+      return <HistorySearchView />;
+    }
+
     return null;
   };
 
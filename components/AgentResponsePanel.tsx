@@ -1,18 +1,45 @@
 'use client';
 
 import React, { useState } from 'react';
-import { AgentResponse } from '@/lib/types';
+import { AgentResponse, PatchApplyResult } from '@/lib/types';
+import { ContextAnswers } from '@/lib/contextRequests';
+import { ReviewedAssumption } from '@/lib/assumptionStore';
 import { PatchList } from './PatchList';
 import { CommandPlanList } from './CommandPlanList';
 import { TestPlanList } from './TestPlanList';
 import { ToolCallList } from './ToolCallList';
+import { PlanRunner } from './PlanRunner';
+import { ContextRequestCards } from './ContextRequestCards';
+import { AssumptionReview } from './AssumptionReview';
+import { Markdown } from './Markdown';
 
 interface AgentResponsePanelProps {
   response: AgentResponse;
   index: number;
+  messageId?: string;
+  patchResults?: Record<number, PatchApplyResult>;
+  onPatchResult?: (patchIndex: number, result: PatchApplyResult) => void;
+  contextAnswers?: ContextAnswers;
+  contextSubmittedAt?: string;
+  onContextAnswersChange?: (answers: ContextAnswers) => void;
+  onContextSubmit?: () => void;
+  assumptionsResentAt?: string;
+  onAssumptionsResend?: (reviewed: ReviewedAssumption[]) => void;
 }
 
-export function AgentResponsePanel({ response, index }: AgentResponsePanelProps) {
+export function AgentResponsePanel({
+  response,
+  index,
+  messageId,
+  patchResults,
+  onPatchResult,
+  contextAnswers,
+  contextSubmittedAt,
+  onContextAnswersChange,
+  onContextSubmit,
+  assumptionsResentAt,
+  onAssumptionsResend,
+}: AgentResponsePanelProps) {
   const [activeTab, setActiveTab] = useState<'summary' | 'patches' | 'commands' | 'tests' | 'tools'>('summary');
 
   // Check if response has any structured content
@@ -46,11 +73,34 @@ export function AgentResponsePanel({ response, index }: AgentResponsePanelProps)
 
   const modifiedFiles = getModifiedFiles();
 
+  const contextRequests = (response.context_requests?.length || 0) > 0 && (
+    <ContextRequestCards
+      requests={response.context_requests || []}
+      answers={contextAnswers || {}}
+      submittedAt={contextSubmittedAt}
+      onChange={onContextAnswersChange}
+      onSubmit={onContextSubmit}
+    />
+  );
+
+  const assumptionReview = response.unresolved_assumptions.length > 0 && (
+    <AssumptionReview
+      assumptions={response.unresolved_assumptions}
+      resentAt={assumptionsResentAt}
+      onResend={onAssumptionsResend}
+    />
+  );
+
   // If no structured content, show only text
   if (!hasStructuredContent) {
     return (
-      <div className="text-xs text-[var(--atlas-text-secondary)] leading-relaxed whitespace-pre-wrap">
-        {response.answer}
+      <div className="space-y-3">
+        <Markdown
+          content={response.answer}
+          className="text-xs text-[var(--atlas-text-secondary)] leading-relaxed"
+        />
+        {assumptionReview}
+        {contextRequests}
       </div>
     );
   }
@@ -169,6 +219,11 @@ export function AgentResponsePanel({ response, index }: AgentResponsePanelProps)
         </div>
       )}
 
+      {/* Run-all for the response's commands and tests */}
+      {(hasCommands || hasTests) && <PlanRunner response={response} />}
+
+      {contextRequests}
+
       {/* Tabs - minimal style */}
       {tabs.length > 1 && (
         <div className="flex gap-3 border-b border-[var(--atlas-border-subtle)] pb-1">
@@ -238,9 +293,10 @@ export function AgentResponsePanel({ response, index }: AgentResponsePanelProps)
             )}
 
             {/* Response Text */}
-            <div className="whitespace-pre-wrap text-[var(--atlas-text-secondary)] leading-relaxed">
-              {response.answer}
-            </div>
+            <Markdown
+              content={response.answer}
+              className="text-[var(--atlas-text-secondary)] leading-relaxed"
+            />
 
             {response.notes && (
               <div className="mt-3 pl-3 border-l-2 border-blue-500">
@@ -249,21 +305,17 @@ export function AgentResponsePanel({ response, index }: AgentResponsePanelProps)
               </div>
             )}
 
-            {response.unresolved_assumptions.length > 0 && (
-              <div className="mt-3 pl-3 border-l-2 border-yellow-500">
-                <div className="text-[10px] font-semibold text-yellow-400 mb-1">Needs clarification</div>
-                <ul className="space-y-1 text-xs text-[var(--atlas-text-secondary)]">
-                  {response.unresolved_assumptions.map((a, i) => (
-                    <li key={i} className="text-[11px]">• {a.description}</li>
-                  ))}
-                </ul>
-              </div>
-            )}
+            {assumptionReview && <div className="mt-3">{assumptionReview}</div>}
           </div>
         )}
 
         {activeTab === 'patches' && (
-          <PatchList patches={response.patches || []} />
+          <PatchList
+            patches={response.patches || []}
+            messageId={messageId}
+            results={patchResults}
+            onResult={onPatchResult}
+          />
         )}
 
         {activeTab === 'commands' && (
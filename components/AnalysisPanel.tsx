@@ -55,10 +55,10 @@ export default function AnalysisPanel({ onHighlightComponent }: AnalysisPanelPro
   const fetchAnalysisData = async () => {
     try {
       const [bottlenecksRes, pathsRes, hotRes, flowsRes] = await Promise.all([
-        fetch('http://localhost:8000/v1/telemetry/bottlenecks'),
-        fetch('http://localhost:8000/v1/telemetry/critical-paths'),
-        fetch('http://localhost:8000/v1/telemetry/hot-paths'),
-        fetch('http://localhost:8000/v1/telemetry/flows'),
+        fetch('/api/telemetry/bottlenecks'),
+        fetch('/api/telemetry/critical-paths'),
+        fetch('/api/telemetry/hot-paths'),
+        fetch('/api/telemetry/flows'),
       ]);
 
       if (bottlenecksRes.ok) {
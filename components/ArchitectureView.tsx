@@ -101,8 +101,8 @@ export default function ArchitectureView() {
       setError(null);
 
       const [graphRes, statsRes] = await Promise.all([
-        fetch("http://localhost:8000/v1/architecture/graph"),
-        fetch("http://localhost:8000/v1/architecture/stats"),
+        fetch("/api/architecture/graph"),
+        fetch("/api/architecture/stats"),
       ]);
 
       if (!graphRes.ok || !statsRes.ok) {
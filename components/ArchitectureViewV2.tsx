@@ -9,6 +9,8 @@ import { X, BarChart3, Grid3x3, Clock } from 'lucide-react';
 import AnalysisPanel from './AnalysisPanel';
 import DependencyMatrix from './DependencyMatrix';
 import Timeline from './Timeline';
+import { atlasSocketUrl } from '@/lib/atlasSocket';
+import { useConsole } from './ConsoleProvider';
 
 // Register layouts
 cytoscape.use(dagre);
@@ -62,12 +64,31 @@ interface FlowParticle {
   color: string;
 }
 
+function focusNode(cy: Core, componentId: string) {
+  const node = cy.$id(componentId);
+  if (node.length === 0) return;
+  cy.nodes().unselect();
+  node.select();
+  cy.animate({
+    center: { eles: node },
+    zoom: 1.5,
+    duration: 500,
+  });
+}
+
 export default function ArchitectureViewV2() {
   console.log('🎨 ArchitectureViewV2 component rendering');
   
   const containerRef = useRef<HTMLDivElement>(null);
   const cyRef = useRef<Core | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
+  // Focused node (mirrored in the URL), read when a layout finishes
+  const { architectureNode, setArchitectureNode } = useConsole();
+  const architectureNodeRef = useRef(architectureNode);
+  const setArchitectureNodeRef = useRef(setArchitectureNode);
+  architectureNodeRef.current = architectureNode;
+  setArchitectureNodeRef.current = setArchitectureNode;
+  const layoutDoneRef = useRef(false);
   
   const [data, setData] = useState<ArchitectureData | null>(null);
   const [selectedNode, setSelectedNode] = useState<ComponentNode | null>(null);
@@ -87,7 +108,7 @@ export default function ArchitectureViewV2() {
 
   const fetchArchitectureData = async () => {
     try {
-      const response = await fetch('http://localhost:8000/v1/architecture/graph');
+      const response = await fetch('/api/architecture/graph');
       const result = await response.json();
       setData(result);
     } catch (error) {
@@ -301,6 +322,7 @@ export default function ArchitectureViewV2() {
       const nodeData = data.nodes.find(n => n.id === node.id());
       if (nodeData) {
         setSelectedNode(nodeData);
+        setArchitectureNodeRef.current(nodeData.id);
       }
     });
 
@@ -308,9 +330,17 @@ export default function ArchitectureViewV2() {
     cy.on('tap', (evt) => {
       if (evt.target === cy) {
         setSelectedNode(null);
+        setArchitectureNodeRef.current(null);
       }
     });
 
+    // The layout's closing fit would undo centering on the focused node
+    layoutDoneRef.current = false;
+    cy.one('layoutstop', () => {
+      layoutDoneRef.current = true;
+      if (architectureNodeRef.current) focusNode(cy, architectureNodeRef.current);
+    });
+
       cyRef.current = cy;
 
       setInitError(null);
@@ -326,6 +356,21 @@ export default function ArchitectureViewV2() {
     }
   }, [data, layoutType]);
 
+  // Follow the focused node when it changes from outside the graph (URL, back/forward)
+  useEffect(() => {
+    if (!data || architectureNode === (selectedNode?.id ?? null)) return;
+    const nodeData = architectureNode ? data.nodes.find(n => n.id === architectureNode) : undefined;
+    if (architectureNode && !nodeData) {
+      setArchitectureNodeRef.current(null);
+      return;
+    }
+    setSelectedNode(nodeData ?? null);
+    const cy = cyRef.current;
+    if (!cy) return;
+    cy.nodes().unselect();
+    if (nodeData && layoutDoneRef.current) focusNode(cy, nodeData.id);
+  }, [data, architectureNode, selectedNode]);
+
   // WebSocket telemetry connection
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -339,9 +384,7 @@ export default function ArchitectureViewV2() {
       if (isUnmounted) return;
 
       try {
-        const wsProtocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
-        // Use localhost:8000 explicitly for backend since frontend runs on 3000
-        const wsUrl = `${wsProtocol}://localhost:8000/v1/telemetry/stream`;
+        const wsUrl = atlasSocketUrl('telemetry/stream');
         
         console.log('🔌 Attempting WebSocket connection to', wsUrl);
         const ws = new WebSocket(wsUrl);
@@ -709,7 +752,10 @@ export default function ArchitectureViewV2() {
                   <span className="text-xs text-gray-400">{selectedNode.type}</span>
                 </div>
                 <button
-                  onClick={() => setSelectedNode(null)}
+                  onClick={() => {
+                    setSelectedNode(null);
+                    setArchitectureNode(null);
+                  }}
                   className="text-gray-400 hover:text-white"
                 >
                   <X className="w-5 h-5" />
@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AtlasAssumption } from '@/lib/types';
+import { ReviewedAssumption } from '@/lib/assumptionStore';
+
+interface AssumptionReviewProps {
+  assumptions: AtlasAssumption[];
+  resentAt?: string;
+  // Omit to list the assumptions read-only
+  onResend?: (reviewed: ReviewedAssumption[]) => void;
+}
+
+/**
+ * Review of a response's unresolved assumptions: each one can be corrected
+ * and marked resolved before the query is re-sent in strict mode.
+ */
+export function AssumptionReview({ assumptions, resentAt, onResend }: AssumptionReviewProps) {
+  const [items, setItems] = useState<ReviewedAssumption[]>(() =>
+    assumptions.map(a => ({ description: a.description, resolved: a.resolved, original: a.description }))
+  );
+  const editable = Boolean(onResend) && !resentAt;
+
+  const update = (index: number, changes: Partial<ReviewedAssumption>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const resolvedCount = items.filter(item => item.resolved).length;
+
+  return (
+    <div className="pl-3 border-l-2 border-yellow-500 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] font-semibold text-yellow-400">
+          Needs clarification{editable && ` (${resolvedCount}/${items.length} resolved)`}
+        </div>
+        {resentAt && (
+          <span className="text-[10px] text-[var(--atlas-text-muted)]">
+            Re-sent {new Date(resentAt).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+
+      {editable ? (
+        <ul className="space-y-1.5">
+          {items.map((item, i) => (
+            <li key={i} className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={item.resolved}
+                onChange={e => update(i, { resolved: e.target.checked })}
+                className="mt-1.5"
+                title="Mark resolved"
+              />
+              <textarea
+                value={item.description}
+                onChange={e => update(i, { description: e.target.value })}
+                rows={1}
+                className={`flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-[11px] resize-y ${
+                  item.resolved ? 'text-[var(--atlas-text-secondary)]' : 'text-yellow-200'
+                }`}
+              />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <ul className="space-y-1 text-xs text-[var(--atlas-text-secondary)]">
+          {assumptions.map((a, i) => (
+            <li key={i} className="text-[11px]">• {a.description}</li>
+          ))}
+        </ul>
+      )}
+
+      {editable && (
+        <div className="flex items-center justify-between gap-2 text-[11px]">
+          <span className="text-[var(--atlas-text-muted)]">
+            Re-sent in strict mode; unresolved items stay open for ATLAS to ask about.
+          </span>
+          <button
+            onClick={() => onResend?.(items)}
+            className="shrink-0 px-2 py-1 rounded bg-yellow-700 text-white hover:bg-yellow-600"
+          >
+            Re-send
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
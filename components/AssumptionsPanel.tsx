@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useConsole } from "./ConsoleProvider";
+import { EMPTY_ASSUMPTION_STATE, useAssumptionStore } from "@/lib/assumptionStore";
+
+const ASSUMPTIONS_PANEL_OPEN_KEY = "atlas_console_assumptions_open";
+
+/**
+ * Sidebar section listing the assumptions carried across the active
+ * session. They are sent with every chat query; in strict mode unresolved
+ * ones make ATLAS stop and ask instead of guessing.
+ */
+const AssumptionsPanel: React.FC = () => {
+  const { activeSessionId } = useConsole();
+  const { strict, assumptions } = useAssumptionStore((state) =>
+    activeSessionId ? state.bySession[activeSessionId] ?? EMPTY_ASSUMPTION_STATE : EMPTY_ASSUMPTION_STATE
+  );
+  const { loadAssumptions, setStrict, addAssumption, updateAssumption, removeAssumption } =
+    useAssumptionStore.getState();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    setOpen(window.localStorage.getItem(ASSUMPTIONS_PANEL_OPEN_KEY) === "true");
+  }, []);
+
+  useEffect(() => {
+    if (activeSessionId) loadAssumptions(activeSessionId);
+  }, [activeSessionId, loadAssumptions]);
+
+  const toggleOpen = () => {
+    setOpen((prev) => {
+      window.localStorage.setItem(ASSUMPTIONS_PANEL_OPEN_KEY, String(!prev));
+      return !prev;
+    });
+  };
+
+  const handleAdd = () => {
+    if (!activeSessionId || !draft.trim()) return;
+    addAssumption(activeSessionId, draft);
+    setDraft("");
+  };
+
+  const unresolved = assumptions.filter((a) => !a.resolved).length;
+
+  return (
+    <div className="border-t border-gray-700">
+      <button
+        onClick={toggleOpen}
+        className="w-full flex items-center justify-between px-3 py-2 font-semibold hover:bg-[#2a2d2e]"
+      >
+        <span className="flex items-center gap-2">
+          <span className="text-gray-400 text-[10px]">{open ? "▼" : "▶"}</span>
+          Assumptions
+          {assumptions.length > 0 && (
+            <span className="text-xs font-normal text-gray-400">
+              ({assumptions.length}{unresolved > 0 && `, ${unresolved} open`})
+            </span>
+          )}
+        </span>
+        {strict && <span className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-700 text-white">STRICT</span>}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2 text-xs max-h-72 overflow-y-auto">
+          {!activeSessionId ? (
+            <div className="text-gray-500">No active session</div>
+          ) : (
+            <>
+              <label className="flex items-center gap-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={strict}
+                  onChange={(e) => setStrict(activeSessionId, e.target.checked)}
+                />
+                Strict mode (don&apos;t override unresolved assumptions)
+              </label>
+
+              {assumptions.length === 0 && (
+                <div className="text-gray-500">No assumptions recorded for this session</div>
+              )}
+
+              {assumptions.map((a) => (
+                <div key={a.id} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={a.resolved}
+                    onChange={(e) => updateAssumption(activeSessionId, a.id, { resolved: e.target.checked })}
+                    className="mt-1.5"
+                    title="Resolved"
+                  />
+                  <textarea
+                    value={a.description}
+                    onChange={(e) => updateAssumption(activeSessionId, a.id, { description: e.target.value })}
+                    rows={2}
+                    className={`flex-1 bg-black border border-gray-700 rounded px-2 py-1 resize-y ${
+                      a.resolved ? "text-gray-300" : "text-yellow-200"
+                    }`}
+                  />
+                  <button
+                    onClick={() => removeAssumption(activeSessionId, a.id)}
+                    className="text-gray-500 hover:text-red-400 mt-1"
+                    title="Remove assumption"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+
+              <div className="flex items-center gap-2">
+                <input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                  placeholder="Add an assumption"
+                  className="flex-1 min-w-0 bg-black border border-gray-700 rounded px-2 py-1 text-gray-200"
+                />
+                <button
+                  onClick={handleAdd}
+                  disabled={!draft.trim()}
+                  className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-40"
+                >
+                  Add
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssumptionsPanel;
@@ -1,30 +1,109 @@
 "use client";
 
 import React, { useState, useRef, useEffect } from "react";
-import { sendAtlasChat, clearConsoleSession } from "@/lib/atlasConsoleClient";
+import {
+  streamAtlasChat,
+  cancelAtlasChat,
+  clearConsoleSession,
+  fetchConsoleFileContent,
+  ChatAssumptionOptions,
+} from "@/lib/atlasConsoleClient";
 import { useConsole } from "./ConsoleProvider";
 import { AgentResponsePanel } from "./AgentResponsePanel";
 import ProgressIndicator from "./ProgressIndicator";
-import type { AgentResponse } from "@/lib/types";
+import HealthDot from "./HealthDot";
+import { exportTranscript, parseTranscript } from "@/lib/chatHistory";
+import { ContextAnswers, answeredCount, buildContextPayload } from "@/lib/contextRequests";
+import {
+  EMPTY_ASSUMPTION_STATE,
+  ReviewedAssumption,
+  toRequestAssumptions,
+  useAssumptionStore,
+} from "@/lib/assumptionStore";
+import {
+  SlashAction,
+  activeArgIndex,
+  commandSignature,
+  findSlashCommand,
+  formatSlashArg,
+  matchSlashCommands,
+  parseSlashInput,
+  resolveSlashCommand,
+  slashHelpMarkdown,
+} from "@/lib/slashCommands";
+import {
+  MentionedFile,
+  activeMention,
+  buildMentionContext,
+  byteLength,
+  formatBytes,
+  fuzzyMatchPaths,
+  mentionLabel,
+  mentionedText,
+  parseMentions,
+} from "@/lib/fileMentions";
+import { useWorkspaceIndexStore } from "@/lib/workspaceIndex";
+import { createRandomId } from "@/lib/session";
+import { overallStatus, useHealthStore } from "@/lib/healthStore";
+import type { AgentResponse, ChatMessage, PatchApplyResult } from "@/lib/types";
 
 const CHAT_PANEL_WIDTH_KEY = "atlas_console_chat_panel_width";
 const DEFAULT_CHAT_PANEL_WIDTH = 460;
+// Shared empty list, so effects keyed on messages don't rerun every render
+const NO_MESSAGES: ChatMessage[] = [];
 
 const ChatPanel: React.FC = () => {
-  const { activeSessionId, getMessages, addMessage, clearMessages } = useConsole();
-  const messages = activeSessionId ? getMessages(activeSessionId) : [];
+  const {
+    activeSessionId,
+    getMessages,
+    addMessage,
+    updateMessage,
+    replaceMessages,
+    clearMessages,
+    historyLoading,
+    chatAttachments: attachments,
+    addChatAttachment,
+    removeChatAttachment,
+    clearChatAttachments,
+    sessions,
+    setSelectedFile,
+    setActiveTab,
+    openView,
+    selectedFile,
+    focusedMessage,
+    clearFocusedMessage,
+  } = useConsole();
+  const messages = activeSessionId ? getMessages(activeSessionId) : NO_MESSAGES;
+  const { strict } = useAssumptionStore((state) =>
+    activeSessionId ? state.bySession[activeSessionId] ?? EMPTY_ASSUMPTION_STATE : EMPTY_ASSUMPTION_STATE
+  );
+  const { loadAssumptions, setStrict, mergeReviewed } = useAssumptionStore.getState();
   
   const [input, setInput] = useState("");
+  const [slashIndex, setSlashIndex] = useState(0);
+  const [caret, setCaret] = useState(0);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [dismissedMentionAt, setDismissedMentionAt] = useState<number | null>(null);
+  // Contents of @-mentioned files, for the size preview; re-read on send
+  const [mentionContents, setMentionContents] = useState<Record<string, string | null>>({});
+  const workspacePaths = useWorkspaceIndexStore((state) => state.paths);
+  const workspaceIndexStatus = useWorkspaceIndexStore((state) => state.status);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showProgress, setShowProgress] = useState(false);
+  const [streamingResponse, setStreamingResponse] = useState<AgentResponse | null>(null);
   const [width, setWidth] = useState<number>(DEFAULT_CHAT_PANEL_WIDTH);
   const [isResizing, setIsResizing] = useState(false);
-  const [isHealthy, setIsHealthy] = useState<boolean | null>(null); // null = checking, true = healthy, false = unhealthy
-  const [attachments, setAttachments] = useState<Array<{name: string, type: string, content: string, size?: number}>>([]);
+  const healthStatus = useHealthStore((state) => overallStatus(state.backend, Object.values(state.sockets)));
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Message just jumped to, briefly outlined
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+  // The chat request in flight, for the Stop button
+  const activeChatRef = useRef<{ controller: AbortController; sessionId: string; requestId: string } | null>(null);
 
   // Load initial width from localStorage on mount
   useEffect(() => {
@@ -48,30 +127,8 @@ const ChatPanel: React.FC = () => {
     window.localStorage.setItem(CHAT_PANEL_WIDTH_KEY, String(width));
   }, [width]);
 
-  // Health check - poll backend immediately and every 30 seconds
-  useEffect(() => {
-    const checkHealth = async () => {
-      try {
-        // Check both health endpoint and try a simple chat endpoint verification
-        const healthResponse = await fetch('http://localhost:8000/health');
-        if (healthResponse.ok) {
-          setIsHealthy(true);
-        } else {
-          setIsHealthy(false);
-        }
-      } catch (err) {
-        setIsHealthy(false);
-      }
-    };
-
-    // Check immediately on mount
-    checkHealth();
-
-    // Then check every 30 seconds
-    const interval = setInterval(checkHealth, 30000);
-
-    return () => clearInterval(interval);
-  }, []);
+  // Shared health polling (see healthStore); the status bar holds it too
+  useEffect(() => useHealthStore.getState().startPolling(), []);
 
   // Resize handlers
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -102,18 +159,176 @@ const ChatPanel: React.FC = () => {
     };
   }, [isResizing]);
 
+  useEffect(() => {
+    if (activeSessionId) loadAssumptions(activeSessionId);
+  }, [activeSessionId, loadAssumptions]);
+
+  // Session assumptions go with every query; strict mode stops overriding unresolved ones
+  const sessionAssumptionOptions = (forceStrict = false): ChatAssumptionOptions => {
+    const state = (activeSessionId && useAssumptionStore.getState().bySession[activeSessionId]) || EMPTY_ASSUMPTION_STATE;
+    return {
+      assumptions: toRequestAssumptions(state.assumptions),
+      strict: forceStrict || state.strict,
+    };
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingResponse]);
+
+  // Jump to a focused message once its session's history is in
+  useEffect(() => {
+    if (!focusedMessage || focusedMessage.sessionId !== activeSessionId) return;
+    const element = messagesContainerRef.current?.querySelector(
+      `[data-message-id="${CSS.escape(focusedMessage.messageId)}"]`
+    );
+    if (!element) {
+      if (!historyLoading && messages.length > 0) clearFocusedMessage();
+      return;
+    }
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageId(focusedMessage.messageId);
+    clearFocusedMessage();
+  }, [focusedMessage, activeSessionId, messages, historyLoading, clearFocusedMessage]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // Slash command being typed: name suggestions until the first space, then argument hints
+  const projectId = sessions.find(s => s.session_id === activeSessionId)?.project_id;
+  const slash = parseSlashInput(input);
+  const slashCompleting = slash !== null && !/\s/.test(input.trimStart());
+  const slashSuggestions = slashCompleting ? matchSlashCommands(slash.name) : [];
+  const slashCommand = slash && !slashCompleting ? findSlashCommand(slash.name) : undefined;
+  const slashArgIndex = slashCommand ? activeArgIndex(slashCommand, input) : -1;
+  const slashResolution = slash && !slashCompleting ? resolveSlashCommand(input, { projectId }) : null;
+  const slashError = slashResolution && !slashResolution.ok ? slashResolution.error : null;
+
+  // @-mention being typed at the caret; an empty query offers the open file first
+  const mention = slash ? null : activeMention(input, caret);
+  const mentionOpen = mention !== null && mention.start !== dismissedMentionAt;
+  const mentionSuggestions = !mentionOpen
+    ? []
+    : mention.query
+      ? fuzzyMatchPaths(mention.query, workspacePaths)
+      : [
+          ...(selectedFile ? [selectedFile] : []),
+          ...fuzzyMatchPaths("", workspacePaths).filter((p) => p !== selectedFile),
+        ].slice(0, 8);
+  // Mentions already in the message, leaving out the one still being typed
+  const mentions = slash ? [] : parseMentions(input).filter((m) => !mention || m.raw !== mention.query);
+  const mentionedPaths = Array.from(new Set(mentions.map((m) => m.path)));
+  const mentionSizes = mentions.map((m) => {
+    const content = mentionContents[m.path];
+    return typeof content === "string" ? byteLength(mentionedText({ mention: m, content })) : null;
+  });
+  const mentionTotal = mentionSizes.reduce<number>((sum, size) => sum + (size ?? 0), 0);
+
+  useEffect(() => {
+    if (mentionOpen && workspaceIndexStatus === "idle") {
+      void useWorkspaceIndexStore.getState().loadIndex();
+    }
+  }, [mentionOpen, workspaceIndexStatus]);
+
+  // Read newly mentioned files once typing settles, for the size preview.
+  // Contents are read through a ref: a finished read must not restart the timer.
+  const mentionedPathsKey = mentionedPaths.join("\n");
+  const mentionContentsRef = useRef(mentionContents);
+  mentionContentsRef.current = mentionContents;
+  useEffect(() => {
+    const paths = mentionedPathsKey ? mentionedPathsKey.split("\n") : [];
+    const missing = paths.filter((path) => !(path in mentionContentsRef.current));
+    if (missing.length === 0) return;
+    const timer = setTimeout(() => {
+      for (const path of missing) {
+        fetchConsoleFileContent(path)
+          .catch(() => null)
+          .then((content) => setMentionContents((prev) => ({ ...prev, [path]: content })));
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [mentionedPathsKey]);
+
+  const completeMention = (path: string) => {
+    if (!mention) return;
+    const before = `${input.slice(0, mention.start)}@${path} `;
+    const next = before + input.slice(caret).replace(/^\S*/, "").trimStart();
+    setInput(next);
+    setCaret(before.length);
+    setMentionIndex(0);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  // Fresh contents of the mentioned files that exist; the other mentions are
+  // left as plain text. Throws when a file can't be read.
+  const readMentionedFiles = async (text: string): Promise<MentionedFile[]> => {
+    const files = await Promise.all(
+      parseMentions(text).map(async (m) => {
+        const content = await fetchConsoleFileContent(m.path);
+        return content === null ? null : { mention: m, content };
+      })
+    );
+    return files.filter((file): file is MentionedFile => file !== null);
+  };
+
+  const completeSlashCommand = (name: string) => {
+    setInput(`/${name} `);
+    setSlashIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const runSlashAction = async (raw: string, action: SlashAction) => {
+    if (!activeSessionId) return;
+    switch (action.kind) {
+      case "chat":
+        await runChat(raw, action.query, action.context);
+        break;
+      case "view":
+        openView(action.tab, action.args);
+        break;
+      case "open-file":
+        setSelectedFile(action.path);
+        setActiveTab("code");
+        break;
+      case "help": {
+        const answer = slashHelpMarkdown();
+        addMessage(activeSessionId, { type: "user", content: raw });
+        addMessage(activeSessionId, {
+          type: "assistant",
+          content: answer,
+          response: { answer, assumptions_used: [], unresolved_assumptions: [] },
+        });
+        break;
+      }
+    }
+  };
 
   const handleSend = async () => {
     const trimmed = input.trim();
     if (!trimmed || loading || !activeSessionId) return;
 
+    if (parseSlashInput(trimmed)) {
+      const resolution = resolveSlashCommand(trimmed, { projectId });
+      if (!resolution.ok) {
+        setError(resolution.error);
+        return;
+      }
+      setInput("");
+      setError(null);
+      await runSlashAction(trimmed, resolution.action);
+      return;
+    }
+
     // Build message with attachments as context
     let messageContent = trimmed;
     if (attachments.length > 0) {
@@ -136,8 +351,37 @@ const ChatPanel: React.FC = () => {
       });
     }
 
+    let mentionContext: string | undefined;
+    if (parseMentions(trimmed).length > 0) {
+      try {
+        const files = await readMentionedFiles(trimmed);
+        if (files.length > 0) mentionContext = buildMentionContext(files);
+      } catch (err: any) {
+        setError(err.message || "Failed to read mentioned files");
+        return;
+      }
+    }
+
     setInput("");
-    setAttachments([]); // Clear attachments after sending
+    setMentionContents({});
+    clearChatAttachments(); // Clear attachments after sending
+    await runChat(trimmed, messageContent, mentionContext);
+  };
+
+  /**
+   * Show `displayText` as the user's message and stream the reply to
+   * `query` (which may carry attachments) from ATLAS. `retryMessageId`
+   * re-sends a failed message in place instead of adding a new one.
+   */
+  const runChat = async (
+    displayText: string,
+    query: string,
+    context?: string,
+    assumptionOptions: ChatAssumptionOptions = sessionAssumptionOptions(),
+    retryMessageId?: string
+  ) => {
+    if (!activeSessionId) return;
+    const sessionId = activeSessionId;
     setLoading(true);
     setError(null);
 
@@ -147,7 +391,7 @@ const ChatPanel: React.FC = () => {
       "refactor", "analyze all", "complete", "full", "entire system"
     ];
     const isLongTask = longTaskKeywords.some(keyword => 
-      trimmed.toLowerCase().includes(keyword)
+      displayText.toLowerCase().includes(keyword)
     );
 
     if (isLongTask) {
@@ -155,25 +399,111 @@ const ChatPanel: React.FC = () => {
     }
 
     // Add user message
-    addMessage(activeSessionId, { type: 'user', content: trimmed });
+    let userMessageId = retryMessageId;
+    if (userMessageId) {
+      updateMessage(sessionId, userMessageId, { failed: undefined });
+    } else {
+      userMessageId = addMessage(sessionId, { type: 'user', content: displayText }).id;
+    }
+
+    const controller = new AbortController();
+    const requestId = createRandomId();
+    activeChatRef.current = { controller, sessionId, requestId };
+    const streamed: { partial: AgentResponse | null } = { partial: null };
 
     try {
-      const response = await sendAtlasChat(messageContent, activeSessionId);
+      const response = await streamAtlasChat(query, sessionId, context, {
+        ...assumptionOptions,
+        signal: controller.signal,
+        requestId,
+        onPartial: (partial) => {
+          streamed.partial = partial;
+          setStreamingResponse(partial);
+        },
+      });
       // Add assistant response
-      addMessage(activeSessionId, { type: 'assistant', content: response.answer, response });
-      // Mark as healthy on successful chat
-      setIsHealthy(true);
+      addMessage(sessionId, { type: 'assistant', content: response.answer, response });
     } catch (err: any) {
-      setError(err.message || "Failed to send message");
-      console.error("ATLAS chat error:", err);
-      // Mark as unhealthy on chat error
-      setIsHealthy(false);
+      const cancelled = controller.signal.aborted;
+      // Keep whatever had streamed in before it stopped
+      if (streamed.partial?.answer) {
+        addMessage(sessionId, { type: 'assistant', content: streamed.partial.answer, response: streamed.partial });
+      }
+      updateMessage(sessionId, userMessageId, {
+        failed: {
+          error: cancelled ? "Stopped" : err.message || "Failed to send message",
+          cancelled,
+          failed_at: new Date().toISOString(),
+          query,
+          context,
+        },
+      });
+      if (!cancelled) {
+        setError(err.message || "Failed to send message");
+        console.error("ATLAS chat error:", err);
+        // Find out whether the backend itself is the problem
+        void useHealthStore.getState().checkBackend();
+      }
     } finally {
+      activeChatRef.current = null;
+      setStreamingResponse(null);
       setLoading(false);
     }
   };
 
+  // Stop waiting for the reply and ask the backend to stop working on it
+  const handleStop = () => {
+    const active = activeChatRef.current;
+    if (!active) return;
+    active.controller.abort();
+    cancelAtlasChat(active.sessionId, active.requestId).catch((err) =>
+      console.warn("Failed to cancel ATLAS chat on the backend:", err)
+    );
+  };
+
+  const retryMessage = (messageId: string) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message?.failed || loading) return;
+    const isLast = messages[messages.length - 1]?.id === messageId;
+    // In place when nothing came after it, otherwise as a new message at the end
+    runChat(message.content, message.failed.query, message.failed.context, sessionAssumptionOptions(), isLast ? messageId : undefined);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setMentionIndex((mentionIndex + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) {
+        e.preventDefault();
+        completeMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissedMentionAt(mention?.start ?? null);
+        return;
+      }
+    }
+    if (slashSuggestions.length > 0) {
+      const selected = slashSuggestions[Math.min(slashIndex, slashSuggestions.length - 1)];
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSlashIndex((slashIndex + step + slashSuggestions.length) % slashSuggestions.length);
+        return;
+      }
+      // Tab always completes; Enter runs a fully typed command that takes no arguments
+      const runsAsTyped = selected.args.length === 0 && slash?.name === selected.name;
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && !runsAsTyped)) {
+        e.preventDefault();
+        completeSlashCommand(selected.name);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -195,6 +525,83 @@ const ChatPanel: React.FC = () => {
     }
   };
 
+  const handleExportTranscript = () => {
+    if (!activeSessionId) return;
+    const transcript = exportTranscript(activeSessionId, messages);
+    const blob = new Blob([JSON.stringify(transcript, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `atlas-transcript-${activeSessionId}.json`;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const handleImportTranscript = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !activeSessionId) return;
+
+    try {
+      const transcript = parseTranscript(await file.text());
+      if (
+        messages.length > 0 &&
+        !window.confirm(`Replace the ${messages.length} message(s) in this session with the imported transcript?`)
+      ) {
+        return;
+      }
+      replaceMessages(activeSessionId, transcript.messages);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || "Failed to import transcript");
+    }
+  };
+
+  const recordPatchResult = (messageId: string, patchIndex: number, result: PatchApplyResult) => {
+    if (!activeSessionId) return;
+    const message = messages.find(m => m.id === messageId);
+    updateMessage(activeSessionId, messageId, {
+      patch_results: { ...(message?.patch_results || {}), [patchIndex]: result },
+    });
+  };
+
+  const recordContextAnswers = (messageId: string, answers: ContextAnswers) => {
+    if (!activeSessionId) return;
+    updateMessage(activeSessionId, messageId, { context_answers: answers });
+  };
+
+  // Re-ask the question that prompted the context requests, with the answers as context
+  const submitContextAnswers = (messageId: string) => {
+    if (!activeSessionId || loading) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    const message = messages[index];
+    const requests = message?.response?.context_requests;
+    const query = messages.slice(0, index).reverse().find(m => m.type === 'user')?.content;
+    if (!message || !requests || !query || message.context_submitted_at) return;
+
+    const answers = message.context_answers || {};
+    updateMessage(activeSessionId, messageId, { context_submitted_at: new Date().toISOString() });
+    const answered = answeredCount(requests, answers);
+    runChat(
+      `${query}\n\n(answered ${answered} context request${answered === 1 ? "" : "s"})`,
+      query,
+      buildContextPayload(requests, answers)
+    );
+  };
+
+  // Re-ask the question with the reviewed assumptions, override disabled
+  const resendWithAssumptions = (messageId: string, reviewed: ReviewedAssumption[]) => {
+    if (!activeSessionId || loading) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    const query = messages.slice(0, index).reverse().find(m => m.type === 'user')?.content;
+    if (index === -1 || !query) return;
+
+    mergeReviewed(activeSessionId, reviewed, messageId);
+    updateMessage(activeSessionId, messageId, { assumptions_resent_at: new Date().toISOString() });
+    runChat(query, query, undefined, sessionAssumptionOptions(true));
+  };
+
   const handleFileAttach = () => {
     fileInputRef.current?.click();
   };
@@ -219,12 +626,12 @@ const ChatPanel: React.FC = () => {
       
       reader.onload = (event) => {
         const content = event.target?.result as string;
-        setAttachments(prev => [...prev, {
+        addChatAttachment({
           name: file.name,
           type: file.type || 'text/plain',
           content: content,
           size: file.size
-        }]);
+        });
       };
 
       if (file.type.startsWith('image/') || file.type.startsWith('video/')) {
@@ -240,10 +647,6 @@ const ChatPanel: React.FC = () => {
     }
   };
 
-  const removeAttachment = (index: number) => {
-    setAttachments(prev => prev.filter((_, i) => i !== index));
-  };
-
   return (
     <>
       {/* Resize Handle */}
@@ -260,27 +663,61 @@ const ChatPanel: React.FC = () => {
       {/* Header */}
       <div className="px-3 py-2 border-b border-[var(--atlas-border-subtle)] flex items-center justify-between">
         <div className="flex items-center gap-2">
-          {/* Status Indicator - Green for operational, Red for not, Yellow for checking */}
-          <div className="relative">
-            <div className={`w-2 h-2 rounded-full ${
-              isHealthy === null ? 'bg-yellow-500' : 
-              isHealthy ? 'bg-green-500' : 'bg-red-500'
-            } animate-pulse`}></div>
-          </div>
+          {/* Status Indicator - green connected, orange degraded, red unreachable, yellow checking */}
+          <HealthDot status={healthStatus} pulse />
           {/* ATLAS Badge */}
           <span className="text-sm font-semibold text-[var(--atlas-text-primary)]">ATLAS</span>
         </div>
-        <button
-          onClick={handleClear}
-          className="text-xs text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)] transition-colors"
-          aria-label="Clear conversation"
-        >
-          Clear
-        </button>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => activeSessionId && setStrict(activeSessionId, !strict)}
+            disabled={!activeSessionId}
+            className={`text-xs px-1.5 py-0.5 rounded transition-colors disabled:opacity-50 ${
+              strict
+                ? "bg-yellow-700 text-white"
+                : "text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)]"
+            }`}
+            title={strict
+              ? "Strict mode: ATLAS stops on unresolved assumptions"
+              : "Enable strict mode to review assumptions before ATLAS acts on them"}
+          >
+            Strict
+          </button>
+          <input
+            ref={transcriptInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportTranscript}
+            className="hidden"
+          />
+          <button
+            onClick={() => transcriptInputRef.current?.click()}
+            disabled={!activeSessionId}
+            className="text-xs text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)] transition-colors disabled:opacity-50"
+            title="Import a transcript into this session"
+          >
+            Import
+          </button>
+          <button
+            onClick={handleExportTranscript}
+            disabled={!activeSessionId || messages.length === 0}
+            className="text-xs text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)] transition-colors disabled:opacity-50"
+            title="Download this session's transcript"
+          >
+            Export
+          </button>
+          <button
+            onClick={handleClear}
+            className="text-xs text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)] transition-colors"
+            aria-label="Clear conversation"
+          >
+            Clear
+          </button>
+        </div>
       </div>
 
       {/* Responses */}
-      <div className="flex-1 overflow-y-auto atlas-scrollbar">
+      <div ref={messagesContainerRef} className="flex-1 overflow-y-auto atlas-scrollbar">
         {!activeSessionId ? (
           <div className="flex items-center justify-center h-full text-center text-xs text-[var(--atlas-text-muted)]">
             <div>
@@ -290,7 +727,7 @@ const ChatPanel: React.FC = () => {
           </div>
         ) : messages.length === 0 ? (
           <div className="flex items-center justify-center h-full text-center text-xs text-[var(--atlas-text-muted)]">
-            <div>Interactive chat window</div>
+            <div>{historyLoading ? "Loading conversation..." : "Interactive chat window"}</div>
           </div>
         ) : (
           <div>
@@ -299,7 +736,11 @@ const ChatPanel: React.FC = () => {
               const showRestorePoint = message.type === 'user';
               
               return (
-                <div key={index}>
+                <div
+                  key={message.id}
+                  data-message-id={message.id}
+                  className={`transition-shadow duration-500 ${highlightedMessageId === message.id ? "ring-1 ring-[var(--atlas-accent-primary)] rounded" : ""}`}
+                >
                   {/* Restore point separator - shown before each user message */}
                   {showRestorePoint && (
                     <div className="flex items-center px-3 py-3">
@@ -310,9 +751,7 @@ const ChatPanel: React.FC = () => {
                           if (confirmed) {
                             try {
                               await clearConsoleSession(activeSessionId);
-                              const messagesToKeep = messages.slice(0, index);
-                              clearMessages(activeSessionId);
-                              messagesToKeep.forEach(msg => addMessage(activeSessionId, msg));
+                              replaceMessages(activeSessionId, messages.slice(0, index));
                             } catch (err) {
                               console.error('Failed to restore:', err);
                             }
@@ -339,9 +778,7 @@ const ChatPanel: React.FC = () => {
                           if (confirmed) {
                             try {
                               await clearConsoleSession(activeSessionId);
-                              const messagesToKeep = messages.slice(0, index);
-                              clearMessages(activeSessionId);
-                              messagesToKeep.forEach(msg => addMessage(activeSessionId, msg));
+                              replaceMessages(activeSessionId, messages.slice(0, index));
                             } catch (err) {
                               console.error('Failed to restore:', err);
                             }
@@ -354,11 +791,38 @@ const ChatPanel: React.FC = () => {
                       </button>
                     </div>
                   )}
+                  {message.type === 'user' && message.failed && (
+                    <div className="px-3 pb-4 -mt-2 flex items-center justify-end gap-2 text-[11px]">
+                      <span className={message.failed.cancelled ? "text-[var(--atlas-text-muted)]" : "text-red-400"}>
+                        {message.failed.cancelled ? "Stopped" : `Failed: ${message.failed.error}`}
+                      </span>
+                      <button
+                        onClick={() => retryMessage(message.id)}
+                        disabled={loading}
+                        className="px-2 py-0.5 rounded border border-[var(--atlas-border-subtle)] text-[var(--atlas-text-secondary)] hover:text-[var(--atlas-text-primary)] hover:bg-[var(--atlas-bg-hover)] disabled:opacity-40"
+                      >
+                        Retry
+                      </button>
+                    </div>
+                  )}
 
                   {/* Agent response */}
                   {message.response && (
                     <div className="px-3 pb-4">
-                      <AgentResponsePanel response={message.response} index={index} />
+                      <AgentResponsePanel
+                        response={message.response}
+                        index={index}
+                        messageId={message.id}
+                        patchResults={message.patch_results}
+                        onPatchResult={(patchIndex, result) => recordPatchResult(message.id, patchIndex, result)}
+                        contextAnswers={message.context_answers}
+                        contextSubmittedAt={message.context_submitted_at}
+                        onContextAnswersChange={(answers) => recordContextAnswers(message.id, answers)}
+                        // Held back while another reply is streaming
+                        onContextSubmit={loading ? undefined : () => submitContextAnswers(message.id)}
+                        assumptionsResentAt={message.assumptions_resent_at}
+                        onAssumptionsResend={loading ? undefined : (reviewed) => resendWithAssumptions(message.id, reviewed)}
+                      />
                     </div>
                   )}
                 </div>
@@ -367,6 +831,13 @@ const ChatPanel: React.FC = () => {
           </div>
         )}
         
+        {/* Response being streamed in */}
+        {loading && streamingResponse && (
+          <div className="px-3 pb-4">
+            <AgentResponsePanel response={streamingResponse} index={messages.length} />
+          </div>
+        )}
+
         {loading && showProgress && activeSessionId && (
           <ProgressIndicator 
             sessionId={activeSessionId}
@@ -374,7 +845,7 @@ const ChatPanel: React.FC = () => {
           />
         )}
         
-        {loading && !showProgress && (
+        {loading && !showProgress && !streamingResponse?.answer && (
           <div className="flex items-center justify-center py-4">
             <div className="flex gap-1">
               <div className="w-2 h-2 rounded-full bg-blue-400 animate-bounce" style={{ animationDelay: "0ms" }} />
@@ -444,7 +915,7 @@ const ChatPanel: React.FC = () => {
                   )}
                   <span className="text-[var(--atlas-text-primary)]">{att.name}</span>
                   <button
-                    onClick={() => removeAttachment(idx)}
+                    onClick={() => removeChatAttachment(idx)}
                     className="text-[var(--atlas-text-muted)] hover:text-red-400 transition-colors"
                   >
                     <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -456,24 +927,145 @@ const ChatPanel: React.FC = () => {
             </div>
           )}
           
+          {/* Slash command suggestions */}
+          {slashSuggestions.length > 0 && (
+            <div className="border border-[var(--atlas-border-subtle)] rounded bg-[var(--atlas-bg-elevated)] text-xs max-h-48 overflow-y-auto">
+              {slashSuggestions.map((command, i) => (
+                <button
+                  key={command.name}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    completeSlashCommand(command.name);
+                  }}
+                  className={`w-full flex items-baseline justify-between gap-3 px-2 py-1 text-left ${
+                    i === Math.min(slashIndex, slashSuggestions.length - 1)
+                      ? "bg-[var(--atlas-bg-hover)] text-[var(--atlas-text-primary)]"
+                      : "text-[var(--atlas-text-secondary)]"
+                  }`}
+                >
+                  <span className="font-mono">{commandSignature(command)}</span>
+                  <span className="text-[10px] text-[var(--atlas-text-muted)] truncate">{command.description}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Argument hint and live validation */}
+          {slashCommand && (
+            <div className="text-[11px] space-y-0.5">
+              <div className="font-mono text-[var(--atlas-text-muted)]">
+                /{slashCommand.name}
+                {slashCommand.args.map((arg, i) => (
+                  <span
+                    key={arg.name}
+                    className={i === slashArgIndex ? "text-[var(--atlas-text-primary)] font-semibold" : undefined}
+                  >
+                    {" "}{formatSlashArg(arg)}
+                  </span>
+                ))}
+                {slashArgIndex !== -1 && (
+                  <span className="font-sans"> — {slashCommand.args[slashArgIndex].description}</span>
+                )}
+              </div>
+              {slashError && <div className="text-yellow-400">{slashError}</div>}
+            </div>
+          )}
+          {slash && !slashCompleting && !slashCommand && slashError && (
+            <div className="text-[11px] text-yellow-400">{slashError}</div>
+          )}
+
+          {/* @-mention suggestions */}
+          {mentionOpen && (mentionSuggestions.length > 0 || workspaceIndexStatus !== "ready") && (
+            <div className="border border-[var(--atlas-border-subtle)] rounded bg-[var(--atlas-bg-elevated)] text-xs max-h-48 overflow-y-auto">
+              {mentionSuggestions.length === 0 ? (
+                <div className="px-2 py-1 text-[var(--atlas-text-muted)]">
+                  {workspaceIndexStatus === "error" ? "Could not index workspace files" : "Indexing workspace files..."}
+                </div>
+              ) : (
+                mentionSuggestions.map((path, i) => (
+                  <button
+                    key={path}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      completeMention(path);
+                    }}
+                    className={`w-full flex items-baseline justify-between gap-3 px-2 py-1 text-left font-mono ${
+                      i === Math.min(mentionIndex, mentionSuggestions.length - 1)
+                        ? "bg-[var(--atlas-bg-hover)] text-[var(--atlas-text-primary)]"
+                        : "text-[var(--atlas-text-secondary)]"
+                    }`}
+                  >
+                    <span className="truncate">{path}</span>
+                    {path === selectedFile && (
+                      <span className="font-sans text-[10px] text-[var(--atlas-text-muted)]">open</span>
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+          )}
+
           <textarea
             ref={inputRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setCaret(e.target.selectionStart);
+              setSlashIndex(0);
+              setMentionIndex(0);
+            }}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
             onKeyDown={handleKeyDown}
-            placeholder={activeSessionId ? "Ask ATLAS anything..." : "Select a session to start"}
+            placeholder={activeSessionId ? "Ask ATLAS anything... (/ for commands, @ for files)" : "Select a session to start"}
             className="atlas-textarea min-h-[60px] max-h-[120px] text-xs"
             disabled={loading || !activeSessionId}
             rows={2}
           />
+          {/* Files that will go with the message */}
+          {mentions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-[11px]">
+              {mentions.map((m, i) => (
+                <span
+                  key={`${i}:${m.raw}`}
+                  className={`px-2 py-0.5 rounded border font-mono ${
+                    mentionContents[m.path] === null
+                      ? "border-dashed border-[var(--atlas-border-subtle)] text-[var(--atlas-text-muted)]"
+                      : "border-[var(--atlas-border-subtle)] text-[var(--atlas-text-secondary)]"
+                  }`}
+                  title={mentionContents[m.path] === null ? "Not a workspace file; sent as plain text" : mentionLabel(m)}
+                >
+                  @{m.raw}
+                  <span className="ml-1 font-sans text-[var(--atlas-text-muted)]">
+                    {mentionContents[m.path] === null
+                      ? "not a file"
+                      : mentionSizes[i] === null
+                        ? "..."
+                        : formatBytes(mentionSizes[i]!)}
+                  </span>
+                </span>
+              ))}
+              <span className="text-[var(--atlas-text-muted)]">{formatBytes(mentionTotal)} of file context</span>
+            </div>
+          )}
+
           <div className="flex gap-2">
-            <button
-              onClick={handleSend}
-              disabled={!input.trim() || loading || !activeSessionId}
-              className="flex-1 atlas-btn-primary text-xs py-1.5"
-            >
-              {loading ? "Sending..." : "Send"}
-            </button>
+            {loading ? (
+              <button
+                onClick={handleStop}
+                className="flex-1 text-xs py-1.5 rounded bg-red-700 text-white hover:bg-red-600 transition-colors"
+                title="Stop waiting for this reply"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim() || !activeSessionId || Boolean(slashError)}
+                className="flex-1 atlas-btn-primary text-xs py-1.5"
+              >
+                Send
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { getFenceLanguage, highlightCode } from '@/lib/prism';
+import { applyConsolePatch, fetchConsoleFileContent } from '@/lib/atlasConsoleClient';
+import { runSandboxCode } from '@/lib/atlasClient';
+import { createUnifiedDiff, serializeUnifiedDiff } from '@/lib/diff';
+import { COMMAND_TIMEOUT_SECONDS, commandRunKey, useCommandRunStore } from '@/lib/commandRunStore';
+import { useConsole } from './ConsoleProvider';
+import { CommandRunHistory, useCommandRuns } from './CommandRunHistory';
+import 'prismjs/themes/prism-tomorrow.css';
+
+type InsertMode = 'append' | 'replace';
+
+function withTrailingNewline(text: string): string {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+// Runs of the block's command, mounted once it has been run
+function CodeBlockRuns({ command }: { command: string }) {
+  const { runs, running, cancel, clear } = useCommandRuns(command);
+  return (
+    <div className="relative">
+      {running && (
+        <button
+          onClick={cancel}
+          className="absolute right-4 top-3 text-[10px] px-2 py-0.5 rounded bg-red-700 text-white hover:bg-red-600"
+        >
+          Stop
+        </button>
+      )}
+      <CommandRunHistory runs={runs} onClear={clear} />
+    </div>
+  );
+}
+
+interface CodeBlockProps {
+  code: string;
+  language?: string; // fence tag
+}
+
+/**
+ * Highlighted code block with copy, insert-into-file, sandbox and
+ * run-as-command actions
+ */
+export function CodeBlock({ code, language }: CodeBlockProps) {
+  const { activeSessionId, selectedFile, setSelectedFile } = useConsole();
+  const prismLanguage = getFenceLanguage(language);
+  const html = useMemo(() => highlightCode(code, prismLanguage), [code, prismLanguage]);
+
+  const [copied, setCopied] = useState(false);
+  const [insertOpen, setInsertOpen] = useState(false);
+  const [insertPath, setInsertPath] = useState('');
+  const [inserting, setInserting] = useState(false);
+  const [sandboxRunning, setSandboxRunning] = useState(false);
+  const [sandboxResult, setSandboxResult] = useState<{ value?: unknown; error?: string } | null>(null);
+  const [commandStarted, setCommandStarted] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch {
+      setMessage({ text: 'Clipboard is not available', error: true });
+    }
+  };
+
+  const openInsert = () => {
+    setInsertPath(prev => prev || selectedFile || '');
+    setInsertOpen(open => !open);
+    setMessage(null);
+  };
+
+  // Written through the patch endpoint like any other edit
+  const handleInsert = async (mode: InsertMode) => {
+    const path = insertPath.trim();
+    if (!path || inserting) return;
+    setInserting(true);
+    setMessage(null);
+    try {
+      const current = await fetchConsoleFileContent(path);
+      const next =
+        mode === 'replace' || !current
+          ? withTrailingNewline(code)
+          : `${withTrailingNewline(current)}${withTrailingNewline(code)}`;
+      const diff = serializeUnifiedDiff([createUnifiedDiff(path, current, next)]);
+      if (diff) await applyConsolePatch(path, diff);
+      setInsertOpen(false);
+      setMessage({ text: `${current === null ? 'Created' : 'Updated'} ${path}`, error: false });
+      setSelectedFile(path);
+    } catch (err: any) {
+      setMessage({ text: err.message || 'Failed to insert into file', error: true });
+    } finally {
+      setInserting(false);
+    }
+  };
+
+  const handleSandbox = async () => {
+    setSandboxRunning(true);
+    setSandboxResult(null);
+    try {
+      setSandboxResult({ value: await runSandboxCode(code) });
+    } catch (err: any) {
+      setSandboxResult({ error: err.message || 'Sandbox run failed' });
+    } finally {
+      setSandboxRunning(false);
+    }
+  };
+
+  const handleRunCommand = () => {
+    const command = code.trim();
+    if (!command) return;
+    setCommandStarted(true);
+    void useCommandRunStore.getState().startRun(commandRunKey(command, undefined, activeSessionId), {
+      command,
+      timeout: COMMAND_TIMEOUT_SECONDS,
+      session_id: activeSessionId ?? undefined,
+    });
+  };
+
+  const actionClass = 'px-1.5 py-0.5 rounded hover:bg-gray-700 hover:text-gray-200 disabled:opacity-40 transition-colors';
+
+  return (
+    <div className="my-2 rounded border border-gray-700 bg-black overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-2 py-1 bg-[#252526] border-b border-gray-700 text-[10px] text-gray-400">
+        <span className="font-mono">{language || 'text'}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={handleCopy} className={actionClass}>
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button onClick={openInsert} className={actionClass}>
+            Insert into file
+          </button>
+          <button onClick={handleSandbox} disabled={sandboxRunning} className={actionClass}>
+            {sandboxRunning ? 'Running…' : 'Run in sandbox'}
+          </button>
+          <button onClick={handleRunCommand} disabled={!code.trim()} className={actionClass}>
+            Run as command
+          </button>
+        </div>
+      </div>
+
+      {insertOpen && (
+        <div className="flex items-center gap-2 px-2 py-1.5 bg-[#1e1e1e] border-b border-gray-700 text-[11px]">
+          <input
+            value={insertPath}
+            onChange={e => setInsertPath(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleInsert('append')}
+            placeholder="Workspace file path"
+            className="flex-1 min-w-0 bg-black border border-gray-700 rounded px-2 py-0.5 font-mono text-gray-200"
+            autoFocus
+          />
+          <button
+            onClick={() => handleInsert('append')}
+            disabled={!insertPath.trim() || inserting}
+            className="px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+          >
+            Append
+          </button>
+          <button
+            onClick={() => handleInsert('replace')}
+            disabled={!insertPath.trim() || inserting}
+            className="px-2 py-0.5 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-40"
+            title="Replace the whole file with this code"
+          >
+            Replace
+          </button>
+        </div>
+      )}
+
+      <pre className="m-0 p-3 overflow-x-auto text-xs leading-5">
+        <code className={`language-${prismLanguage}`} dangerouslySetInnerHTML={{ __html: html }} />
+      </pre>
+
+      {message && (
+        <div className={`px-3 py-1 text-[11px] border-t border-gray-700 ${message.error ? 'text-red-400' : 'text-green-400'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {sandboxResult && (
+        <div className="px-3 py-2 border-t border-gray-700 text-[11px] font-mono whitespace-pre-wrap">
+          {sandboxResult.error ? (
+            <span className="text-red-400">{sandboxResult.error}</span>
+          ) : (
+            <>
+              <span className="text-gray-500">Sandbox result: </span>
+              <span className="text-gray-200">{JSON.stringify(sandboxResult.value, null, 2)}</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {commandStarted && <CodeBlockRuns command={code.trim()} />}
+    </div>
+  );
+}
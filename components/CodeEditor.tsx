@@ -0,0 +1,148 @@
+'use client';
+
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { EditorState, Extension } from '@codemirror/state';
+import { EditorView, keymap } from '@codemirror/view';
+import { indentWithTab, redo, redoDepth, undo, undoDepth } from '@codemirror/commands';
+import { openSearchPanel } from '@codemirror/search';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import { json } from '@codemirror/lang-json';
+import { markdown } from '@codemirror/lang-markdown';
+import { css } from '@codemirror/lang-css';
+import { html } from '@codemirror/lang-html';
+import { oneDark } from '@codemirror/theme-one-dark';
+
+export interface EditorHistory {
+  undo: number;
+  redo: number;
+}
+
+export interface CodeEditorHandle {
+  undo: () => void;
+  redo: () => void;
+  openFind: () => void;
+  focus: () => void;
+}
+
+interface CodeEditorProps {
+  path: string;
+  // Only read on mount; remount (change `key`) to load different text
+  initialValue: string;
+  onChange: (value: string, history: EditorHistory) => void;
+  onSave?: () => void;
+}
+
+// Map file extensions to CodeMirror language support
+function languageFor(path: string): Extension {
+  switch (path.split('.').pop()?.toLowerCase()) {
+    case 'ts':
+      return javascript({ typescript: true });
+    case 'tsx':
+      return javascript({ typescript: true, jsx: true });
+    case 'js':
+    case 'mjs':
+    case 'cjs':
+      return javascript();
+    case 'jsx':
+      return javascript({ jsx: true });
+    case 'py':
+      return python();
+    case 'json':
+      return json();
+    case 'md':
+      return markdown();
+    case 'css':
+      return css();
+    case 'html':
+    case 'htm':
+      return html();
+    default:
+      return [];
+  }
+}
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '12px', backgroundColor: '#1e1e1e' },
+  '.cm-scroller': { lineHeight: '1.5' },
+  '.cm-gutters': { backgroundColor: '#1e1e1e' },
+});
+
+/**
+ * CodeMirror editor with undo/redo history, find/replace (Mod-f) and a
+ * Mod-s save binding.
+ */
+export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEditor(
+  { path, initialValue, onChange, onSave },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+
+  // The view is created once per path; keep it calling the latest callbacks.
+  // initialValue is only read when the view is created.
+  const initialValueRef = useRef(initialValue);
+  const onChangeRef = useRef(onChange);
+  const onSaveRef = useRef(onSave);
+  initialValueRef.current = initialValue;
+  onChangeRef.current = onChange;
+  onSaveRef.current = onSave;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: initialValueRef.current,
+        extensions: [
+          basicSetup,
+          keymap.of([
+            indentWithTab,
+            {
+              key: 'Mod-s',
+              preventDefault: true,
+              run: () => {
+                onSaveRef.current?.();
+                return true;
+              },
+            },
+          ]),
+          languageFor(path),
+          oneDark,
+          editorTheme,
+          EditorView.updateListener.of(update => {
+            if (!update.docChanged) return;
+            onChangeRef.current(update.state.doc.toString(), {
+              undo: undoDepth(update.state),
+              redo: redoDepth(update.state),
+            });
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    view.focus();
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [path]);
+
+  useImperativeHandle(ref, () => ({
+    undo: () => {
+      if (viewRef.current) undo(viewRef.current);
+    },
+    redo: () => {
+      if (viewRef.current) redo(viewRef.current);
+    },
+    openFind: () => {
+      if (viewRef.current) openSearchPanel(viewRef.current);
+    },
+    focus: () => viewRef.current?.focus(),
+  }), []);
+
+  return <div ref={containerRef} className="h-full overflow-hidden" />;
+});
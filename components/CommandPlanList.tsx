@@ -2,6 +2,10 @@
 
 import React, { useState } from 'react';
 import { Command } from '@/lib/types';
+import { useConsole } from './ConsoleProvider';
+import { CommandRunHistory, useCommandRuns } from './CommandRunHistory';
+import { COMMAND_TIMEOUT_SECONDS } from '@/lib/commandRunStore';
+import { useTerminalStore } from '@/lib/terminalStore';
 
 interface CommandPlanListProps {
   commands: Command[];
@@ -12,42 +16,28 @@ interface CommandItemProps {
   index: number;
 }
 
-type CommandStatus = 'pending' | 'running' | 'success' | 'error';
+type CommandStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled';
 
 function CommandItem({ command, index }: CommandItemProps) {
-  const [status, setStatus] = useState<CommandStatus>('pending');
-  const [output, setOutput] = useState<string>('');
   const [expanded, setExpanded] = useState(false);
+  const { sessions, activeSessionId } = useConsole();
+  const runInTerminal = useTerminalStore(state => state.runInTerminal);
+  const { runs, latest, running, cancellable, run, cancel, clear } = useCommandRuns(command.command, command.cwd);
 
-  const handleRun = async () => {
-    setStatus('running');
-    setOutput('');
-    setExpanded(true);
-
-    try {
-      const res = await fetch('/api/console/commands/run', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          command: command.command,
-          cwd: command.cwd,
-          timeout: 60,
-        }),
-      });
+  const status: CommandStatus = !latest
+    ? 'pending'
+    : latest.status === 'failed'
+      ? 'error'
+      : latest.status;
 
-      const data = await res.json();
+  const handleRun = () => {
+    setExpanded(true);
+    void run(COMMAND_TIMEOUT_SECONDS);
+  };
 
-      if (res.ok) {
-        setStatus('success');
-        setOutput(data.stdout || '');
-      } else {
-        setStatus('error');
-        setOutput(data.error || data.stderr || 'Command failed');
-      }
-    } catch (err: any) {
-      setStatus('error');
-      setOutput(err.message || 'Network error');
-    }
+  const handleRunInTerminal = () => {
+    const rootPath = sessions.find(s => s.session_id === activeSessionId)?.root_path;
+    runInTerminal(command.command, { cwd: command.cwd, rootPath });
   };
 
   const getStatusBadge = () => {
@@ -60,6 +50,8 @@ function CommandItem({ command, index }: CommandItemProps) {
         return <span className="px-2 py-1 text-xs bg-green-600 text-white rounded">Success</span>;
       case 'error':
         return <span className="px-2 py-1 text-xs bg-red-600 text-white rounded">Error</span>;
+      case 'cancelled':
+        return <span className="px-2 py-1 text-xs bg-yellow-600 text-white rounded">Cancelled</span>;
     }
   };
 
@@ -87,15 +79,38 @@ function CommandItem({ command, index }: CommandItemProps) {
         </div>
 
         <div className="flex items-center gap-2 ml-4">
+          {running ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                cancel();
+              }}
+              disabled={!cancellable}
+              title={cancellable ? undefined : 'This run cannot be cancelled'}
+              className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleRun();
+              }}
+              className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              {latest ? 'Run again' : 'Run'}
+            </button>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation();
-              handleRun();
+              handleRunInTerminal();
             }}
-            disabled={status === 'running'}
-            className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            className="px-3 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors"
+            title="Send this command to the terminal panel"
           >
-            {status === 'running' ? 'Running...' : 'Run'}
+            Run in terminal
           </button>
           <svg
             className={`w-5 h-5 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`}
@@ -109,16 +124,7 @@ function CommandItem({ command, index }: CommandItemProps) {
       </div>
 
       {/* Expanded Output */}
-      {expanded && output && (
-        <div className="border-t border-gray-700 px-4 py-3">
-          <div className="text-xs font-semibold text-gray-400 mb-2">Output:</div>
-          <div className="bg-black rounded p-3 overflow-x-auto">
-            <pre className="text-xs font-mono text-gray-300 whitespace-pre-wrap">
-              {output}
-            </pre>
-          </div>
-        </div>
-      )}
+      {expanded && <CommandRunHistory runs={runs} onClear={clear} />}
     </div>
   );
 }
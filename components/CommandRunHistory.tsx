@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CommandRun } from '@/lib/types';
+import { useConsole } from './ConsoleProvider';
+import { commandRunKey, formatDuration, useCommandRunStore } from '@/lib/commandRunStore';
+
+const NO_RUNS: CommandRun[] = [];
+
+/**
+ * Streamed runs of one command in the active session, newest first
+ */
+export function useCommandRuns(command: string, cwd?: string) {
+  const { activeSessionId } = useConsole();
+  const key = commandRunKey(command, cwd, activeSessionId);
+  const runs = useCommandRunStore(state => state.runsByKey[key] ?? NO_RUNS);
+  const { loadRuns, startRun, cancelRun, clearRuns } = useCommandRunStore.getState();
+
+  useEffect(() => {
+    void loadRuns(key);
+  }, [key, loadRuns]);
+
+  const latest = runs[0];
+  return {
+    runs,
+    latest,
+    running: latest?.status === 'running',
+    cancellable: latest?.cancellable !== false,
+    run: (timeout: number) =>
+      startRun(key, { command, cwd, timeout, session_id: activeSessionId ?? undefined }),
+    cancel: () => latest && cancelRun(latest.id),
+    clear: () => clearRuns(key),
+  };
+}
+
+function RunSummary({ run }: { run: CommandRun }) {
+  const color =
+    run.status === 'success'
+      ? 'text-green-400'
+      : run.status === 'running'
+        ? 'text-blue-400'
+        : run.status === 'cancelled'
+          ? 'text-yellow-400'
+          : 'text-red-400';
+
+  return (
+    <span className="flex items-center gap-2">
+      <span className={color}>{run.status}</span>
+      {run.exit_code !== undefined && <span>exit {run.exit_code}</span>}
+      {run.timed_out && <span className="text-yellow-400">timed out</span>}
+      {run.duration_ms !== undefined && <span>{formatDuration(run.duration_ms)}</span>}
+      <span className="text-gray-500">{new Date(run.started_at).toLocaleTimeString()}</span>
+    </span>
+  );
+}
+
+interface CommandRunHistoryProps {
+  runs: CommandRun[];
+  onClear?: () => void;
+}
+
+/**
+ * Live output of the latest run plus a picker for earlier runs
+ */
+export function CommandRunHistory({ runs, onClear }: CommandRunHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const outputRef = useRef<HTMLPreElement>(null);
+  const stickToBottom = useRef(true);
+
+  // A new run takes over the view
+  const latestId = runs[0]?.id;
+  useEffect(() => {
+    setSelectedId(null);
+    stickToBottom.current = true;
+  }, [latestId]);
+
+  const run = runs.find(r => r.id === selectedId) ?? runs[0];
+
+  useEffect(() => {
+    const el = outputRef.current;
+    if (el && stickToBottom.current) el.scrollTop = el.scrollHeight;
+  }, [run?.output]);
+
+  if (!run) return null;
+
+  return (
+    <div className="border-t border-gray-700 px-4 py-3">
+      <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+        <RunSummary run={run} />
+        {runs.length > 1 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={run.id}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300"
+            >
+              {runs.map((r, i) => (
+                <option key={r.id} value={r.id}>
+                  {i === 0 ? 'Latest' : `Run -${i}`} · {r.status} · {new Date(r.started_at).toLocaleTimeString()}
+                </option>
+              ))}
+            </select>
+            {onClear && (
+              <button onClick={onClear} className="text-gray-500 hover:text-gray-300" title="Clear run history">
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <pre
+        ref={outputRef}
+        onScroll={(e) => {
+          const el = e.currentTarget;
+          stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 16;
+        }}
+        className="bg-black rounded p-3 max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap text-gray-300"
+      >
+        {run.truncated && <span className="text-gray-500">[earlier output truncated]{'\n'}</span>}
+        {run.output.map((chunk, i) => (
+          <span key={i} className={chunk.stream === 'stderr' ? 'text-red-300' : undefined}>
+            {chunk.data}
+          </span>
+        ))}
+        {run.output.length === 0 && run.status === 'running' && (
+          <span className="text-gray-500">Waiting for output...</span>
+        )}
+        {run.output.length === 0 && run.status !== 'running' && (
+          <span className="text-gray-500">(no output)</span>
+        )}
+        {run.error && <span className="text-red-400">{'\n'}{run.error}</span>}
+      </pre>
+    </div>
+  );
+}
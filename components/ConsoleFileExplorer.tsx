@@ -1,9 +1,19 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useConsole } from './ConsoleProvider';
 import { fetchConsoleFiles } from '@/lib/atlasConsoleClient';
-import { ConsoleFileInfo } from '@/lib/types';
+import { useEditorStore } from '@/lib/editorStore';
+import { isBinaryPath } from '@/lib/filePreview';
+import {
+  affectedPaths,
+  describeFileOperation,
+  joinPath,
+  parentPath,
+  snapshotForDelete,
+  useFileOpsJournalStore,
+} from '@/lib/fileOpsJournal';
+import { ConsoleFileInfo, FileOperation, FileOperationEntry } from '@/lib/types';
 
 interface ConsoleFileExplorerProps {
   onFileSelect: (relativePath: string) => void;
@@ -18,25 +28,47 @@ interface FileNode {
   isExpanded?: boolean;
 }
 
+// dataTransfer type carrying the path of a node dragged within the tree
+const DRAG_PATH_TYPE = 'application/x-atlas-path';
+
+interface ContextMenuState {
+  x: number;
+  y: number;
+  // null: the empty area below the tree
+  node: FileNode | null;
+}
+
+// Inline name input for a new entry in `dir`, or for renaming `path`
+type EditState =
+  | { mode: 'new-file' | 'new-folder'; dir: string }
+  | { mode: 'rename'; path: string };
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+const isWithin = (path: string, ancestor: string) => path === ancestor || path.startsWith(`${ancestor}/`);
+
 const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
   onFileSelect,
   selectedFile,
 }) => {
-  const { activeSessionId } = useConsole();
+  const { activeSessionId, filePicker, setFilePicker } = useConsole();
   const [fileTree, setFileTree] = useState<FileNode[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [workspaceRoot, setWorkspaceRoot] = useState<string>('');
   const [expandedDirs, setExpandedDirs] = useState<Set<string>>(new Set());
   const [loadedDirs, setLoadedDirs] = useState<Map<string, ConsoleFileInfo[]>>(new Map());
+  const [menu, setMenu] = useState<ContextMenuState | null>(null);
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [opError, setOpError] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadDirRef = useRef('.');
 
-  const isBinaryFile = (fileName: string): boolean => {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    const binaryExtensions = ['db', 'db-wal', 'db-shm', 'sqlite', 'png', 'jpg', 'jpeg', 'gif', 
-                              'ico', 'pdf', 'zip', 'tar', 'gz', 'bin', 'exe', 'dll', 'so', 
-                              'dylib', 'wasm', 'pyc', 'pyo', 'egg-info'];
-    return binaryExtensions.includes(ext || '');
-  };
+  const journalEntries = useFileOpsJournalStore(state => state.entries);
+  const loadJournal = useFileOpsJournalStore(state => state.loadJournal);
+  const lastUndoable = [...journalEntries].reverse().find(entry => !entry.undone_at) ?? null;
 
   const buildFileTree = useCallback((dirPath: string, files: ConsoleFileInfo[]): FileNode[] => {
     // Separate viewable and binary files
@@ -44,7 +76,7 @@ const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
     const binaryFiles: ConsoleFileInfo[] = [];
     
     files.forEach(file => {
-      if (file.is_dir || !isBinaryFile(file.path)) {
+      if (file.is_dir || !isBinaryPath(file.path)) {
         viewableFiles.push(file);
       } else {
         binaryFiles.push(file);
@@ -121,7 +153,6 @@ const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
     setError(null);
     try {
       const data = await fetchConsoleFiles('.');
-      setWorkspaceRoot(data.workspace_root);
       const tree = buildFileTree('.', data.files);
       setFileTree(tree);
       setLoadedDirs(new Map([['.',  data.files]]));
@@ -137,6 +168,218 @@ const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
     void loadRootFiles();
   }, [loadRootFiles]);
 
+  useEffect(() => {
+    void loadJournal();
+  }, [loadJournal]);
+
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [menu]);
+
+  // Re-list a loaded directory, keeping the expansion state of its children.
+  // `expand` also opens it, loading it first when needed.
+  const refreshDirectory = async (dir: string, expand = false) => {
+    if (!loadedDirs.has(dir)) {
+      if (expand) await loadDirectory(dir);
+      return;
+    }
+    const { files } = await fetchConsoleFiles(dir);
+    const fresh = buildFileTree(dir, files);
+    const merge = (previous: FileNode[] = []) =>
+      fresh.map(node => previous.find(p => p.path === node.path && p.isDir === node.isDir) ?? node);
+
+    setLoadedDirs(prev => new Map(prev).set(dir, files));
+    if (dir === '.') {
+      setFileTree(prev => merge(prev));
+      return;
+    }
+    if (expand) setExpandedDirs(prev => new Set(prev).add(dir));
+    setFileTree(prevTree => {
+      const updateNode = (nodes: FileNode[]): FileNode[] =>
+        nodes.map(node => {
+          if (node.path === dir) {
+            return { ...node, children: merge(node.children), isExpanded: expand || node.isExpanded };
+          }
+          if (node.children) {
+            return { ...node, children: updateNode(node.children) };
+          }
+          return node;
+        });
+      return updateNode(prevTree);
+    });
+  };
+
+  // Bring the tree and the open file up to date after `op` ran (or was
+  // undone, with `undone`)
+  const syncAfterOperation = async (op: FileOperation, undone = false) => {
+    const paths = affectedPaths(op);
+    const gone = (dir: string) => paths.some(path => dir !== '.' && isWithin(dir, path));
+    setLoadedDirs(prev => new Map(Array.from(prev).filter(([dir]) => !gone(dir))));
+    setExpandedDirs(prev => new Set(Array.from(prev).filter(dir => !gone(dir))));
+
+    const reveal = !undone && (op.kind === 'create' || op.kind === 'upload')
+      ? parentPath(paths[0])
+      : null;
+    const parents = Array.from(new Set(paths.map(parentPath)));
+    await Promise.all(parents.map(dir => refreshDirectory(dir, dir === reveal)));
+
+    // Open editor tabs follow renames and close with their files
+    const editor = useEditorStore.getState();
+    if (op.kind === 'move') {
+      const [from, to] = undone ? [op.to, op.from] : [op.from, op.to];
+      editor.renamePath(from, to);
+    } else if (op.kind === 'create' && !op.is_dir && !undone) {
+      onFileSelect(op.path);
+    } else if (op.kind === 'delete' ? !undone : undone) {
+      // Deleting, or undoing a create or upload, removes the paths
+      paths.forEach(path => editor.closePath(path));
+    }
+  };
+
+  const runOperation = async (label: string, perform: () => Promise<FileOperationEntry>) => {
+    setOpError(null);
+    setBusy(label);
+    try {
+      await syncAfterOperation(await perform());
+    } catch (e: any) {
+      setOpError(e.message || 'File operation failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const undoLastOperation = async () => {
+    if (!lastUndoable || busy) return;
+    setOpError(null);
+    setBusy(`Undoing: ${describeFileOperation(lastUndoable)}`);
+    try {
+      const entry = await useFileOpsJournalStore.getState().undoLast();
+      if (entry) await syncAfterOperation(entry, true);
+    } catch (e: any) {
+      setOpError(`Undo failed: ${e.message || 'unknown error'}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const startNewEntry = async (mode: 'new-file' | 'new-folder', dir: string) => {
+    if (dir !== '.' && !expandedDirs.has(dir)) await refreshDirectory(dir, true);
+    setEditValue('');
+    setEditing({ mode, dir });
+  };
+
+  const startRename = (node: FileNode) => {
+    setEditValue(node.name);
+    setEditing({ mode: 'rename', path: node.path });
+  };
+
+  const commitEdit = async () => {
+    if (!editing) return;
+    const current = editing;
+    const name = editValue.trim();
+    setEditing(null);
+    if (!name || (current.mode === 'rename' && name === baseName(current.path))) return;
+    if (name.includes('/') || name === '.' || name === '..') {
+      setOpError(`Invalid name: ${name}`);
+      return;
+    }
+
+    const store = useFileOpsJournalStore.getState();
+    if (current.mode === 'rename') {
+      const to = joinPath(parentPath(current.path), name);
+      await runOperation(`Renaming ${current.path}`, () => store.moveEntry(current.path, to));
+    } else {
+      const path = joinPath(current.dir, name);
+      await runOperation(`Creating ${path}`, () => store.createEntry(path, current.mode === 'new-folder'));
+    }
+  };
+
+  const deleteNode = async (node: FileNode) => {
+    setOpError(null);
+    setBusy(`Preparing to delete ${node.path}`);
+    const snapshot = await snapshotForDelete(node.path, node.isDir);
+    setBusy(null);
+    const what = node.isDir ? `the folder "${node.path}" and everything in it` : `"${node.path}"`;
+    const message = snapshot
+      ? `Delete ${what}?`
+      : `Delete ${what}? It is too large or contains binary files, so this cannot be undone.`;
+    if (!window.confirm(message)) return;
+    await runOperation(`Deleting ${node.path}`, () =>
+      useFileOpsJournalStore.getState().deleteEntry(node.path, node.isDir, snapshot)
+    );
+  };
+
+  const uploadTo = async (dir: string, files: File[]) => {
+    if (files.length === 0) return;
+    await runOperation(`Uploading ${files.length} file(s)`, () =>
+      useFileOpsJournalStore.getState().uploadFiles(dir, files)
+    );
+  };
+
+  const openUploadPicker = (dir: string) => {
+    uploadDirRef.current = dir;
+    uploadInputRef.current?.click();
+  };
+
+  const moveInto = async (source: string, dir: string) => {
+    const to = joinPath(dir, baseName(source));
+    if (to === source || isWithin(dir, source)) return;
+    await runOperation(`Moving ${source}`, () => useFileOpsJournalStore.getState().moveEntry(source, to));
+  };
+
+  const handleDragOver = (e: React.DragEvent, dir: string) => {
+    const types = Array.from(e.dataTransfer.types);
+    if (!types.includes(DRAG_PATH_TYPE) && !types.includes('Files')) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = types.includes(DRAG_PATH_TYPE) ? 'move' : 'copy';
+    setDropTarget(dir);
+  };
+
+  const handleDrop = (e: React.DragEvent, dir: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+
+    const source = e.dataTransfer.getData(DRAG_PATH_TYPE);
+    if (source) {
+      void moveInto(source, dir);
+      return;
+    }
+    // Folders dropped from the desktop show up as empty files
+    const items = Array.from(e.dataTransfer.items);
+    if (items.some(item => item.webkitGetAsEntry?.()?.isDirectory)) {
+      setOpError('Folders cannot be uploaded; drop the files instead');
+      return;
+    }
+    void uploadTo(dir, Array.from(e.dataTransfer.files));
+  };
+
+  const openContextMenu = (e: React.MouseEvent, node: FileNode | null) => {
+    if (filePicker) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setMenu({ x: e.clientX, y: e.clientY, node });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.target as HTMLElement).tagName === 'INPUT') return;
+    if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      void undoLastOperation();
+    }
+  };
+
   const toggleDirectory = async (path: string) => {
     if (expandedDirs.has(path)) {
       // Collapse
@@ -203,21 +446,66 @@ const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
     return 'text-blue-400';
   };
 
+  const renderEditInput = () => (
+    <input
+      value={editValue}
+      onChange={e => setEditValue(e.target.value)}
+      onKeyDown={e => {
+        e.stopPropagation();
+        if (e.key === 'Enter') void commitEdit();
+        else if (e.key === 'Escape') setEditing(null);
+      }}
+      onBlur={() => setEditing(null)}
+      onClick={e => e.stopPropagation()}
+      className="flex-1 min-w-0 px-1 bg-[#3c3c3c] text-gray-200 border border-blue-500 rounded focus:outline-none"
+      autoFocus
+    />
+  );
+
+  const renderNewEntryRow = (dir: string, depth: number) => {
+    if (editing?.mode === 'rename' || editing?.dir !== dir) return null;
+    return (
+      <div className="flex items-center px-1 py-0.5" style={{ paddingLeft: `${depth * 12 + 4}px` }}>
+        <span className="mr-1.5 text-[9px] font-semibold text-gray-400 w-8 text-center">
+          {editing.mode === 'new-folder' ? 'DIR' : 'FILE'}
+        </span>
+        {renderEditInput()}
+      </div>
+    );
+  };
+
   const renderNode = (node: FileNode, depth: number = 0): React.ReactNode => {
     const isExpanded = node.isExpanded || false;
     const isSelected = node.path === selectedFile;
+    const isRenaming = editing?.mode === 'rename' && editing.path === node.path;
+    const isDropTarget = node.isDir && dropTarget === node.path;
     const paddingLeft = `${depth * 12 + 4}px`;
+    // Dropping on a file drops into its folder
+    const dropDir = node.isDir ? node.path : parentPath(node.path);
 
     return (
       <div key={node.path}>
         <div
           className={`flex items-center cursor-pointer rounded px-1 py-0.5 hover:bg-[#2a2d2e] ${
             isSelected ? 'bg-[#094771]' : ''
-          }`}
+          } ${isDropTarget ? 'bg-blue-900/50 ring-1 ring-blue-500' : ''}`}
           style={{ paddingLeft }}
+          draggable={!isRenaming}
+          onDragStart={e => {
+            e.dataTransfer.setData(DRAG_PATH_TYPE, node.path);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragEnd={() => setDropTarget(null)}
+          onDragOver={e => handleDragOver(e, dropDir)}
+          onDrop={e => handleDrop(e, dropDir)}
+          onContextMenu={e => openContextMenu(e, node)}
           onClick={() => {
+            if (isRenaming) return;
             if (node.isDir) {
               toggleDirectory(node.path);
+            } else if (filePicker) {
+              filePicker.onPick(node.path);
+              setFilePicker(null);
             } else {
               onFileSelect(node.path);
             }
@@ -233,32 +521,92 @@ const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
               {getFileIcon(node.name)}
             </span>
           )}
-          <span className="truncate">{node.name}</span>
+          {isRenaming ? renderEditInput() : <span className="truncate">{node.name}</span>}
         </div>
-        {node.isDir && isExpanded && node.children && node.children.length > 0 && (
+        {node.isDir && isExpanded && (
           <div>
-            {node.children.map(child => renderNode(child, depth + 1))}
+            {renderNewEntryRow(node.path, depth + 1)}
+            {node.children?.map(child => renderNode(child, depth + 1))}
           </div>
         )}
       </div>
     );
   };
 
+  const menuDir = menu?.node ? (menu.node.isDir ? menu.node.path : parentPath(menu.node.path)) : '.';
+  const menuItems: { label: string; action: () => void; danger?: boolean }[] = menu
+    ? [
+        { label: 'New File...', action: () => void startNewEntry('new-file', menuDir) },
+        { label: 'New Folder...', action: () => void startNewEntry('new-folder', menuDir) },
+        { label: 'Upload Files...', action: () => openUploadPicker(menuDir) },
+        ...(menu.node
+          ? [
+              { label: 'Rename...', action: () => startRename(menu.node!) },
+              { label: 'Delete', action: () => void deleteNode(menu.node!), danger: true },
+            ]
+          : []),
+        ...(lastUndoable
+          ? [{ label: `Undo ${describeFileOperation(lastUndoable)}`, action: () => void undoLastOperation() }]
+          : []),
+      ]
+    : [];
+
   return (
-    <div className="h-full w-full text-xs text-gray-200 bg-black flex flex-col">
+    <div
+      className="h-full w-full text-xs text-gray-200 bg-black flex flex-col focus:outline-none"
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+    >
+      {filePicker && (
+        <div className="flex items-center justify-between gap-2 px-2 py-1.5 bg-blue-900/40 border-b border-blue-800 text-[10px] text-blue-200">
+          <span className="truncate" title={filePicker.label}>Pick a file: {filePicker.label}</span>
+          <button
+            onClick={() => setFilePicker(null)}
+            className="shrink-0 text-blue-300 hover:text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+      {(busy || opError || lastUndoable) && (
+        <div className="flex items-center gap-2 px-2 py-1 border-b border-gray-800 text-[10px]">
+          <span className={`flex-1 truncate ${opError ? 'text-red-400' : 'text-gray-400'}`} title={opError || busy || undefined}>
+            {opError || busy}
+          </span>
+          {lastUndoable && (
+            <button
+              onClick={() => void undoLastOperation()}
+              disabled={!!busy}
+              className="shrink-0 text-blue-300 hover:text-white disabled:opacity-50"
+              title={`Undo ${describeFileOperation(lastUndoable)} (Ctrl+Z)`}
+            >
+              Undo
+            </button>
+          )}
+        </div>
+      )}
       {error && (
         <div className="p-2 text-red-400 text-[10px]">{error}</div>
       )}
       {!error && (
-        <div className="flex-1 overflow-auto py-1">
+        <div
+          className={`flex-1 overflow-auto py-1 ${dropTarget === '.' ? 'bg-blue-900/20 ring-1 ring-inset ring-blue-500' : ''}`}
+          onContextMenu={e => openContextMenu(e, null)}
+          onDragOver={e => handleDragOver(e, '.')}
+          onDrop={e => handleDrop(e, '.')}
+          onDragLeave={e => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+          }}
+        >
+          {renderNewEntryRow('.', 0)}
           {fileTree.length === 0 && !loading && (
             <div className="px-2 text-gray-400 text-[10px]">No files found.</div>
           )}
           {fileTree.map((node, index) => {
             // Check if this is the first binary file (separator needed)
-            const isBinary = !node.isDir && isBinaryFile(node.name);
+            const isBinary = !node.isDir && isBinaryPath(node.name);
             const prevNode = index > 0 ? fileTree[index - 1] : null;
-            const isPrevBinary = prevNode && !prevNode.isDir && isBinaryFile(prevNode.name);
+            const isPrevBinary = prevNode && !prevNode.isDir && isBinaryPath(prevNode.name);
             const needsSeparator = isBinary && !isPrevBinary;
 
             return (
@@ -272,6 +620,41 @@ const ConsoleFileExplorer: React.FC<ConsoleFileExplorerProps> = ({
           })}
         </div>
       )}
+
+      {menu && (
+        <div
+          className="fixed z-50 min-w-[10rem] py-1 bg-[#252526] border border-gray-700 rounded shadow-xl text-xs text-gray-200"
+          style={{ left: menu.x, top: menu.y }}
+          onMouseDown={e => e.stopPropagation()}
+        >
+          {menuItems.map(item => (
+            <button
+              key={item.label}
+              onClick={() => {
+                setMenu(null);
+                item.action();
+              }}
+              className={`block w-full text-left px-3 py-1 hover:bg-[#094771] truncate ${
+                item.danger ? 'text-red-300' : ''
+              }`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={uploadInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={e => {
+          const files = Array.from(e.target.files || []);
+          e.target.value = '';
+          void uploadTo(uploadDirRef.current, files);
+        }}
+      />
     </div>
   );
 };
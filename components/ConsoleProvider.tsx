@@ -1,59 +1,153 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { ConsoleSession, AgentResponse } from '@/lib/types';
-import { listConsoleSessions } from '@/lib/atlasConsoleClient';
-
-export interface ChatMessage {
-  type: 'user' | 'assistant';
-  content: string;
-  response?: AgentResponse;
-}
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { ConsoleSession, ChatAttachment, ChatMessage, MainTabId, NewChatMessage, ViewRequest } from '@/lib/types';
+import { listConsoleSessions, fetchConsoleSessionHistory } from '@/lib/atlasConsoleClient';
+import { loadChatHistory, saveChatHistory, deleteChatHistory } from '@/lib/chatHistory';
+import { createRandomId } from '@/lib/session';
+import { sortByActivity } from '@/lib/consoleSessions';
+import { useEditorStore } from '@/lib/editorStore';
+import {
+  ConsoleUrlState,
+  LineRange,
+  buildConsoleSearch,
+  isNavigation,
+  parseConsoleUrl,
+} from '@/lib/urlState';
+
+export type { ChatMessage } from '@/lib/types';
 
 interface ConsoleContextType {
+  // Archived sessions included
   sessions: ConsoleSession[];
   activeSessionId: string | null;
   loadingSessions: boolean;
   error: string | null;
   refreshSessions: () => Promise<void>;
   setActiveSessionId: (id: string | null) => void;
-  // Chat message state
+  // Chat message state (persisted to IndexedDB per session)
   messagesBySession: Map<string, ChatMessage[]>;
-  addMessage: (sessionId: string, message: ChatMessage) => void;
+  historyLoading: boolean;
+  addMessage: (sessionId: string, message: NewChatMessage) => ChatMessage;
+  updateMessage: (sessionId: string, messageId: string, changes: Partial<ChatMessage>) => void;
+  replaceMessages: (sessionId: string, messages: ChatMessage[]) => void;
   getMessages: (sessionId: string) => ChatMessage[];
   clearMessages: (sessionId: string) => void;
-  // File viewer state
+  // Message the chat should scroll to (e.g. a search result); focusMessage also switches session
+  focusedMessage: FocusedMessage | null;
+  focusMessage: (sessionId: string, messageId: string) => void;
+  clearFocusedMessage: () => void;
+  // Context attached to the next chat message
+  chatAttachments: ChatAttachment[];
+  addChatAttachment: (attachment: ChatAttachment) => void;
+  removeChatAttachment: (index: number) => void;
+  clearChatAttachments: () => void;
+  // Active editor tab (see editorStore); selecting a file opens or switches to its
+  // tab and clears the line selection unless one is given
   selectedFile: string | null;
-  setSelectedFile: (filePath: string | null) => void;
+  setSelectedFile: (filePath: string | null, lines?: LineRange | null) => void;
+  selectedLines: LineRange | null;
+  setSelectedLines: (lines: LineRange | null) => void;
+  // Node focused in the architecture view
+  architectureNode: string | null;
+  setArchitectureNode: (nodeId: string | null) => void;
+  // While set, the next file clicked in the explorer goes to onPick instead of the viewer
+  filePicker: FilePicker | null;
+  setFilePicker: (picker: FilePicker | null) => void;
+  // Main view tabs; openView also hands the view something to do (e.g. from a slash command)
+  activeTab: MainTabId;
+  setActiveTab: (tab: MainTabId) => void;
+  viewRequest: ViewRequest | null;
+  openView: (tab: MainTabId, args?: Record<string, string>) => void;
+  consumeViewRequest: (id: string) => void;
+}
+
+export interface FocusedMessage {
+  sessionId: string;
+  messageId: string;
+}
+
+export interface FilePicker {
+  id: string;
+  label: string;
+  onPick: (filePath: string) => void;
 }
 
 const ConsoleContext = createContext<ConsoleContextType | undefined>(undefined);
 
+// Returned for sessions without messages, so the value is stable across renders
+const NO_MESSAGES: ChatMessage[] = [];
+
 export const useConsole = () => {
   const ctx = useContext(ConsoleContext);
   if (!ctx) throw new Error('useConsole must be used within ConsoleProvider');
   return ctx;
 };
 
+/**
+ * Run `onRequest` once for each openView() request aimed at `tab`. Returns
+ * true while such a request is pending, so a view's mount-time load can
+ * leave the work to the handler.
+ */
+export function useViewRequest(tab: MainTabId, onRequest: (args: Record<string, string>) => void): boolean {
+  const { viewRequest, consumeViewRequest } = useConsole();
+  const pending = viewRequest?.tab === tab ? viewRequest : null;
+  // Callers pass a new closure every render
+  const onRequestRef = useRef(onRequest);
+  onRequestRef.current = onRequest;
+
+  useEffect(() => {
+    if (!pending) return;
+    consumeViewRequest(pending.id);
+    onRequestRef.current(pending.args);
+  }, [pending, consumeViewRequest]);
+
+  return Boolean(pending);
+}
+
 export function ConsoleProvider({ children }: { children: ReactNode }) {
   const [sessions, setSessions] = useState<ConsoleSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [loadingSessions, setLoadingSessions] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [messagesBySession, setMessagesBySession] = useState<Map<string, ChatMessage[]>>(new Map());
-  const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [chatAttachments, setChatAttachments] = useState<ChatAttachment[]>([]);
+  const selectedFile = useEditorStore(state => state.groups[state.activeGroup].activePath);
+  const selectedLines = useEditorStore(state => {
+    const group = state.groups[state.activeGroup];
+    return group.tabs.find(tab => tab.path === group.activePath)?.lines ?? null;
+  });
+  const [architectureNode, setArchitectureNode] = useState<string | null>(null);
+  const [filePicker, setFilePicker] = useState<FilePicker | null>(null);
+  const [activeTab, setActiveTab] = useState<MainTabId>('code');
+  const [viewRequest, setViewRequest] = useState<ViewRequest | null>(null);
+  const [focusedMessage, setFocusedMessage] = useState<FocusedMessage | null>(null);
+  // Set once the state has been read from the URL; until then nothing is written back
+  const [urlRestored, setUrlRestored] = useState(false);
+  const lastUrlState = useRef<ConsoleUrlState | null>(null);
+  // Ids from the last session list; null until it has loaded
+  const knownSessionIds = useRef<Set<string> | null>(null);
+
+  // Sessions whose history load has started / finished, and the arrays last written to IndexedDB
+  const hydratedSessions = useRef<Set<string>>(new Set());
+  const readySessions = useRef<Set<string>>(new Set());
+  const persistedMessages = useRef<Map<string, ChatMessage[]>>(new Map());
 
   const refreshSessions = async () => {
     setLoadingSessions(true);
     setError(null);
     try {
-      const data = await listConsoleSessions();
+      // Archived sessions are kept for the session manager but never auto-selected
+      const data = await listConsoleSessions({ includeArchived: true });
       setSessions(data.sessions);
-      
-      // Auto-select first session if none selected
-      if (!activeSessionId && data.sessions.length > 0) {
-        setActiveSessionId(data.sessions[0].session_id);
-      }
+      const known = new Set(data.sessions.map(s => s.session_id));
+      knownSessionIds.current = known;
+
+      // Auto-select the most recently active session if none is selected, or
+      // the one restored from the URL no longer exists
+      const [latest] = sortByActivity(data.sessions.filter(s => !s.archived));
+      setActiveSessionId(prev => (prev && known.has(prev) ? prev : latest?.session_id ?? null));
     } catch (err: any) {
       setError(err.message || 'Failed to load sessions');
       console.error('Error loading sessions:', err);
@@ -62,17 +156,44 @@ export function ConsoleProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const addMessage = (sessionId: string, message: ChatMessage) => {
+  const addMessage = (sessionId: string, message: NewChatMessage): ChatMessage => {
+    const stored: ChatMessage = {
+      ...message,
+      id: message.id || createRandomId(),
+      created_at: message.created_at || new Date().toISOString(),
+    };
     setMessagesBySession(prev => {
       const updated = new Map(prev);
       const existing = updated.get(sessionId) || [];
-      updated.set(sessionId, [...existing, message]);
+      updated.set(sessionId, [...existing, stored]);
+      return updated;
+    });
+    return stored;
+  };
+
+  const updateMessage = (sessionId: string, messageId: string, changes: Partial<ChatMessage>) => {
+    setMessagesBySession(prev => {
+      const existing = prev.get(sessionId);
+      if (!existing) return prev;
+      const updated = new Map(prev);
+      updated.set(
+        sessionId,
+        existing.map(m => (m.id === messageId ? { ...m, ...changes, id: m.id } : m))
+      );
+      return updated;
+    });
+  };
+
+  const replaceMessages = (sessionId: string, messages: ChatMessage[]) => {
+    setMessagesBySession(prev => {
+      const updated = new Map(prev);
+      updated.set(sessionId, messages);
       return updated;
     });
   };
 
   const getMessages = (sessionId: string): ChatMessage[] => {
-    return messagesBySession.get(sessionId) || [];
+    return messagesBySession.get(sessionId) || NO_MESSAGES;
   };
 
   const clearMessages = (sessionId: string) => {
@@ -81,12 +202,174 @@ export function ConsoleProvider({ children }: { children: ReactNode }) {
       updated.delete(sessionId);
       return updated;
     });
+    persistedMessages.current.delete(sessionId);
+    deleteChatHistory(sessionId).catch(err =>
+      console.warn('Failed to delete persisted chat history:', err)
+    );
+  };
+
+  const focusMessage = (sessionId: string, messageId: string) => {
+    setActiveSessionId(sessionId);
+    setFocusedMessage({ sessionId, messageId });
+  };
+
+  const clearFocusedMessage = () => setFocusedMessage(null);
+
+  const addChatAttachment = (attachment: ChatAttachment) => {
+    setChatAttachments(prev => [...prev, attachment]);
+  };
+
+  const removeChatAttachment = (index: number) => {
+    setChatAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const clearChatAttachments = () => {
+    setChatAttachments([]);
+  };
+
+  const setSelectedFile = (filePath: string | null, lines: LineRange | null = null) => {
+    const editor = useEditorStore.getState();
+    if (filePath) editor.openFile(filePath, lines);
+    else editor.clearActive();
+  };
+
+  const setSelectedLines = (lines: LineRange | null) => {
+    const editor = useEditorStore.getState();
+    const path = editor.groups[editor.activeGroup].activePath;
+    if (path) editor.setLines(editor.activeGroup, path, lines);
+  };
+
+  const applyUrlState = (state: ConsoleUrlState) => {
+    lastUrlState.current = state;
+    setActiveTab(state.tab);
+    // Once sessions are listed, links to ones that no longer exist are ignored
+    if (state.session && (knownSessionIds.current?.has(state.session) ?? true)) {
+      setActiveSessionId(state.session);
+    }
+    setSelectedFile(state.file, state.lines);
+    setArchitectureNode(state.node);
+  };
+
+  const openView = (tab: MainTabId, args: Record<string, string> = {}) => {
+    setViewRequest({ id: createRandomId(), tab, args });
+    setActiveTab(tab);
+  };
+
+  const consumeViewRequest = (id: string) => {
+    setViewRequest(prev => (prev?.id === id ? null : prev));
   };
 
   useEffect(() => {
     refreshSessions();
   }, []);
 
+  // Restore from the URL on load, and again on back/forward
+  useEffect(() => {
+    applyUrlState(parseConsoleUrl(window.location.search));
+    setUrlRestored(true);
+
+    const handlePopState = () => applyUrlState(parseConsoleUrl(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Mirror the state into the URL: a history entry per tab, session or file
+  useEffect(() => {
+    if (!urlRestored) return;
+    const next: ConsoleUrlState = {
+      tab: activeTab,
+      session: activeSessionId,
+      file: selectedFile,
+      lines: selectedLines,
+      node: activeTab === 'architecture' ? architectureNode : null,
+    };
+    const search = buildConsoleSearch(next);
+    const prev = lastUrlState.current;
+    lastUrlState.current = next;
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (prev && isNavigation(prev, next)) {
+      window.history.pushState(null, '', url);
+    } else {
+      window.history.replaceState(null, '', url);
+    }
+  }, [urlRestored, activeTab, activeSessionId, selectedFile, selectedLines, architectureNode]);
+
+  // Each session has its own open editors
+  useEffect(() => {
+    if (activeSessionId) void useEditorStore.getState().loadSession(activeSessionId);
+  }, [activeSessionId]);
+
+  // Rehydrate the active session: IndexedDB first, shown as soon as it is read,
+  // then the backend transcript when it knows about more messages than this browser does.
+  useEffect(() => {
+    if (!activeSessionId || hydratedSessions.current.has(activeSessionId)) return;
+    const sessionId = activeSessionId;
+    const hydrated = hydratedSessions.current;
+    hydrated.add(sessionId);
+    let cancelled = false;
+    let done = false;
+
+    // Put `history` in front of the session's messages in place of `replaced`,
+    // keeping anything sent while history was loading
+    const restore = (history: ChatMessage[], replaced: ChatMessage[] = []) => {
+      const ids = new Set([...history, ...replaced].map(m => m.id));
+      setMessagesBySession(prev => {
+        const updated = new Map(prev);
+        updated.set(sessionId, [...history, ...(prev.get(sessionId) || []).filter(m => !ids.has(m.id))]);
+        return updated;
+      });
+    };
+
+    const hydrate = async () => {
+      setHistoryLoading(true);
+      try {
+        let localFailed = false;
+        const local = await loadChatHistory(sessionId).catch(err => {
+          console.warn('Failed to load persisted chat history:', err);
+          localFailed = true;
+          return null;
+        });
+        if (cancelled) return;
+        if (local && local.length > 0) restore(local);
+        // Unreadable stored history is left alone rather than overwritten
+        if (!localFailed) readySessions.current.add(sessionId);
+
+        const remote = await fetchConsoleSessionHistory(sessionId).catch(() => null);
+        if (cancelled || !remote || remote.length <= (local?.length || 0)) return;
+        restore(remote, local || []);
+      } finally {
+        done = true;
+        if (!cancelled) setHistoryLoading(false);
+      }
+    };
+
+    void hydrate();
+    return () => {
+      cancelled = true;
+      // Interrupted before finishing: allow the next activation to retry, and
+      // don't leave the spinner up if the next session is already hydrated
+      if (!done) {
+        hydrated.delete(sessionId);
+        setHistoryLoading(false);
+      }
+    };
+  }, [activeSessionId]);
+
+  // Persist every session transcript that changed since it was last written
+  useEffect(() => {
+    messagesBySession.forEach((messages, sessionId) => {
+      // Never overwrite stored history before it has been read back
+      if (!readySessions.current.has(sessionId)) return;
+      if (persistedMessages.current.get(sessionId) === messages) return;
+      persistedMessages.current.set(sessionId, messages);
+      saveChatHistory(sessionId, messages).catch(err =>
+        console.warn('Failed to persist chat history:', err)
+      );
+    });
+  }, [messagesBySession]);
+
   return (
     <ConsoleContext.Provider
       value={{
@@ -97,11 +380,32 @@ export function ConsoleProvider({ children }: { children: ReactNode }) {
         refreshSessions,
         setActiveSessionId,
         messagesBySession,
+        historyLoading,
         addMessage,
+        updateMessage,
+        replaceMessages,
         getMessages,
         clearMessages,
+        focusedMessage,
+        focusMessage,
+        clearFocusedMessage,
+        chatAttachments,
+        addChatAttachment,
+        removeChatAttachment,
+        clearChatAttachments,
         selectedFile,
         setSelectedFile,
+        selectedLines,
+        setSelectedLines,
+        architectureNode,
+        setArchitectureNode,
+        filePicker,
+        setFilePicker,
+        activeTab,
+        setActiveTab,
+        viewRequest,
+        openView,
+        consumeViewRequest,
       }}
     >
       {children}
@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ContextMaterial, ContextRequest } from '@/lib/types';
+import { fetchConsoleFileContent } from '@/lib/atlasConsoleClient';
+import { COMMAND_TIMEOUT_SECONDS, commandRunKey, useCommandRunStore } from '@/lib/commandRunStore';
+import {
+  ContextAnswers,
+  answeredCount,
+  commandMaterial,
+  fileMaterial,
+  isContextComplete,
+  materialLabel,
+} from '@/lib/contextRequests';
+import { useConsole } from './ConsoleProvider';
+
+// Grace period before answers are sent, so more material can still be added
+const AUTO_SUBMIT_DELAY_MS = 5000;
+
+interface ContextRequestCardProps {
+  request: ContextRequest;
+  materials: ContextMaterial[];
+  readOnly: boolean;
+  onAdd: (material: ContextMaterial) => void;
+  onRemove: (index: number) => void;
+  onBusyChange: (busy: boolean) => void;
+}
+
+function ContextRequestCard({ request, materials, readOnly, onAdd, onRemove, onBusyChange }: ContextRequestCardProps) {
+  const { activeSessionId, filePicker, setFilePicker } = useConsole();
+  const [command, setCommand] = useState('');
+  const [text, setText] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const picking = filePicker?.id === request.request_id;
+
+  const attachFile = async (path: string) => {
+    setError(null);
+    onBusyChange(true);
+    try {
+      const content = await fetchConsoleFileContent(path);
+      if (content === null) throw new Error(`${path} does not exist`);
+      onAdd(fileMaterial(path, content));
+    } catch (err: any) {
+      setError(err.message || 'Failed to read file');
+    } finally {
+      onBusyChange(false);
+    }
+  };
+
+  const runCommand = async () => {
+    const trimmed = command.trim();
+    if (!trimmed || running) return;
+    setError(null);
+    setRunning(true);
+    onBusyChange(true);
+    try {
+      const run = await useCommandRunStore.getState().startRun(
+        commandRunKey(trimmed, undefined, activeSessionId),
+        { command: trimmed, timeout: COMMAND_TIMEOUT_SECONDS, session_id: activeSessionId ?? undefined }
+      );
+      if (run.status === 'cancelled') return;
+      onAdd(commandMaterial(run));
+    } catch (err: any) {
+      setError(err.message || 'Failed to run command');
+    } finally {
+      setRunning(false);
+      onBusyChange(false);
+    }
+  };
+
+  const addText = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onAdd({ kind: 'text', text: trimmed });
+    setText('');
+  };
+
+  return (
+    <div className="border border-[var(--atlas-border-subtle)] rounded p-2 bg-[#1e1e1e] space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="text-xs text-[var(--atlas-text-primary)]">
+          {request.description}
+          {/* A tool name, not a shell command: shown as a hint only */}
+          {request.suggested_tool && (
+            <div className="mt-0.5 text-[10px] text-[var(--atlas-text-muted)]">
+              Suggested tool: <span className="font-mono">{request.suggested_tool}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {request.required ? (
+            <span className="px-1.5 py-0.5 rounded text-[10px] bg-yellow-900/40 text-yellow-300">required</span>
+          ) : (
+            <span className="px-1.5 py-0.5 rounded text-[10px] bg-gray-800 text-gray-400">optional</span>
+          )}
+          {materials.length > 0 && <span className="text-green-400 text-[10px]">✓</span>}
+        </div>
+      </div>
+
+      {materials.length > 0 && (
+        <ul className="space-y-1">
+          {materials.map((material, i) => (
+            <li key={i} className="flex items-center justify-between gap-2 text-[11px] font-mono text-[var(--atlas-text-secondary)] bg-black/40 rounded px-2 py-1">
+              <span className="truncate" title={materialLabel(material)}>
+                <span className="text-[var(--atlas-text-muted)]">{material.kind}</span> {materialLabel(material)}
+                {material.kind === 'file' && material.truncated && <span className="text-yellow-400"> (truncated)</span>}
+              </span>
+              {!readOnly && (
+                <button onClick={() => onRemove(i)} className="text-[var(--atlas-text-muted)] hover:text-red-400" title="Remove">
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() =>
+                setFilePicker(
+                  picking
+                    ? null
+                    : { id: request.request_id, label: request.description, onPick: path => void attachFile(path) }
+                )
+              }
+              className={`px-2 py-1 rounded text-[11px] transition-colors ${
+                picking ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+              title="Pick a file in the workspace explorer"
+            >
+              {picking ? 'Picking file… (cancel)' : 'Attach file'}
+            </button>
+            <input
+              value={command}
+              onChange={e => setCommand(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && runCommand()}
+              placeholder="Command to run"
+              className="flex-1 min-w-0 bg-black border border-gray-700 rounded px-2 py-1 text-[11px] font-mono text-gray-200"
+            />
+            <button
+              onClick={runCommand}
+              disabled={!command.trim() || running}
+              className="px-2 py-1 rounded text-[11px] bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+            >
+              {running ? 'Running…' : 'Run'}
+            </button>
+          </div>
+          <div className="flex items-end gap-2">
+            <textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder="Or type an answer"
+              rows={1}
+              className="flex-1 bg-black border border-gray-700 rounded px-2 py-1 text-[11px] text-gray-200 resize-y"
+            />
+            <button
+              onClick={addText}
+              disabled={!text.trim()}
+              className="px-2 py-1 rounded text-[11px] bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="text-[11px] text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+interface ContextRequestCardsProps {
+  requests: ContextRequest[];
+  answers: ContextAnswers;
+  submittedAt?: string;
+  // Omit both to render the requests read-only (e.g. while streaming)
+  onChange?: (answers: ContextAnswers) => void;
+  onSubmit?: () => void;
+}
+
+/**
+ * Actionable cards for the agent's context requests. Once every required
+ * request has material the answers are re-submitted automatically after a
+ * short grace period.
+ */
+export function ContextRequestCards({ requests, answers, submittedAt, onChange, onSubmit }: ContextRequestCardsProps) {
+  const [busyCount, setBusyCount] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const readOnly = !onChange || !onSubmit || Boolean(submittedAt);
+  const complete = isContextComplete(requests, answers);
+  const countdown = !readOnly && complete && busyCount === 0 && !paused;
+
+  // File reads and command runs finish after later renders
+  const answersRef = useRef(answers);
+  const onSubmitRef = useRef(onSubmit);
+  answersRef.current = answers;
+  onSubmitRef.current = onSubmit;
+
+  // Restarts whenever the answers change
+  useEffect(() => {
+    if (!countdown) return;
+    const timer = setTimeout(() => onSubmitRef.current?.(), AUTO_SUBMIT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [countdown, answers]);
+
+  const update = (requestId: string, change: (materials: ContextMaterial[]) => ContextMaterial[]) => {
+    const current = answersRef.current;
+    onChange?.({ ...current, [requestId]: change(current[requestId] || []) });
+  };
+
+  return (
+    <div className="space-y-2 pl-3 border-l-2 border-purple-500">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] font-semibold text-purple-400">
+          ATLAS needs more context ({answeredCount(requests, answers)}/{requests.length} answered)
+        </div>
+        {submittedAt && (
+          <span className="text-[10px] text-[var(--atlas-text-muted)]">
+            Sent {new Date(submittedAt).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+
+      {requests.map(request => {
+        const materials = answers[request.request_id] || [];
+        return (
+          <ContextRequestCard
+            key={request.request_id}
+            request={request}
+            materials={materials}
+            readOnly={readOnly}
+            onAdd={material => update(request.request_id, list => [...list, material])}
+            onRemove={index => update(request.request_id, list => list.filter((_, i) => i !== index))}
+            onBusyChange={busy => setBusyCount(count => count + (busy ? 1 : -1))}
+          />
+        );
+      })}
+
+      {!readOnly && complete && (
+        <div className="flex items-center justify-between gap-2 text-[11px]">
+          <span className="text-[var(--atlas-text-muted)]">
+            {busyCount > 0
+              ? 'Waiting for running actions…'
+              : paused
+                ? 'Auto-send paused'
+                : 'Sending answers in a few seconds…'}
+          </span>
+          <div className="flex items-center gap-2">
+            {countdown && (
+              <button onClick={() => setPaused(true)} className="text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)]">
+                Wait
+              </button>
+            )}
+            <button onClick={onSubmit} className="px-2 py-1 rounded bg-purple-700 text-white hover:bg-purple-600">
+              Send now
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -35,7 +35,7 @@ export default function DependencyMatrix() {
 
   const fetchFlows = async () => {
     try {
-      const response = await fetch('http://localhost:8000/v1/telemetry/flows');
+      const response = await fetch('/api/telemetry/flows');
       if (response.ok) {
         const data = await response.json();
         const flowData = data.flows || [];
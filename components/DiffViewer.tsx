@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { DiffFile, DiffHunk, DiffLine, HunkApplyResult, toSideBySideRows } from '@/lib/diff';
+import { getLanguage, highlightCode } from '@/lib/prism';
+import 'prismjs/themes/prism-tomorrow.css';
+
+export type DiffViewMode = 'split' | 'inline';
+
+interface DiffViewerProps {
+  files: DiffFile[];
+  mode: DiffViewMode;
+  // Hunk review; omit both to render a read-only diff
+  isHunkAccepted?: (fileIndex: number, hunkIndex: number) => boolean;
+  onToggleHunk?: (fileIndex: number, hunkIndex: number) => void;
+  // Dry-run outcome per hunk, when the patch has been checked
+  hunkResult?: (fileIndex: number, hunkIndex: number) => HunkApplyResult | undefined;
+}
+
+function HunkStatusLabel({ result }: { result: HunkApplyResult }) {
+  switch (result.status) {
+    case 'clean':
+      return null;
+    case 'offset':
+      return (
+        <span className="text-yellow-400 font-sans text-[10px]">
+          offset {result.offset > 0 ? '+' : ''}{result.offset}
+        </span>
+      );
+    case 'fuzz':
+      return (
+        <span className="text-yellow-400 font-sans text-[10px]">
+          fuzz {result.fuzz}{result.offset !== 0 && `, offset ${result.offset > 0 ? '+' : ''}${result.offset}`}
+        </span>
+      );
+    case 'conflict':
+      return (
+        <span className="text-red-400 font-sans text-[10px]" title={result.reason}>
+          conflict
+        </span>
+      );
+  }
+}
+
+const lineBackground: Record<DiffLine['type'], string> = {
+  add: 'bg-green-900/30',
+  del: 'bg-red-900/30',
+  context: '',
+};
+
+const lineSign: Record<DiffLine['type'], string> = {
+  add: '+',
+  del: '-',
+  context: ' ',
+};
+
+function Code({ html }: { html: string }) {
+  return (
+    <code
+      className="whitespace-pre"
+      dangerouslySetInnerHTML={{ __html: html || ' ' }}
+    />
+  );
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <td className="select-none text-right pr-2 pl-2 text-gray-600 w-10 align-top">{value ?? ''}</td>
+  );
+}
+
+interface HunkProps {
+  hunk: DiffHunk;
+  highlight: (line: DiffLine) => string;
+}
+
+function InlineHunk({ hunk, highlight }: HunkProps) {
+  return (
+    <>
+      {hunk.lines.map((line, i) => (
+        <tr key={i} className={lineBackground[line.type]}>
+          <LineNumber value={line.oldNumber} />
+          <LineNumber value={line.newNumber} />
+          <td className={`select-none w-4 ${line.type === 'add' ? 'text-green-400' : line.type === 'del' ? 'text-red-400' : ''}`}>
+            {lineSign[line.type]}
+          </td>
+          <td className="pr-4">
+            <Code html={highlight(line)} />
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function SplitHunk({ hunk, highlight }: HunkProps) {
+  return (
+    <>
+      {toSideBySideRows(hunk).map((row, i) => (
+        <tr key={i}>
+          <LineNumber value={row.left?.oldNumber} />
+          <td className={`pr-4 w-1/2 ${row.left ? lineBackground[row.left.type] : 'bg-gray-800/40'}`}>
+            {row.left && <Code html={highlight(row.left)} />}
+          </td>
+          <LineNumber value={row.right?.newNumber} />
+          <td className={`pr-4 w-1/2 ${row.right ? lineBackground[row.right.type] : 'bg-gray-800/40'}`}>
+            {row.right && <Code html={highlight(row.right)} />}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
+
+function DiffFileView({
+  file,
+  fileIndex,
+  mode,
+  showPath,
+  isHunkAccepted,
+  onToggleHunk,
+  hunkResult,
+}: Omit<DiffViewerProps, 'files'> & { file: DiffFile; fileIndex: number; showPath: boolean }) {
+  const path = file.newPath || file.oldPath || '';
+  const language = getLanguage(path);
+
+  // Highlight each distinct line once per file
+  const highlight = useMemo(() => {
+    const cache = new Map<string, string>();
+    return (line: DiffLine) => {
+      let html = cache.get(line.content);
+      if (html === undefined) {
+        html = highlightCode(line.content, language);
+        cache.set(line.content, html);
+      }
+      return html;
+    };
+  }, [language]);
+
+  return (
+    <div className="mb-3 last:mb-0">
+      {showPath && (
+        <div className="px-2 py-1 text-xs font-mono text-blue-400 bg-gray-800 rounded-t">
+          {file.oldPath === null ? `${path} (new file)` : file.newPath === null ? `${path} (deleted)` : path}
+        </div>
+      )}
+      <table className="w-full border-collapse font-mono text-xs leading-5">
+        <tbody>
+          {file.hunks.map((hunk, hunkIndex) => {
+            const accepted = isHunkAccepted ? isHunkAccepted(fileIndex, hunkIndex) : true;
+            const result = accepted ? hunkResult?.(fileIndex, hunkIndex) : undefined;
+            return (
+              <React.Fragment key={hunkIndex}>
+                <tr
+                  className={`text-cyan-400 ${
+                    result?.status === 'conflict' ? 'bg-red-900/30' : 'bg-cyan-900/20'
+                  }`}
+                >
+                  <td className="px-2 py-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate">
+                        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                        {hunk.section && <span className="text-gray-500"> {hunk.section}</span>}
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        {result && <HunkStatusLabel result={result} />}
+                        {onToggleHunk && (
+                          <button
+                            onClick={() => onToggleHunk(fileIndex, hunkIndex)}
+                            className={`px-2 py-0.5 rounded text-[10px] font-sans transition-colors ${
+                              accepted
+                                ? 'bg-green-700/60 text-green-100 hover:bg-green-700'
+                                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                            }`}
+                            title={accepted ? 'Click to reject this hunk' : 'Click to accept this hunk'}
+                          >
+                            {accepted ? '✓ Accepted' : '✗ Rejected'}
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+                <tr>
+                  <td className="p-0">
+                    <table className={`w-full border-collapse ${accepted ? '' : 'opacity-40'}`}>
+                      <tbody>
+                        {mode === 'split' ? (
+                          <SplitHunk hunk={hunk} highlight={highlight} />
+                        ) : (
+                          <InlineHunk hunk={hunk} highlight={highlight} />
+                        )}
+                      </tbody>
+                    </table>
+                  </td>
+                </tr>
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Syntax-highlighted unified diff with inline or side-by-side layout and
+ * optional per-hunk accept/reject toggles.
+ */
+export function DiffViewer({ files, mode, isHunkAccepted, onToggleHunk, hunkResult }: DiffViewerProps) {
+  return (
+    <div className="bg-black rounded overflow-x-auto">
+      {files.map((file, fileIndex) => (
+        <DiffFileView
+          key={fileIndex}
+          file={file}
+          fileIndex={fileIndex}
+          mode={mode}
+          showPath={files.length > 1}
+          isHunkAccepted={isHunkAccepted}
+          onToggleHunk={onToggleHunk}
+          hunkResult={hunkResult}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import FileViewer from './FileViewer';
+import { EditorGroupId, EditorTab, dirtyKey, useEditorStore } from '@/lib/editorStore';
+
+// dataTransfer type carrying { group, path } of a dragged tab
+const TAB_DRAG_TYPE = 'application/x-atlas-editor-tab';
+
+interface TabMenuState {
+  x: number;
+  y: number;
+  tab: EditorTab;
+}
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+const parentName = (path: string) => path.split('/').slice(-2, -1)[0] || '';
+
+const otherGroup = (id: EditorGroupId): EditorGroupId => (id === 'primary' ? 'secondary' : 'primary');
+
+const actionButton = 'px-1.5 text-gray-400 hover:text-gray-200 hover:bg-[#2a2d2e] rounded';
+
+const EditorGroupPane: React.FC<{ id: EditorGroupId }> = ({ id }) => {
+  const group = useEditorStore(state => state.groups[id]);
+  const isActiveGroup = useEditorStore(state => state.activeGroup === id);
+  const split = useEditorStore(state => state.split);
+  const dirty = useEditorStore(state => state.dirty);
+  const [menu, setMenu] = useState<TabMenuState | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [menu]);
+
+  const editor = () => useEditorStore.getState();
+  const isDirty = (path: string, groupId: EditorGroupId = id) => Boolean(dirty[dirtyKey(groupId, path)]);
+
+  const confirmDiscard = (paths: string[], groupId: EditorGroupId = id) => {
+    const unsaved = paths.filter(path => isDirty(path, groupId));
+    if (unsaved.length === 0) return true;
+    return window.confirm(
+      unsaved.length === 1
+        ? `Discard unsaved changes to ${unsaved[0]}?`
+        : `Discard unsaved changes in ${unsaved.length} files?`
+    );
+  };
+
+  const closeTab = (path: string) => {
+    if (confirmDiscard([path])) editor().closeTab(id, path);
+  };
+
+  const closeOthers = (path: string) => {
+    const others = group.tabs.filter(t => t.path !== path && !t.pinned).map(t => t.path);
+    if (confirmDiscard(others)) editor().closeOtherTabs(id, path);
+  };
+
+  const openToSide = (tab: EditorTab) => {
+    if (split === 'none') {
+      editor().activateTab(id, tab.path);
+      editor().splitEditor('vertical');
+    } else {
+      editor().openFile(tab.path, tab.lines, otherGroup(id));
+    }
+  };
+
+  // Dropping on the right half of a tab puts the dragged one after it
+  const handleTabDragOver = (e: React.DragEvent, index: number) => {
+    if (!e.dataTransfer.types.includes(TAB_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setDropIndex(e.clientX > rect.left + rect.width / 2 ? index + 1 : index);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const data = e.dataTransfer.getData(TAB_DRAG_TYPE);
+    const index = dropIndex ?? group.tabs.length;
+    setDropIndex(null);
+    if (!data) return;
+    e.preventDefault();
+    const { group: from, path } = JSON.parse(data) as { group: EditorGroupId; path: string };
+    // The tab's viewer is recreated in the other group
+    if (from !== id && !confirmDiscard([path], from)) return;
+    editor().moveTab(from, path, id, index);
+  };
+
+  const names = group.tabs.map(t => baseName(t.path));
+  const menuItems: { label: string; action: () => void }[] = menu
+    ? [
+        { label: menu.tab.pinned ? 'Unpin' : 'Pin', action: () => editor().togglePin(id, menu.tab.path) },
+        { label: 'Close', action: () => closeTab(menu.tab.path) },
+        { label: 'Close Others', action: () => closeOthers(menu.tab.path) },
+        { label: split === 'none' ? 'Open to the Side' : 'Open in Other Group', action: () => openToSide(menu.tab) },
+      ]
+    : [];
+
+  return (
+    <div
+      className="flex-1 min-w-0 min-h-0 flex flex-col bg-[#1e1e1e]"
+      onMouseDownCapture={() => editor().setActiveGroup(id)}
+    >
+      {group.tabs.length > 0 && (
+        <div className="flex items-stretch bg-[#252526] border-b border-gray-700">
+          <div
+            className="flex-1 flex overflow-x-auto"
+            onDragOver={e => {
+              if (!e.dataTransfer.types.includes(TAB_DRAG_TYPE)) return;
+              e.preventDefault();
+              setDropIndex(group.tabs.length);
+            }}
+            onDragLeave={e => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropIndex(null);
+            }}
+            onDrop={handleDrop}
+          >
+            {group.tabs.map((tab, index) => {
+              const active = tab.path === group.activePath;
+              const name = names[index];
+              const ambiguous = names.filter(n => n === name).length > 1;
+              return (
+                <div
+                  key={tab.path}
+                  draggable
+                  onDragStart={e => {
+                    e.dataTransfer.setData(TAB_DRAG_TYPE, JSON.stringify({ group: id, path: tab.path }));
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragEnd={() => setDropIndex(null)}
+                  onDragOver={e => handleTabDragOver(e, index)}
+                  onClick={() => editor().activateTab(id, tab.path)}
+                  onMouseDown={e => {
+                    // Middle click closes
+                    if (e.button === 1) {
+                      e.preventDefault();
+                      closeTab(tab.path);
+                    }
+                  }}
+                  onContextMenu={e => {
+                    e.preventDefault();
+                    setMenu({ x: e.clientX, y: e.clientY, tab });
+                  }}
+                  title={tab.path}
+                  className={`group flex items-center gap-1.5 pl-3 pr-1.5 py-1.5 text-xs whitespace-nowrap cursor-pointer border-r border-gray-700 border-t ${
+                    active ? 'bg-[#1e1e1e] text-gray-100' : 'text-gray-400 hover:text-gray-200'
+                  } ${active && isActiveGroup ? 'border-t-blue-500' : 'border-t-transparent'} ${
+                    dropIndex === index ? 'shadow-[inset_2px_0_0_#3b82f6]' : ''
+                  } ${dropIndex === index + 1 && index === group.tabs.length - 1 ? 'shadow-[inset_-2px_0_0_#3b82f6]' : ''}`}
+                >
+                  {tab.pinned && <span className="text-[10px]" title="Pinned">📌</span>}
+                  <span className={tab.pinned ? 'italic' : ''}>{name}</span>
+                  {ambiguous && <span className="text-gray-500">{parentName(tab.path)}</span>}
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      closeTab(tab.path);
+                    }}
+                    className="w-4 h-4 flex items-center justify-center rounded hover:bg-[#3c3c3c]"
+                    title={isDirty(tab.path) ? 'Unsaved changes - close' : 'Close'}
+                  >
+                    {isDirty(tab.path) ? (
+                      <>
+                        <span className="text-yellow-400 group-hover:hidden">●</span>
+                        <span className="hidden group-hover:inline">×</span>
+                      </>
+                    ) : (
+                      <span className={active ? '' : 'invisible group-hover:visible'}>×</span>
+                    )}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-0.5 px-1 text-xs shrink-0">
+            <button onClick={() => editor().splitEditor('vertical')} className={actionButton} title="Split editor right (Ctrl+\)">
+              ◫
+            </button>
+            <button onClick={() => editor().splitEditor('horizontal')} className={actionButton} title="Split editor down">
+              ⊟
+            </button>
+            {split !== 'none' && (
+              <button
+                onClick={() => {
+                  // The second group's viewers are recreated in the first
+                  const moved = editor().groups.secondary.tabs.map(t => t.path);
+                  if (confirmDiscard(moved, 'secondary')) editor().unsplitEditor();
+                }}
+                className={actionButton}
+                title="Merge the split into one group"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0">
+        {!group.activePath && (
+          <div className="h-full flex items-center justify-center text-gray-500 text-sm">
+            <div className="text-center">
+              <div className="text-lg mb-2">No File Selected</div>
+              <div>Select a file from the workspace to view its contents</div>
+            </div>
+          </div>
+        )}
+        {/* Background tabs stay mounted so their scroll position and edits survive */}
+        {group.tabs.map(tab => (
+          <div key={tab.path} className={tab.path === group.activePath ? 'h-full' : 'hidden'}>
+            <FileViewer
+              path={tab.path}
+              lines={tab.lines}
+              onLinesChange={lines => editor().setLines(id, tab.path, lines)}
+              visible={tab.path === group.activePath}
+              onDirtyChange={isTabDirty => editor().setDirty(id, tab.path, isTabDirty)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {menu && (
+        <div
+          className="fixed z-50 min-w-[10rem] py-1 bg-[#252526] border border-gray-700 rounded shadow-xl text-xs text-gray-200"
+          style={{ left: menu.x, top: menu.y }}
+          onMouseDown={e => e.stopPropagation()}
+        >
+          {menuItems.map(item => (
+            <button
+              key={item.label}
+              onClick={() => {
+                setMenu(null);
+                item.action();
+              }}
+              className="block w-full text-left px-3 py-1 hover:bg-[#094771]"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Open editors: one tab group, or two side by side / stacked when split
+ */
+export default function EditorArea() {
+  const split = useEditorStore(state => state.split);
+
+  // Ctrl/Cmd+\ splits the active file to the right
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === '\\') {
+        e.preventDefault();
+        useEditorStore.getState().splitEditor('vertical');
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div className={`h-full flex ${split === 'horizontal' ? 'flex-col' : 'flex-row'}`}>
+      <EditorGroupPane id="primary" />
+      {split !== 'none' && (
+        <>
+          <div className={split === 'horizontal' ? 'h-px shrink-0 bg-gray-700' : 'w-px shrink-0 bg-gray-700'} />
+          <EditorGroupPane id="secondary" />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import React, { useEffect, useState, useCallback } from "react";
-import { fetchProjectFileList } from "@/lib/atlasProjectFs";
+import { isProjectFsError, listProjectFiles } from "@/lib/atlasProjectFs";
+import type { ProjectFileEntry } from "@/lib/types";
 
 interface FileExplorerProps {
   projectName: string;
@@ -16,7 +17,7 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
   onFileSelect,
   selectedFile,
 }) => {
-  const [files, setFiles] = useState<string[]>([]);
+  const [files, setFiles] = useState<ProjectFileEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -24,11 +25,17 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
     setLoading(true);
     setError(null);
     try {
-      const list = await fetchProjectFileList(projectName, basePath);
-      setFiles(list);
+      const entries = await listProjectFiles(projectName, basePath || ".");
+      setFiles(
+        [...entries].sort((a, b) => (a.is_dir !== b.is_dir ? (a.is_dir ? -1 : 1) : a.path.localeCompare(b.path)))
+      );
     } catch (e: any) {
       console.error("FileExplorer error:", e);
-      setError("Failed to load file list from ATLAS Core.");
+      if (isProjectFsError(e, "not_found")) {
+        setError(`${basePath || "."} does not exist in ${projectName}.`);
+      } else {
+        setError(e.message || "Failed to load file list from ATLAS Core.");
+      }
     } finally {
       setLoading(false);
     }
@@ -61,17 +68,17 @@ const FileExplorer: React.FC<FileExplorerProps> = ({
             <div className="text-gray-400">No files found.</div>
           )}
           {files.map((f) => {
-            const isSelected = f === selectedFile;
+            const isSelected = f.path === selectedFile;
             return (
               <div
-                key={f}
-                className={`cursor-pointer rounded px-1 py-0.5 truncate ${
-                  isSelected ? "bg-[#094771]" : "hover:bg-[#3c3c3c]"
-                }`}
-                onClick={() => onFileSelect(f)}
-                title={f}
+                key={f.path}
+                className={`rounded px-1 py-0.5 truncate ${
+                  f.is_dir ? "text-gray-400" : "cursor-pointer"
+                } ${isSelected ? "bg-[#094771]" : f.is_dir ? "" : "hover:bg-[#3c3c3c]"}`}
+                onClick={() => !f.is_dir && onFileSelect(f.path)}
+                title={f.path}
               >
-                {f}
+                {f.is_dir ? `${f.path}/` : f.path}
               </div>
             );
           })}
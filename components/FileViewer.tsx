@@ -1,80 +1,135 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { useConsole } from './ConsoleProvider';
-import Prism from 'prismjs';
+import { CodeEditor, CodeEditorHandle, EditorHistory } from './CodeEditor';
+import FilePreview from './previews/FilePreview';
+import { applyConsolePatch, fetchConsoleFileBytes, fetchConsoleFileContent } from '@/lib/atlasConsoleClient';
+import { FilePreviewSpec, HEX_MAX_BYTES, previewFor } from '@/lib/filePreview';
+import { createUnifiedDiff, serializeUnifiedDiff } from '@/lib/diff';
+import Prism, { getLanguage } from '@/lib/prism';
+import { LineRange, formatLineRange } from '@/lib/urlState';
 import 'prismjs/themes/prism-tomorrow.css';
 import 'prismjs/plugins/line-numbers/prism-line-numbers.css';
 import 'prismjs/plugins/line-numbers/prism-line-numbers';
-// Import language support
-import 'prismjs/components/prism-typescript';
-import 'prismjs/components/prism-javascript';
-import 'prismjs/components/prism-python';
-import 'prismjs/components/prism-json';
-import 'prismjs/components/prism-markdown';
-import 'prismjs/components/prism-yaml';
-import 'prismjs/components/prism-bash';
-import 'prismjs/components/prism-sql';
-import 'prismjs/components/prism-css';
-import 'prismjs/components/prism-jsx';
-import 'prismjs/components/prism-tsx';
-
-// Map file extensions to Prism language identifiers
-const getLanguage = (filename: string): string => {
-  const ext = filename.split('.').pop()?.toLowerCase();
-  const langMap: { [key: string]: string } = {
-    'ts': 'typescript',
-    'tsx': 'tsx',
-    'js': 'javascript',
-    'jsx': 'jsx',
-    'py': 'python',
-    'json': 'json',
-    'md': 'markdown',
-    'yml': 'yaml',
-    'yaml': 'yaml',
-    'sh': 'bash',
-    'bash': 'bash',
-    'sql': 'sql',
-    'css': 'css',
-    'html': 'markup',
-    'xml': 'markup',
-  };
-  return langMap[ext || ''] || 'markup';
-};
+import 'prismjs/plugins/line-highlight/prism-line-highlight.css';
+import 'prismjs/plugins/line-highlight/prism-line-highlight';
+
+// Matches the <pre> below: 12px font at line-height 1.5, 16px padding
+const LINE_HEIGHT_PX = 18;
+const CODE_PADDING_PX = 16;
+
+/**
+ * Character offset of a selection boundary within the code's own text,
+ * skipping the line-number and line-highlight elements Prism adds
+ */
+function textOffset(root: HTMLElement, node: Node, offset: number): number {
+  const before = document.createRange();
+  before.setStart(root, 0);
+  before.setEnd(node, offset);
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (n) =>
+      n.parentElement?.closest('.line-numbers-rows, .line-highlight')
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  let total = 0;
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    if (n === node) return total + offset;
+    if (before.comparePoint(n, 0) > 0) break;
+    total += n.textContent?.length ?? 0;
+  }
+  return total;
+}
+
+interface FileViewerProps {
+  path: string;
+  // Highlighted lines, scrolled into view when they change
+  lines: LineRange | null;
+  onLinesChange: (lines: LineRange | null) => void;
+  // False while the viewer's tab is in the background
+  visible?: boolean;
+  onDirtyChange?: (dirty: boolean) => void;
+}
 
-const FileViewer: React.FC = () => {
-  const { selectedFile } = useConsole();
+const FileViewer: React.FC<FileViewerProps> = ({
+  path: selectedFile,
+  lines: selectedLines,
+  onLinesChange: setSelectedLines,
+  visible = true,
+  onDirtyChange,
+}) => {
+  // Text as last loaded or saved; edits are diffed against it
   const [content, setContent] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const codeRef = useRef<HTMLElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Edit mode
+  const editorRef = useRef<CodeEditorHandle>(null);
+  const [editing, setEditing] = useState(false);
+  const [editorKey, setEditorKey] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [history, setHistory] = useState<EditorHistory>({ undo: 0, redo: 0 });
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Backend text when it changed since the file was loaded
+  const [remoteContent, setRemoteContent] = useState<string | null>(null);
+
+  // Rich preview for the file type (null: source only); binary files are
+  // loaded as bytes and have no source view
+  const [preview, setPreview] = useState<FilePreviewSpec | null>(() => previewFor(selectedFile));
+  const [showPreview, setShowPreview] = useState(true);
+  const [binary, setBinary] = useState<Awaited<ReturnType<typeof fetchConsoleFileBytes>> | null>(null);
+
+  const dirty = editing && draft !== content;
+  const previewing = !editing && preview !== null && (preview.binary || showPreview);
 
   useEffect(() => {
-    if (!selectedFile) {
+    setEditing(false);
+    setSaveError(null);
+    setRemoteContent(null);
+    const spec = previewFor(selectedFile);
+    setPreview(spec);
+    setBinary(null);
+
+    const loadBytes = async (maxBytes?: number) => {
+      setBinary(await fetchConsoleFileBytes(selectedFile, { maxBytes }));
       setContent('');
-      setError(null);
-      return;
-    }
+    };
 
     const loadFile = async () => {
       setLoading(true);
       setError(null);
       try {
+        if (spec?.binary) {
+          await loadBytes(spec.kind === 'hex' ? HEX_MAX_BYTES : undefined);
+          return;
+        }
+
         const params = new URLSearchParams({ path: selectedFile });
         const res = await fetch(`/api/console/files/content?${params.toString()}`);
-        
+
         if (!res.ok) {
           const errorData = await res.json().catch(() => ({ error: res.statusText }));
           throw new Error(errorData.error || `Failed to load file: ${res.statusText}`);
         }
-        
+
         const data = await res.json();
-        
+
         if (data.error) {
           throw new Error(data.error);
         }
-        
-        setContent(data.content || '');
+
+        const text: string = data.content || '';
+        // A binary without a known extension comes back with NUL characters
+        if (text.includes('\u0000')) {
+          setPreview({ kind: 'hex', binary: true });
+          await loadBytes(HEX_MAX_BYTES);
+          return;
+        }
+        setContent(text);
       } catch (err: any) {
         console.error('Error loading file:', err);
         setError(err.message || 'Failed to load file');
@@ -86,23 +141,134 @@ const FileViewer: React.FC = () => {
     loadFile();
   }, [selectedFile]);
 
-  // Apply syntax highlighting when content changes
+  // Apply syntax highlighting when content changes; line highlights are
+  // measured, so a background tab waits until it is shown
   useEffect(() => {
-    if (codeRef.current && content && selectedFile) {
+    if (codeRef.current && content && selectedFile && !editing && !previewing && visible) {
       Prism.highlightElement(codeRef.current);
     }
-  }, [content, selectedFile]);
+  }, [content, selectedFile, editing, previewing, selectedLines, visible]);
 
-  if (!selectedFile) {
-    return (
-      <div className="h-full flex items-center justify-center text-gray-500 text-sm">
-        <div className="text-center">
-          <div className="text-lg mb-2">No File Selected</div>
-          <div>Select a file from the workspace to view its contents</div>
-        </div>
-      </div>
-    );
-  }
+  // Line selections (e.g. a search result) are shown in the source
+  useEffect(() => {
+    if (selectedLines) setShowPreview(false);
+  }, [selectedLines]);
+
+  // Bring the selected lines into view unless they already are
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !selectedLines || !content || editing || previewing || !visible) return;
+    const top = CODE_PADDING_PX + (selectedLines.start - 1) * LINE_HEIGHT_PX;
+    const inView = top >= container.scrollTop && top + LINE_HEIGHT_PX <= container.scrollTop + container.clientHeight;
+    if (!inView) container.scrollTop = Math.max(0, top - container.clientHeight / 3);
+  }, [content, editing, previewing, selectedLines, visible]);
+
+  // The parent passes a new callback every render; report changes of `dirty` only
+  const onDirtyChangeRef = useRef(onDirtyChange);
+  onDirtyChangeRef.current = onDirtyChange;
+
+  useEffect(() => {
+    onDirtyChangeRef.current?.(dirty);
+  }, [dirty]);
+
+  // A closed tab has nothing unsaved left
+  useEffect(() => {
+    const report = onDirtyChangeRef;
+    return () => report.current?.(false);
+  }, []);
+
+  // Unsaved edits would be lost on reload
+  useEffect(() => {
+    if (!dirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [dirty]);
+
+  // (Re)start the editor from `text`, dropping undo history
+  const startEditing = (text: string) => {
+    setDraft(text);
+    setHistory({ undo: 0, redo: 0 });
+    setEditorKey(key => key + 1);
+    setEditing(true);
+  };
+
+  const stopEditing = () => {
+    if (dirty && !window.confirm('Discard unsaved changes?')) return;
+    setEditing(false);
+    setSaveError(null);
+    setRemoteContent(null);
+  };
+
+  /**
+   * Submit the edits as a unified diff. Unless `overwrite` is set, refuse
+   * when the file changed on the backend since it was loaded.
+   */
+  const save = async (overwrite = false) => {
+    if (!dirty || saving) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const current = await fetchConsoleFileContent(selectedFile);
+      if (current === null) {
+        throw new Error('File no longer exists in the workspace');
+      }
+      if (current !== content && !overwrite) {
+        setRemoteContent(current);
+        return;
+      }
+
+      const diff = serializeUnifiedDiff([createUnifiedDiff(selectedFile, current, draft)]);
+      if (diff) await applyConsolePatch(selectedFile, diff);
+      setContent(draft);
+      setRemoteContent(null);
+    } catch (err: any) {
+      setSaveError(err.message || 'Failed to save file');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A click selects its line, a drag the lines it covers
+  const selectLinesFromSelection = () => {
+    const code = codeRef.current;
+    const selection = window.getSelection();
+    if (!code || !selection || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    const inCode = (node: Node) =>
+      code.contains(node) && !node.parentElement?.closest('.line-numbers-rows, .line-highlight');
+    if (!inCode(range.startContainer) || !inCode(range.endContainer)) return;
+
+    const lineAt = (offset: number) => content.slice(0, offset).split('\n').length;
+    const from = textOffset(code, range.startContainer, range.startOffset);
+    const to = textOffset(code, range.endContainer, range.endOffset);
+    const start = lineAt(from);
+    // A drag that stops at the start of a line doesn't take that line
+    const end = to > from && content[to - 1] === '\n' ? lineAt(to - 1) : lineAt(to);
+    if (selectedLines?.start === start && selectedLines.end === end) return;
+    setSelectedLines({ start, end: Math.max(start, end) });
+  };
+
+  // The URL already carries the file and line selection
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
+
+  const reloadRemote = () => {
+    if (remoteContent === null) return;
+    if (dirty && !window.confirm('Discard your changes and load the current file?')) return;
+    setContent(remoteContent);
+    setRemoteContent(null);
+    startEditing(remoteContent);
+  };
 
   if (loading) {
     return (
@@ -126,6 +292,8 @@ const FileViewer: React.FC = () => {
     );
   }
 
+  const toolbarButton = 'text-xs text-gray-400 hover:text-gray-200 px-2 py-1 rounded hover:bg-[#2a2d2e] disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
   return (
     <div className="h-full flex flex-col bg-[#1e1e1e]">
       {/* File header */}
@@ -133,28 +301,132 @@ const FileViewer: React.FC = () => {
         <div className="flex items-center gap-2">
           <span className="text-xs text-gray-400">📄</span>
           <span className="text-sm font-medium text-gray-200">{selectedFile}</span>
+          {selectedLines && !editing && !previewing && (
+            <span className="text-xs text-gray-500">
+              {selectedLines.start === selectedLines.end
+                ? `line ${selectedLines.start}`
+                : `lines ${selectedLines.start}-${selectedLines.end}`}
+            </span>
+          )}
+          {dirty && <span className="text-xs text-yellow-400" title="Unsaved changes">● modified</span>}
         </div>
-        <button
-          onClick={() => {
-            // Future: Add edit mode
-          }}
-          className="text-xs text-gray-400 hover:text-gray-200 px-2 py-1 rounded hover:bg-[#2a2d2e]"
-        >
-          Read Only
-        </button>
+        {editing ? (
+          <div className="flex items-center gap-1">
+            <button onClick={() => editorRef.current?.undo()} disabled={history.undo === 0} className={toolbarButton} title="Undo (Ctrl+Z)">
+              Undo
+            </button>
+            <button onClick={() => editorRef.current?.redo()} disabled={history.redo === 0} className={toolbarButton} title="Redo (Ctrl+Shift+Z)">
+              Redo
+            </button>
+            <button onClick={() => editorRef.current?.openFind()} className={toolbarButton} title="Find / Replace (Ctrl+F)">
+              Find
+            </button>
+            <button
+              onClick={() => save()}
+              disabled={!dirty || saving}
+              className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Save (Ctrl+S)"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+            <button onClick={stopEditing} className={toolbarButton}>
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1">
+            {preview && !preview.binary && (
+              <div className="flex mr-1 rounded border border-gray-700 overflow-hidden">
+                {[true, false].map(option => (
+                  <button
+                    key={String(option)}
+                    onClick={() => setShowPreview(option)}
+                    className={`text-xs px-2 py-0.5 ${
+                      showPreview === option ? 'bg-[#094771] text-gray-100' : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {option ? 'Preview' : 'Source'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button onClick={copyLink} className={toolbarButton} title="Copy a link to this file and line selection">
+              {linkCopied ? 'Copied' : 'Copy link'}
+            </button>
+            {!preview?.binary && (
+              <button onClick={() => startEditing(content)} className={toolbarButton}>
+                Edit
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
+      {remoteContent !== null && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 text-xs bg-yellow-900/30 border-b border-yellow-800 text-yellow-200">
+          <span>This file changed on the backend since it was loaded.</span>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={() => save(true)} disabled={saving} className="px-2 py-1 rounded bg-yellow-700 text-white hover:bg-yellow-600 disabled:opacity-40">
+              Overwrite
+            </button>
+            <button onClick={reloadRemote} className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600">
+              Reload
+            </button>
+            <button onClick={() => setRemoteContent(null)} className="px-2 py-1 rounded text-gray-300 hover:bg-gray-700">
+              Keep editing
+            </button>
+          </div>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="px-4 py-2 text-xs bg-red-900/20 border-b border-red-800 text-red-400">
+          {saveError}
+        </div>
+      )}
+
       {/* File content */}
-      <div className="flex-1 overflow-auto">
-        <pre className="line-numbers p-4 m-0" style={{ background: '#1e1e1e', fontSize: '12px', lineHeight: '1.5' }}>
-          <code 
-            ref={codeRef}
-            className={`language-${getLanguage(selectedFile)}`}
+      {editing ? (
+        <div className="flex-1 min-h-0">
+          <CodeEditor
+            key={editorKey}
+            ref={editorRef}
+            path={selectedFile}
+            initialValue={draft}
+            onChange={(value, editorHistory) => {
+              setDraft(value);
+              setHistory(editorHistory);
+            }}
+            onSave={() => save()}
+          />
+        </div>
+      ) : previewing && preview ? (
+        <div className="flex-1 overflow-auto">
+          <FilePreview
+            kind={preview.kind}
+            path={selectedFile}
+            text={preview.binary ? null : content}
+            bytes={binary?.bytes ?? null}
+            size={binary?.size}
+            truncated={binary?.truncated}
+          />
+        </div>
+      ) : (
+        <div ref={scrollRef} className="flex-1 overflow-auto" onMouseUp={selectLinesFromSelection}>
+          <pre
+            className="line-numbers p-4 m-0"
+            style={{ background: '#1e1e1e', fontSize: '12px', lineHeight: '1.5' }}
+            data-line={selectedLines ? formatLineRange(selectedLines) : undefined}
           >
-            {content}
-          </code>
-        </pre>
-      </div>
+            <code
+              ref={codeRef}
+              className={`language-${getLanguage(selectedFile)}`}
+            >
+              {content}
+            </code>
+          </pre>
+        </div>
+      )}
     </div>
   );
 };
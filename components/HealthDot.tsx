@@ -0,0 +1,27 @@
+"use client";
+
+import React from "react";
+import type { HealthStatus } from "@/lib/healthStore";
+
+const DOT_CLASSES: Record<HealthStatus, string> = {
+  checking: "bg-yellow-500",
+  healthy: "bg-green-500",
+  degraded: "bg-orange-400",
+  down: "bg-red-500",
+};
+
+export const HEALTH_LABELS: Record<HealthStatus, string> = {
+  checking: "Checking",
+  healthy: "Connected",
+  degraded: "Degraded",
+  down: "Unreachable",
+};
+
+const HealthDot: React.FC<{ status: HealthStatus; pulse?: boolean }> = ({ status, pulse = false }) => (
+  <span
+    className={`inline-block w-2 h-2 rounded-full ${DOT_CLASSES[status]} ${pulse ? "animate-pulse" : ""}`}
+    title={HEALTH_LABELS[status]}
+  />
+);
+
+export default HealthDot;
@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useDeferredValue, useEffect, useMemo, useState } from "react";
+import { useConsole, useViewRequest } from "./ConsoleProvider";
+import { listChatHistories } from "@/lib/chatHistory";
+import { sessionDisplayName } from "@/lib/consoleSessions";
+import {
+  HISTORY_DOC_KINDS,
+  HistoryDocKind,
+  buildHistoryIndex,
+  searchHistory,
+} from "@/lib/historySearch";
+import type { ChatMessage } from "@/lib/types";
+
+const KIND_STYLES: Record<HistoryDocKind, string> = {
+  question: "bg-blue-900/50 text-blue-300",
+  answer: "bg-green-900/50 text-green-300",
+  patch: "bg-purple-900/50 text-purple-300",
+  command: "bg-yellow-900/50 text-yellow-300",
+};
+
+const inputClass =
+  "px-2 py-1 text-xs bg-[#3c3c3c] text-gray-200 border border-gray-600 rounded focus:outline-none focus:border-blue-500";
+
+const HistorySearchView: React.FC = () => {
+  const { sessions, messagesBySession, focusMessage } = useConsole();
+  const [query, setQuery] = useState("");
+  const [sessionFilter, setSessionFilter] = useState("");
+  const [kinds, setKinds] = useState<HistoryDocKind[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [persisted, setPersisted] = useState<{ session_id: string; messages: ChatMessage[] }[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const deferredQuery = useDeferredValue(query);
+
+  // Opened by /history <query>
+  useViewRequest("history", (args) => setQuery(args.query ?? ""));
+
+  const loadHistories = async () => {
+    setLoadError(null);
+    try {
+      setPersisted(await listChatHistories());
+    } catch (err: any) {
+      console.error("Failed to read chat history:", err);
+      setLoadError(err.message || "Failed to read chat history");
+      setPersisted([]);
+    }
+  };
+
+  useEffect(() => {
+    loadHistories();
+  }, []);
+
+  // Persisted transcripts, with the ones loaded in this tab taking precedence as they may be newer
+  const index = useMemo(() => {
+    if (!persisted) return null;
+    const bySession = new Map(persisted.map((h) => [h.session_id, h.messages]));
+    messagesBySession.forEach((messages, sessionId) => bySession.set(sessionId, messages));
+    return buildHistoryIndex(Array.from(bySession, ([session_id, messages]) => ({ session_id, messages })));
+  }, [persisted, messagesBySession]);
+
+  const hits = useMemo(
+    () =>
+      index
+        ? searchHistory(index, deferredQuery, {
+            sessionId: sessionFilter || null,
+            kinds,
+            from: from || undefined,
+            to: to || undefined,
+          })
+        : [],
+    [index, deferredQuery, sessionFilter, kinds, from, to]
+  );
+
+  const sessionNames = useMemo(() => new Map(sessions.map((s) => [s.session_id, sessionDisplayName(s)])), [sessions]);
+  const nameOf = (sessionId: string) => sessionNames.get(sessionId) ?? sessionId.slice(0, 8);
+  const indexedSessions = useMemo(
+    () => (index ? Array.from(new Set(index.docs.map((d) => d.session_id))) : []),
+    [index]
+  );
+
+  const toggleKind = (kind: HistoryDocKind) =>
+    setKinds((prev) => (prev.includes(kind) ? prev.filter((k) => k !== kind) : [...prev, kind]));
+
+  return (
+    <div className="h-full w-full p-4 text-sm text-gray-200 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">Chat History</h1>
+        <button className="bg-gray-700 hover:bg-gray-600 text-xs px-3 py-1 rounded" onClick={loadHistories}>
+          Reindex
+        </button>
+      </div>
+
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder='Search questions, answers, patches and commands... ("exact text" for phrases)'
+        className={`${inputClass} w-full text-sm py-1.5`}
+        autoFocus
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select value={sessionFilter} onChange={(e) => setSessionFilter(e.target.value)} className={inputClass}>
+          <option value="">All sessions</option>
+          {indexedSessions.map((id) => (
+            <option key={id} value={id}>
+              {nameOf(id)}
+            </option>
+          ))}
+        </select>
+        {(Object.keys(HISTORY_DOC_KINDS) as HistoryDocKind[]).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => toggleKind(kind)}
+            className={`px-2 py-1 rounded ${
+              kinds.includes(kind) ? "bg-blue-600 text-white" : "bg-[#3c3c3c] text-gray-300 hover:bg-gray-600"
+            }`}
+          >
+            {HISTORY_DOC_KINDS[kind]}
+          </button>
+        ))}
+        <label className="flex items-center gap-1 text-gray-400">
+          From
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-1 text-gray-400">
+          To
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {loadError && <div className="text-xs text-red-400">{loadError}</div>}
+
+      <div className="text-xs text-gray-500">
+        {!index
+          ? "Indexing chat history..."
+          : deferredQuery.trim()
+            ? `${hits.length === 200 ? "200+" : hits.length} result${hits.length === 1 ? "" : "s"}`
+            : `${index.docs.length} entries indexed across ${indexedSessions.length} session${indexedSessions.length === 1 ? "" : "s"}`}
+      </div>
+
+      <ul className="flex-1 overflow-auto space-y-2">
+        {hits.map(({ doc, snippet }, i) => (
+          <li key={`${doc.session_id}-${doc.message_id}-${doc.kind}-${i}`}>
+            <button
+              onClick={() => focusMessage(doc.session_id, doc.message_id)}
+              className="w-full text-left p-2 rounded border border-gray-700 bg-[#252526] hover:border-gray-500"
+              title="Open in chat"
+            >
+              <div className="flex items-center gap-2 text-xs mb-1">
+                <span className={`px-1.5 rounded ${KIND_STYLES[doc.kind]}`}>{HISTORY_DOC_KINDS[doc.kind]}</span>
+                <span className="text-gray-300">{nameOf(doc.session_id)}</span>
+                <span className="text-gray-500">{new Date(doc.created_at).toLocaleString()}</span>
+                {doc.title && <span className="font-mono text-gray-400 truncate">{doc.title}</span>}
+              </div>
+              <div className={`text-xs text-gray-300 break-words ${doc.kind === "patch" || doc.kind === "command" ? "font-mono" : ""}`}>
+                {snippet.map((part, j) =>
+                  part.match ? (
+                    <mark key={j} className="bg-yellow-600/60 text-white rounded-sm">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <React.Fragment key={j}>{part.text}</React.Fragment>
+                  )
+                )}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistorySearchView;
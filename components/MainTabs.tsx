@@ -1,8 +1,9 @@
 "use client";
 
 import React from "react";
+import type { MainTabId } from "@/lib/types";
 
-export type MainTabId = "code" | "meta" | "logs" | "tasks" | "security" | "skills" | "simulation" | "sandbox" | "architecture" | "neural-viz";
+export type { MainTabId } from "@/lib/types";
 
 interface MainTabsProps {
   activeTab: MainTabId;
@@ -17,10 +18,12 @@ const MainTabs: React.FC<MainTabsProps> = ({ activeTab, onTabChange }) => {
     { id: "meta", label: "Meta" },
     { id: "logs", label: "Logs" },
     { id: "tasks", label: "Tasks" },
+    { id: "patches", label: "Patches" },
     { id: "security", label: "Security" },
     { id: "skills", label: "Skills" },
     { id: "simulation", label: "Simulation" },
     { id: "sandbox", label: "Sandbox" },
+    { id: "history", label: "History" },
   ];
 
   const handleKeyDown = (e: React.KeyboardEvent, tabId: MainTabId) => {
@@ -0,0 +1,93 @@
+'use client';
+
+import React from 'react';
+import ReactMarkdown, { Components, UrlTransform, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CodeBlock } from './CodeBlock';
+
+// Raw HTML in the source is rendered as text (no rehype-raw), and
+// react-markdown's default URL transform drops javascript: and similar links.
+// Only inline (data:) images are loaded: fetching a remote or relative src
+// would let model output, or a prompt-injected file, send data out through
+// the image URL. Other images become links.
+const INLINE_IMAGE = /^data:image\//i;
+
+const urlTransform: UrlTransform = (url, key) =>
+  key === 'src' && INLINE_IMAGE.test(url) ? url : defaultUrlTransform(url);
+
+const components: Components = {
+  // Fenced code goes through CodeBlock; <pre> itself adds nothing
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const text = String(children ?? '');
+    const language = /language-([\w+#.-]+)/.exec(className || '')?.[1];
+    // Inline code has no language class and no newline
+    if (!language && !text.includes('\n')) {
+      return (
+        <code className="px-1 py-0.5 rounded bg-[#2b2b30] font-mono text-[0.95em] text-[var(--atlas-text-primary)]">
+          {children}
+        </code>
+      );
+    }
+    return <CodeBlock code={text.replace(/\n$/, '')} language={language} />;
+  },
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+      {children}
+    </a>
+  ),
+  h1: ({ children }) => <h1 className="text-base font-semibold mt-3 mb-2 text-[var(--atlas-text-primary)]">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-sm font-semibold mt-3 mb-2 text-[var(--atlas-text-primary)]">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-xs font-semibold mt-2 mb-1 text-[var(--atlas-text-primary)]">{children}</h3>,
+  p: ({ children }) => <p className="my-1.5">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-1.5 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-1.5 space-y-0.5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="pl-3 my-2 border-l-2 border-gray-600 text-[var(--atlas-text-muted)]">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-3 border-gray-700" />,
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="border-collapse text-left">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="px-2 py-1 border border-gray-700 bg-[#252526] font-semibold">{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-2 py-1 border border-gray-700 align-top">{children}</td>
+  ),
+  img: ({ src, alt }) => {
+    const url = typeof src === 'string' ? src : '';
+    if (INLINE_IMAGE.test(url)) {
+      // eslint-disable-next-line @next/next/no-img-element
+      return <img src={url} alt={alt || ''} className="max-w-full rounded my-2" />;
+    }
+    const label = `[image${alt ? `: ${alt}` : ''}]`;
+    return /^https?:/i.test(url) ? (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+        {label}
+      </a>
+    ) : (
+      <span className="text-[var(--atlas-text-muted)]">{label}</span>
+    );
+  },
+};
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+/**
+ * Safe markdown (GFM tables, task lists, strikethrough) for ATLAS output
+ */
+export function Markdown({ content, className = '' }: MarkdownProps) {
+  return (
+    <div className={`break-words ${className}`}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} urlTransform={urlTransform}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
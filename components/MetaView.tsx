@@ -3,6 +3,8 @@
 import React, { useEffect, useState } from "react";
 import { atlasChat } from "@/lib/atlasClient";
 import type { AtlasChatRequest } from "@/lib/types";
+import { Markdown } from "./Markdown";
+import { useViewRequest } from "./ConsoleProvider";
 
 const MetaView: React.FC = () => {
     const [report, setReport] = useState<string>("");
@@ -29,8 +31,11 @@ const MetaView: React.FC = () => {
         }
     };
 
+    // Opened by /meta: the request handler does the load
+    const requested = useViewRequest("meta", () => fetchMeta());
+
     useEffect(() => {
-        fetchMeta();
+        if (!requested) fetchMeta();
     }, []);
 
     return (
@@ -57,8 +62,8 @@ const MetaView: React.FC = () => {
             )}
 
             {!error && report && (
-                <div className="mt-2 flex-1 border border-gray-700 rounded bg-[#1e1e1e] text-xs overflow-auto p-3 whitespace-pre-wrap font-mono">
-                    {report}
+                <div className="mt-2 flex-1 border border-gray-700 rounded bg-[#1e1e1e] text-xs overflow-auto p-3">
+                    <Markdown content={report} />
                 </div>
             )}
         </div>
@@ -18,6 +18,8 @@ import { NeuralCognitiveShellsV2 } from './NeuralCognitiveShellsV2';
 import { NeuralCognitiveLegendV2 } from './NeuralCognitiveLegendV2';
 import { TelemetryEventV2 } from './NeuralTelemetryTypesV2';
 import { convertV1ToV2, inferSubsystem } from './NeuralTelemetryUtilsV2';
+import { atlasSocketUrl } from '@/lib/atlasSocket';
+import { trackAtlasSocket } from '@/lib/healthStore';
 
 interface Props {
   timeScale?: number;
@@ -45,7 +47,7 @@ export default function NeuralArchitecture3DV2({
 
   // Load static architecture graph on mount
   useEffect(() => {
-    fetch('http://localhost:8000/v1/architecture/graph')
+    fetch('/api/architecture/graph')
       .then(res => res.json())
       .then(data => {
         console.log('[V2] Loaded architecture:', data.nodes?.length, 'nodes,', data.edges?.length, 'edges');
@@ -145,6 +147,9 @@ export default function NeuralArchitecture3DV2({
     if (typeof window === 'undefined') return;
 
     let ws: WebSocket | null = null;
+    // One health entry across reconnects
+    let untrack: (() => void) | undefined;
+    const socketId = `telemetry-v2-${Date.now()}`;
     let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
     let isUnmounted = false;
 
@@ -152,10 +157,10 @@ export default function NeuralArchitecture3DV2({
       if (isUnmounted) return;
 
       try {
-        const wsProtocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
-        const wsUrl = `${wsProtocol}://localhost:8000/v1/telemetry/stream`;
+        const wsUrl = atlasSocketUrl('telemetry/stream');
 
         ws = new WebSocket(wsUrl);
+        untrack = trackAtlasSocket(ws, 'Telemetry stream', socketId);
 
         ws.onopen = () => {
           if (isUnmounted) return;
@@ -213,6 +218,7 @@ export default function NeuralArchitecture3DV2({
       isUnmounted = true;
       document.removeEventListener('visibilitychange', handleVisibilityChange);
       if (reconnectTimeout) clearTimeout(reconnectTimeout);
+      untrack?.();
       if (ws && ws.readyState === WebSocket.OPEN) ws.close();
     };
   }, []);
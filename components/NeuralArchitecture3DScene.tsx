@@ -16,7 +16,7 @@ export const NeuralArchitecture3DScene: React.FC = () => {
 
   // Load initial architecture
   useEffect(() => {
-    fetch('http://localhost:8000/v1/architecture/graph')
+    fetch('/api/architecture/graph')
       .then(res => res.json())
       .then(data => {
         if (data.nodes && data.edges) {
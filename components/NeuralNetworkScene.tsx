@@ -6,6 +6,8 @@ import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import { Suspense, useState, useEffect, useRef } from 'react';
 import NeuralGraph from './NeuralGraph';
 import NeuralHUD from './NeuralHUD';
+import { atlasSocketUrl } from '@/lib/atlasSocket';
+import { trackAtlasSocket } from '@/lib/healthStore';
 
 export type Node = {
   id: string;
@@ -134,7 +136,7 @@ export default function NeuralNetworkScene() {
 
   useEffect(() => {
     // Fetch real Atlas architecture
-    fetch('http://localhost:8000/v1/architecture/graph')
+    fetch('/api/architecture/graph')
       .then(res => res.json())
       .then(data => {
         console.log('📊 Loaded Atlas architecture:', data);
@@ -169,8 +171,9 @@ export default function NeuralNetworkScene() {
   useEffect(() => {
     if (typeof window === 'undefined') return;
     
-    const ws = new WebSocket('ws://localhost:8000/v1/telemetry/stream');
+    const ws = new WebSocket(atlasSocketUrl('telemetry/stream'));
     wsRef.current = ws;
+    const untrack = trackAtlasSocket(ws, 'Telemetry stream');
 
     ws.onopen = () => {
       console.log('✅ Telemetry connected');
@@ -240,6 +243,7 @@ export default function NeuralNetworkScene() {
     };
 
     return () => {
+      untrack();
       if (ws.readyState === WebSocket.OPEN) {
         ws.close();
       }
@@ -1,45 +1,174 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Patch } from '@/lib/types';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Patch, PatchApplyResult } from '@/lib/types';
+import { countChanges, parseUnifiedDiff, serializeUnifiedDiff } from '@/lib/diff';
+import { PatchTargets, checkPatch, conflictingHunks, loadPatchTargets } from '@/lib/patchCheck';
+import { applyConsolePatch, fetchConsoleFileContent } from '@/lib/atlasConsoleClient';
+import { createRandomId } from '@/lib/session';
+import { usePatchJournalStore } from '@/lib/patchJournal';
+import { useConsole } from './ConsoleProvider';
+import { DiffViewer, DiffViewMode } from './DiffViewer';
+
+const DIFF_VIEW_MODE_KEY = 'atlas_console_diff_view_mode';
 
 interface PatchListProps {
   patches: Patch[];
+  // Assistant message the patches came from, recorded in the patch journal
+  messageId?: string;
+  // Previously recorded apply outcomes, keyed by patch index
+  results?: Record<number, PatchApplyResult>;
+  onResult?: (index: number, result: PatchApplyResult) => void;
 }
 
 interface PatchItemProps {
   patch: Patch;
   index: number;
+  messageId?: string;
+  initialResult?: PatchApplyResult;
+  onResult?: (result: PatchApplyResult) => void;
 }
 
-function PatchItem({ patch, index }: PatchItemProps) {
+function PatchItem({ patch, index, messageId, initialResult, onResult }: PatchItemProps) {
+  const { activeSessionId } = useConsole();
+  const recordApply = usePatchJournalStore(state => state.recordApply);
   const [expanded, setExpanded] = useState(false);
   const [applying, setApplying] = useState(false);
-  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [result, setResultState] = useState<PatchApplyResult | null>(initialResult ?? null);
+  const [viewMode, setViewMode] = useState<DiffViewMode>('inline');
+  // Hunks the reviewer rejected, as "fileIndex:hunkIndex"
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const files = useMemo(() => parseUnifiedDiff(patch.diff, patch.file_path), [patch.diff, patch.file_path]);
+  const totalHunks = files.reduce((sum, f) => sum + f.hunks.length, 0);
+  const acceptedHunks = totalHunks - rejected.size;
+  const changes = useMemo(() => countChanges(files), [files]);
+  const isHunkAccepted = (fi: number, hi: number) => !rejected.has(`${fi}:${hi}`);
+
+  // Dry run against the current workspace files
+  const [targets, setTargets] = useState<PatchTargets | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const check = useMemo(
+    () => (targets ? checkPatch(files, targets, (fi, hi) => !rejected.has(`${fi}:${hi}`)) : null),
+    [files, targets, rejected]
+  );
+  const conflicts = check ? conflictingHunks(check) : [];
+
+  const refreshCheck = useCallback(async (): Promise<PatchTargets | null> => {
+    if (totalHunks === 0) return null;
+    setChecking(true);
+    setCheckError(null);
+    try {
+      const loaded = await loadPatchTargets(files);
+      setTargets(loaded);
+      return loaded;
+    } catch (err: any) {
+      setCheckError(err.message || 'Failed to read the current file');
+      return null;
+    } finally {
+      setChecking(false);
+    }
+  }, [files, totalHunks]);
+
+  useEffect(() => {
+    if (expanded && !targets && !checking && !checkError) void refreshCheck();
+  }, [expanded, targets, checking, checkError, refreshCheck]);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(DIFF_VIEW_MODE_KEY);
+    if (stored === 'split' || stored === 'inline') setViewMode(stored);
+  }, []);
+
+  const changeViewMode = (mode: DiffViewMode) => {
+    setViewMode(mode);
+    window.localStorage.setItem(DIFF_VIEW_MODE_KEY, mode);
+  };
+
+  const toggleHunk = (fileIndex: number, hunkIndex: number) => {
+    const key = `${fileIndex}:${hunkIndex}`;
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const setResult = (next: PatchApplyResult | null) => {
+    setResultState(next);
+    if (next) onResult?.({ ...next, applied_at: new Date().toISOString() });
+  };
+
+  /**
+   * Journal every file the patch changed, so it can be reverted later
+   */
+  const recordJournal = async (sessionId: string, preImages: PatchTargets) => {
+    const appliedAt = new Date().toISOString();
+    const entries = await Promise.all(
+      Object.entries(preImages).map(async ([filePath, pre]) => {
+        const post = await fetchConsoleFileContent(filePath).catch(() => undefined);
+        if (post === undefined || post === pre) return null;
+        return {
+          id: createRandomId(),
+          session_id: sessionId,
+          message_id: messageId,
+          patch_index: index,
+          file_path: filePath,
+          description: patch.description,
+          pre_image: pre,
+          post_image: post,
+          applied_at: appliedAt,
+        };
+      })
+    );
+    recordApply(sessionId, entries.filter(e => e !== null));
+  };
 
   const handleApply = async () => {
     setApplying(true);
     setResult(null);
 
-    try {
-      const res = await fetch('/api/console/files/patch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          file_path: patch.file_path,
-          diff: patch.diff,
-        }),
-      });
+    // Re-check against the file as it is right now
+    const latest = await refreshCheck();
+    if (latest) {
+      const failing = conflictingHunks(checkPatch(files, latest, isHunkAccepted)).length;
+      if (
+        failing > 0 &&
+        !window.confirm(`${failing} hunk(s) do not apply to the current file. Send the patch anyway?`)
+      ) {
+        setExpanded(true);
+        setApplying(false);
+        return;
+      }
+    }
+
+    // Pre-images for the journal; an unparsed diff only touches patch.file_path
+    const preImages: PatchTargets | null =
+      latest ??
+      (await fetchConsoleFileContent(patch.file_path)
+        .then(content => ({ [patch.file_path]: content }))
+        .catch(() => null));
 
-      const data = await res.json();
+    // Only the accepted hunks are sent; an unparsed diff goes through as-is
+    const partial = totalHunks > 0 && rejected.size > 0;
+    const diff = partial
+      ? serializeUnifiedDiff(files, isHunkAccepted)
+      : patch.diff;
 
-      if (res.ok) {
-        setResult({ success: true, message: data.message || 'Patch applied successfully' });
-      } else {
-        setResult({ success: false, message: data.error || 'Failed to apply patch' });
+    try {
+      const { message } = await applyConsolePatch(patch.file_path, diff);
+      setResult({
+        success: true,
+        message: partial ? `${message} (${acceptedHunks} of ${totalHunks} hunks)` : message,
+      });
+      if (activeSessionId && preImages) {
+        recordJournal(activeSessionId, preImages).catch(err =>
+          console.warn('Failed to record patch in journal:', err)
+        );
       }
     } catch (err: any) {
-      setResult({ success: false, message: err.message || 'Network error' });
+      setResult({ success: false, message: err.message || 'Failed to apply patch' });
     } finally {
       setApplying(false);
     }
@@ -56,6 +185,31 @@ function PatchItem({ patch, index }: PatchItemProps) {
           <div className="flex items-center gap-2">
             <span className="text-xs font-mono text-gray-400">#{index + 1}</span>
             <span className="text-sm font-medium text-blue-400 font-mono">{patch.file_path}</span>
+            {totalHunks > 0 && (
+              <span className="text-[10px] font-mono">
+                <span className="text-green-400">+{changes.additions}</span>{' '}
+                <span className="text-red-400">-{changes.deletions}</span>
+              </span>
+            )}
+            {check && (
+              <span
+                className={`text-[10px] px-1.5 rounded ${
+                  check.status === 'clean'
+                    ? 'bg-green-900/40 text-green-400'
+                    : check.status === 'offset'
+                    ? 'bg-yellow-900/40 text-yellow-400'
+                    : 'bg-red-900/40 text-red-400'
+                }`}
+                title="Dry run against the current workspace file"
+              >
+                {check.status === 'clean' ? 'Clean' : check.status === 'offset' ? 'Offset' : 'Conflict'}
+              </span>
+            )}
+            {result && (
+              <span className={`text-[10px] ${result.success ? 'text-green-400' : 'text-red-400'}`}>
+                {result.success ? 'Applied' : 'Failed'}
+              </span>
+            )}
           </div>
           {patch.description && (
             <div className="text-xs text-gray-400 mt-1">{patch.description}</div>
@@ -68,10 +222,15 @@ function PatchItem({ patch, index }: PatchItemProps) {
               e.stopPropagation();
               handleApply();
             }}
-            disabled={applying}
+            disabled={applying || (totalHunks > 0 && acceptedHunks === 0)}
             className="px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title={totalHunks > 0 && acceptedHunks === 0 ? 'All hunks are rejected' : undefined}
           >
-            {applying ? 'Applying...' : 'Apply'}
+            {applying
+              ? 'Applying...'
+              : rejected.size > 0
+              ? `Apply ${acceptedHunks}/${totalHunks} hunks`
+              : 'Apply'}
           </button>
           <svg
             className={`w-5 h-5 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`}
@@ -99,34 +258,82 @@ function PatchItem({ patch, index }: PatchItemProps) {
             </div>
           )}
 
+          {/* Dry-run outcome */}
+          {checkError && (
+            <div className="mb-3 p-2 rounded text-xs bg-yellow-900/20 border border-yellow-800 text-yellow-400">
+              Could not check the patch: {checkError}
+            </div>
+          )}
+          {conflicts.length > 0 && (
+            <div className="mb-3 p-2 rounded text-xs bg-red-900/20 border border-red-800 text-red-400">
+              <div className="font-semibold mb-1">
+                {conflicts.length} {conflicts.length === 1 ? 'hunk does' : 'hunks do'} not apply to the current file
+              </div>
+              <ul className="space-y-0.5">
+                {conflicts.map(c => {
+                  const hunk = files[c.fileIndex].hunks[c.hunkIndex];
+                  return (
+                    <li key={`${c.fileIndex}:${c.hunkIndex}`} className="font-mono text-[11px]">
+                      {files.length > 1 && `${c.path} `}@@ -{hunk.oldStart},{hunk.oldLines} @@: {c.reason}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
           {/* Diff Display */}
-          <div className="bg-black rounded p-3 overflow-x-auto">
-            <pre className="text-xs font-mono">
-              {patch.diff.split('\n').map((line, i) => (
-                <div
-                  key={i}
-                  className={
-                    line.startsWith('+')
-                      ? 'text-green-400 bg-green-900/20'
-                      : line.startsWith('-')
-                      ? 'text-red-400 bg-red-900/20'
-                      : line.startsWith('@@')
-                      ? 'text-cyan-400'
-                      : 'text-gray-400'
-                  }
-                >
-                  {line || '\u00A0'}
+          {totalHunks > 0 ? (
+            <>
+              <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+                <span className="flex items-center gap-2">
+                  <span>
+                    {totalHunks} {totalHunks === 1 ? 'hunk' : 'hunks'}
+                    {rejected.size > 0 && ` · ${rejected.size} rejected`}
+                  </span>
+                  <button
+                    onClick={() => void refreshCheck()}
+                    disabled={checking}
+                    className="text-gray-500 hover:text-gray-300 disabled:opacity-50"
+                    title="Check the patch against the current file again"
+                  >
+                    {checking ? 'Checking...' : 'Recheck'}
+                  </button>
+                </span>
+                <div className="flex rounded border border-gray-700 overflow-hidden">
+                  {(['inline', 'split'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => changeViewMode(mode)}
+                      className={`px-2 py-0.5 ${
+                        viewMode === mode ? 'bg-gray-700 text-gray-100' : 'hover:bg-gray-800'
+                      }`}
+                    >
+                      {mode === 'inline' ? 'Inline' : 'Side by side'}
+                    </button>
+                  ))}
                 </div>
-              ))}
-            </pre>
-          </div>
+              </div>
+              <DiffViewer
+                files={files}
+                mode={viewMode}
+                isHunkAccepted={isHunkAccepted}
+                onToggleHunk={toggleHunk}
+                hunkResult={(fi, hi) => check?.files[fi]?.result.hunks[hi]}
+              />
+            </>
+          ) : (
+            <div className="bg-black rounded p-3 overflow-x-auto">
+              <pre className="text-xs font-mono text-gray-400">{patch.diff}</pre>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
 
-export function PatchList({ patches }: PatchListProps) {
+export function PatchList({ patches, messageId, results, onResult }: PatchListProps) {
   if (patches.length === 0) {
     return (
       <div className="text-center py-8 text-gray-500 text-sm">
@@ -141,7 +348,14 @@ export function PatchList({ patches }: PatchListProps) {
         {patches.length} {patches.length === 1 ? 'patch' : 'patches'} proposed
       </div>
       {patches.map((patch, index) => (
-        <PatchItem key={index} patch={patch} index={index} />
+        <PatchItem
+          key={index}
+          patch={patch}
+          index={index}
+          messageId={messageId}
+          initialResult={results?.[index]}
+          onResult={(result) => onResult?.(index, result)}
+        />
       ))}
     </div>
   );
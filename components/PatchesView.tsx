@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useConsole } from "./ConsoleProvider";
+import { hasDrifted, RevertOutcome, usePatchJournalStore } from "@/lib/patchJournal";
+import type { PatchJournalEntry } from "@/lib/types";
+
+const EMPTY_JOURNAL: PatchJournalEntry[] = [];
+
+interface PatchGroup {
+  key: string;
+  messageId?: string;
+  appliedAt: string;
+  entries: PatchJournalEntry[];
+}
+
+// Entries from one agent response form a group; newest group first
+function groupEntries(entries: PatchJournalEntry[]): PatchGroup[] {
+  const groups = new Map<string, PatchGroup>();
+  for (const entry of entries) {
+    const key = entry.message_id ?? `entry:${entry.id}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, messageId: entry.message_id, appliedAt: entry.applied_at, entries: [] };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+    if (entry.applied_at > group.appliedAt) group.appliedAt = entry.applied_at;
+  }
+  return [...groups.values()].sort((a, b) => b.appliedAt.localeCompare(a.appliedAt));
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+const PatchesView: React.FC = () => {
+  const { activeSessionId } = useConsole();
+  const loadJournal = usePatchJournalStore((state) => state.loadJournal);
+  const revertEntries = usePatchJournalStore((state) => state.revertEntries);
+  const entries = usePatchJournalStore((state) =>
+    activeSessionId ? state.entriesBySession[activeSessionId] ?? EMPTY_JOURNAL : EMPTY_JOURNAL
+  );
+
+  const [drifted, setDrifted] = useState<Record<string, boolean>>({});
+  const [checking, setChecking] = useState(false);
+  const [reverting, setReverting] = useState<string | null>(null);
+  const [failures, setFailures] = useState<RevertOutcome["failed"]>([]);
+
+  useEffect(() => {
+    if (activeSessionId) loadJournal(activeSessionId);
+    setFailures([]);
+  }, [activeSessionId, loadJournal]);
+
+  const checkDrift = useCallback(async () => {
+    const applied = entries.filter((e) => !e.reverted_at);
+    if (applied.length === 0) return;
+    setChecking(true);
+    try {
+      const results = await Promise.all(
+        applied.map(async (e) => [e.id, await hasDrifted(e).catch(() => true)] as const)
+      );
+      setDrifted(Object.fromEntries(results));
+    } finally {
+      setChecking(false);
+    }
+  }, [entries]);
+
+  useEffect(() => {
+    checkDrift();
+  }, [checkDrift]);
+
+  const groups = useMemo(() => groupEntries(entries), [entries]);
+
+  const handleRevert = async (key: string, ids: string[]) => {
+    if (!activeSessionId) return;
+    setReverting(key);
+    setFailures([]);
+    try {
+      const outcome = await revertEntries(activeSessionId, ids);
+      setFailures(outcome.failed);
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const getStatusChip = (entry: PatchJournalEntry) => {
+    if (entry.reverted_at) {
+      return <span className="atlas-status-chip atlas-badge-default">REVERTED</span>;
+    }
+    if (drifted[entry.id]) {
+      return <span className="atlas-status-chip atlas-badge-warning">DRIFTED</span>;
+    }
+    return <span className="atlas-status-chip atlas-badge-success">APPLIED</span>;
+  };
+
+  const appliedCount = entries.filter((e) => !e.reverted_at).length;
+
+  return (
+    <div className="atlas-panel h-full flex flex-col">
+      {/* Header */}
+      <div className="atlas-panel-header">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-[var(--atlas-text-primary)]">
+            Applied Patches
+          </h2>
+          <button
+            onClick={checkDrift}
+            disabled={checking}
+            className="text-xs text-[var(--atlas-text-muted)] hover:text-[var(--atlas-text-secondary)] transition-colors disabled:opacity-50"
+            aria-label="Check files for drift"
+          >
+            {checking ? "Checking..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {/* Journal */}
+      <div className="atlas-panel-body atlas-scrollbar">
+        {failures.length > 0 && (
+          <div className="mb-3 p-3 rounded border border-red-800 bg-red-900/20 text-xs text-red-300 space-y-1">
+            <div className="font-semibold">Some files could not be reverted</div>
+            {failures.map((f) => (
+              <div key={f.id}>
+                <span className="font-mono">{f.file_path}</span>: {f.error}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!activeSessionId ? (
+          <div className="text-center text-[var(--atlas-text-muted)] py-8">
+            No active session
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center text-[var(--atlas-text-muted)] py-8">
+            No patches applied in this session
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {groups.map((group) => {
+              const revertible = group.entries.filter((e) => !e.reverted_at && !drifted[e.id]);
+              return (
+                <div
+                  key={group.key}
+                  className="bg-[var(--atlas-bg-subtle)] rounded border border-[var(--atlas-border-subtle)]"
+                >
+                  <div className="flex items-center justify-between px-3 py-2 border-b border-[var(--atlas-border-subtle)]">
+                    <div className="text-xs text-[var(--atlas-text-muted)]">
+                      {group.messageId ? "Agent response" : "Patch"} · {formatTime(group.appliedAt)}
+                    </div>
+                    {group.entries.length > 1 && (
+                      <button
+                        onClick={() => handleRevert(group.key, revertible.map((e) => e.id))}
+                        disabled={revertible.length === 0 || reverting !== null}
+                        className="text-xs px-2 py-1 rounded bg-red-700/70 text-white hover:bg-red-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {reverting === group.key ? "Reverting..." : `Revert all (${revertible.length})`}
+                      </button>
+                    )}
+                  </div>
+                  <div className="divide-y divide-[var(--atlas-border-subtle)]">
+                    {[...group.entries].reverse().map((entry) => (
+                      <div key={entry.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            {getStatusChip(entry)}
+                            <span className="text-xs font-mono text-[var(--atlas-text-primary)] truncate">
+                              {entry.file_path}
+                            </span>
+                            {entry.pre_image === null && (
+                              <span className="text-xs text-[var(--atlas-text-muted)]">(created)</span>
+                            )}
+                          </div>
+                          {entry.description && (
+                            <div className="text-xs text-[var(--atlas-text-secondary)] truncate">
+                              {entry.description}
+                            </div>
+                          )}
+                          <div className="text-xs text-[var(--atlas-text-muted)] mt-1">
+                            Applied {formatTime(entry.applied_at)}
+                            {entry.reverted_at && <> · Reverted {formatTime(entry.reverted_at)}</>}
+                          </div>
+                        </div>
+                        {!entry.reverted_at && (
+                          <button
+                            onClick={() => handleRevert(entry.id, [entry.id])}
+                            disabled={drifted[entry.id] || reverting !== null}
+                            title={drifted[entry.id] ? "The file has changed since this patch was applied" : undefined}
+                            className="shrink-0 text-xs px-2 py-1 rounded bg-[var(--atlas-bg-body)] text-[var(--atlas-text-secondary)] hover:bg-[var(--atlas-bg-hover)] disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                          >
+                            {reverting === entry.id ? "Reverting..." : "Revert"}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Footer */}
+      <div className="px-4 py-2 border-t border-[var(--atlas-border-subtle)] flex items-center justify-between text-xs text-[var(--atlas-text-muted)]">
+        <span>
+          {entries.length} file changes
+        </span>
+        <span>
+          {appliedCount} applied · {entries.length - appliedCount} reverted
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PatchesView;
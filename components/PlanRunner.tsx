@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { AgentResponse } from '@/lib/types';
+import { useConsole } from './ConsoleProvider';
+import { formatDuration } from '@/lib/commandRunStore';
+import {
+  PlanFailureMode,
+  PlanRunHandle,
+  PlanRunSummary,
+  PlanStepStatus,
+  buildPlanSteps,
+  countPlanResults,
+  executePlan,
+  formatPlanSummary,
+} from '@/lib/planExecutor';
+
+interface PlanRunnerProps {
+  response: AgentResponse;
+}
+
+const stepStatusStyle: Record<PlanStepStatus, { icon: string; className: string }> = {
+  pending: { icon: '○', className: 'text-gray-500' },
+  running: { icon: '●', className: 'text-blue-400 animate-pulse' },
+  passed: { icon: '✓', className: 'text-green-400' },
+  failed: { icon: '✗', className: 'text-red-400' },
+  cancelled: { icon: '■', className: 'text-yellow-400' },
+  skipped: { icon: '–', className: 'text-gray-500' },
+};
+
+export function PlanRunner({ response }: PlanRunnerProps) {
+  const { activeSessionId, addChatAttachment } = useConsole();
+  const [mode, setMode] = useState<PlanFailureMode>('stop');
+  const [summary, setSummary] = useState<PlanRunSummary | null>(null);
+  const [attached, setAttached] = useState(false);
+  const handleRef = useRef<PlanRunHandle | null>(null);
+
+  const steps = buildPlanSteps(response);
+  const running = Boolean(summary && !summary.finished_at);
+
+  if (steps.length < 2) return null;
+
+  const handleRunAll = async () => {
+    setAttached(false);
+    const handle = executePlan(steps, {
+      mode,
+      sessionId: activeSessionId,
+      onUpdate: setSummary,
+    });
+    handleRef.current = handle;
+    await handle.done;
+    handleRef.current = null;
+  };
+
+  const handleAttach = () => {
+    if (!summary) return;
+    const content = formatPlanSummary(summary);
+    addChatAttachment({
+      name: `Plan run ${new Date(summary.started_at).toLocaleTimeString()}`,
+      type: 'text/markdown',
+      content,
+      size: content.length,
+    });
+    setAttached(true);
+  };
+
+  const counts = summary ? countPlanResults(summary) : null;
+
+  return (
+    <div className="border border-[var(--atlas-border-subtle)] rounded-lg bg-[#1b1b1f] px-3 py-2 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-[11px] text-[var(--atlas-text-muted)]">
+          Plan: {response.commands?.length || 0} command(s), then {response.tests?.length || 0} test(s)
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as PlanFailureMode)}
+            disabled={running}
+            className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-[11px] text-gray-300 disabled:opacity-50"
+            title="What to do when a step fails"
+          >
+            <option value="stop">Stop on first failure</option>
+            <option value="continue">Continue on failure</option>
+          </select>
+          {running ? (
+            <button
+              onClick={() => handleRef.current?.cancel()}
+              className="px-2 py-0.5 text-[11px] bg-red-600 text-white rounded hover:bg-red-700 transition-colors"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRunAll}
+              className="px-2 py-0.5 text-[11px] bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              {summary ? 'Run all again' : 'Run all'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {summary && counts && (
+        <>
+          <div className="space-y-0.5">
+            {summary.steps.map((step, i) => {
+              const style = stepStatusStyle[step.status];
+              return (
+                <div key={i} className="flex items-center gap-2 text-[11px] font-mono">
+                  <span className={`w-3 text-center ${style.className}`}>{style.icon}</span>
+                  <span className="text-[10px] uppercase text-[var(--atlas-text-muted)] w-12">{step.kind}</span>
+                  <span className="flex-1 truncate text-[var(--atlas-text-secondary)]" title={step.command}>
+                    {step.command}
+                  </span>
+                  {step.exit_code !== undefined && step.status !== 'passed' && (
+                    <span className="text-red-400">exit {step.exit_code}</span>
+                  )}
+                  {step.timed_out && <span className="text-yellow-400">timed out</span>}
+                  <span className="text-[var(--atlas-text-muted)] w-14 text-right">
+                    {formatDuration(step.duration_ms)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          {summary.finished_at && (
+            <div className="flex items-center justify-between border-t border-[var(--atlas-border-subtle)] pt-2">
+              <div className="text-[11px]">
+                <span className={counts.failed || counts.cancelled ? 'text-red-400' : 'text-green-400'}>
+                  {counts.passed}/{summary.steps.length} passed
+                </span>
+                {counts.failed > 0 && <span className="text-red-400"> · {counts.failed} failed</span>}
+                {counts.skipped > 0 && <span className="text-gray-500"> · {counts.skipped} skipped</span>}
+                {counts.cancelled > 0 && <span className="text-yellow-400"> · {counts.cancelled} cancelled</span>}
+                <span className="text-[var(--atlas-text-muted)]"> · {formatDuration(summary.duration_ms)}</span>
+              </div>
+              <button
+                onClick={handleAttach}
+                disabled={attached}
+                className="text-[11px] text-[var(--atlas-accent-primary)] hover:underline disabled:opacity-50 disabled:no-underline"
+                title="Attach this summary to your next message"
+              >
+                {attached ? 'Attached to chat' : 'Attach to chat'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
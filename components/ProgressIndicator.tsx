@@ -1,6 +1,8 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { atlasSocketUrl } from "@/lib/atlasSocket";
+import { trackAtlasSocket } from "@/lib/healthStore";
 
 interface ProgressUpdate {
   type: string;
@@ -35,8 +37,9 @@ export default function ProgressIndicator({ sessionId, onComplete }: ProgressInd
 
   useEffect(() => {
     // Connect to progress WebSocket
-    const wsUrl = `ws://localhost:8000/v1/progress/stream/${sessionId}`;
+    const wsUrl = atlasSocketUrl(`progress/stream/${encodeURIComponent(sessionId)}`);
     const websocket = new WebSocket(wsUrl);
+    const untrack = trackAtlasSocket(websocket, "Progress stream");
 
     websocket.onopen = () => {
       console.log("[ProgressIndicator] Connected to progress stream");
@@ -79,6 +82,7 @@ export default function ProgressIndicator({ sessionId, onComplete }: ProgressInd
     setWs(websocket);
 
     return () => {
+      untrack();
       if (websocket.readyState === WebSocket.OPEN) {
         websocket.close();
       }
@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useConsole } from './ConsoleProvider';
+import { useWorkspaceIndexStore } from '@/lib/workspaceIndex';
+import { fuzzyMatchPaths } from '@/lib/fileMentions';
+
+const MAX_RESULTS = 50;
+
+/**
+ * Ctrl+P "Go to file": fuzzy match over the workspace index. A trailing
+ * `:120` opens the file at that line.
+ */
+export default function QuickOpen() {
+  const { selectedFile, setSelectedFile, setActiveTab } = useConsole();
+  const paths = useWorkspaceIndexStore((state) => state.paths);
+  const status = useWorkspaceIndexStore((state) => state.status);
+  const truncated = useWorkspaceIndexStore((state) => state.truncated);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'p') {
+        e.preventDefault();
+        setOpen(true);
+        setQuery('');
+        setActiveIndex(0);
+        useWorkspaceIndexStore.getState().loadIndex();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const lineMatch = /^(.*?):(\d+)$/.exec(query.trim());
+  const pathQuery = lineMatch ? lineMatch[1] : query.trim();
+  const line = lineMatch ? parseInt(lineMatch[2], 10) : null;
+
+  const results = useMemo(() => {
+    if (!pathQuery) {
+      // Nothing typed yet: the open file first, then the index in order
+      const rest = paths.filter((p) => p !== selectedFile).slice(0, MAX_RESULTS - 1);
+      return selectedFile ? [selectedFile, ...rest] : rest;
+    }
+    return fuzzyMatchPaths(pathQuery, paths, MAX_RESULTS);
+  }, [pathQuery, paths, selectedFile]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!open) return null;
+
+  const close = () => setOpen(false);
+
+  const openPath = (path: string) => {
+    setSelectedFile(path, line && line > 0 ? { start: line, end: line } : null);
+    setActiveTab('code');
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openPath(results[activeIndex]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-center bg-black/30 pt-[12vh]" onMouseDown={close}>
+      <div
+        className="w-[36rem] max-w-[90vw] h-fit max-h-[60vh] flex flex-col bg-[#252526] border border-gray-700 rounded shadow-xl text-sm text-gray-200"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <input
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Go to file (append :line to jump to a line)"
+          className="m-2 px-2 py-1.5 bg-[#3c3c3c] text-gray-200 border border-blue-500 rounded focus:outline-none"
+          autoFocus
+        />
+        <ul ref={listRef} className="flex-1 overflow-auto pb-1">
+          {results.map((path, i) => {
+            const slash = path.lastIndexOf('/');
+            return (
+              <li
+                key={path}
+                onMouseEnter={() => setActiveIndex(i)}
+                onClick={() => openPath(path)}
+                className={`px-3 py-1 cursor-pointer flex items-baseline gap-2 ${
+                  i === activeIndex ? 'bg-[#094771]' : ''
+                }`}
+              >
+                <span className="truncate">{path.slice(slash + 1)}</span>
+                <span className="text-xs text-gray-500 truncate">{slash > 0 ? path.slice(0, slash) : ''}</span>
+                {path === selectedFile && <span className="ml-auto text-xs text-gray-500 shrink-0">open</span>}
+              </li>
+            );
+          })}
+          {results.length === 0 && (
+            <li className="px-3 py-2 text-xs text-gray-500">
+              {status === 'loading' || status === 'idle'
+                ? 'Indexing workspace files...'
+                : status === 'error'
+                  ? 'Could not index workspace files'
+                  : 'No matching files'}
+            </li>
+          )}
+        </ul>
+        {truncated && (
+          <div className="px-3 py-1 border-t border-gray-700 text-[11px] text-gray-500">
+            Large workspace: only part of it is indexed
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
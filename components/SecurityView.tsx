@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from "react";
 import { atlasChat } from "@/lib/atlasClient";
 import type { AtlasChatRequest } from "@/lib/types";
+import { useViewRequest } from "./ConsoleProvider";
 
 interface SecurityEvent {
     timestamp: string;
@@ -117,8 +118,11 @@ const SecurityView: React.FC = () => {
         }
     };
 
+    // Opened by /security: the request handler does the load
+    const requested = useViewRequest("security", () => fetchSecurityEvents());
+
     useEffect(() => {
-        fetchSecurityEvents();
+        if (!requested) fetchSecurityEvents();
     }, []);
 
     return (
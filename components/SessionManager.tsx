@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useConsole } from './ConsoleProvider';
+import {
+  archiveConsoleSession,
+  createConsoleSession,
+  deleteConsoleSession,
+  updateConsoleSession,
+} from '@/lib/atlasConsoleClient';
+import {
+  allSessionTags,
+  formatRelativeTime,
+  matchesSessionQuery,
+  parseTags,
+  sessionDisplayName,
+  sortByActivity,
+} from '@/lib/consoleSessions';
+import type { ConsoleSession } from '@/lib/types';
+
+interface SessionManagerProps {
+  onClose: () => void;
+  // Open with the new-session form showing
+  startCreating?: boolean;
+}
+
+const inputClass =
+  'w-full px-2 py-1 text-sm bg-[#3c3c3c] text-gray-200 border border-gray-600 rounded focus:outline-none focus:border-blue-500';
+const actionClass = 'text-xs text-gray-400 hover:text-gray-200 px-1.5 py-0.5 rounded hover:bg-[#3c3c3c] disabled:opacity-40';
+
+export default function SessionManager({ onClose, startCreating = false }: SessionManagerProps) {
+  const { sessions, activeSessionId, setActiveSessionId, refreshSessions, clearMessages } = useConsole();
+  const [query, setQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Rename / relabel
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editTags, setEditTags] = useState('');
+
+  // New session form
+  const [creating, setCreating] = useState(startCreating);
+  const [newName, setNewName] = useState('');
+  const [newProject, setNewProject] = useState('');
+  const [newRoot, setNewRoot] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const tags = useMemo(() => allSessionTags(sessions), [sessions]);
+  const projects = useMemo(
+    () => Array.from(new Set(sessions.map(s => s.project_id).filter((p): p is string => !!p))).sort(),
+    [sessions]
+  );
+  const rootPaths = useMemo(
+    () => Array.from(new Set(sessions.map(s => s.root_path).filter((p): p is string => !!p))).sort(),
+    [sessions]
+  );
+
+  const visible = useMemo(
+    () =>
+      sortByActivity(sessions).filter(
+        s =>
+          (showArchived || !s.archived) &&
+          (!tagFilter || (s.tags ?? []).includes(tagFilter)) &&
+          matchesSessionQuery(s, query)
+      ),
+    [sessions, showArchived, tagFilter, query]
+  );
+  const archivedCount = sessions.filter(s => s.archived).length;
+
+  // Run a backend action for one session, then reload the list
+  const runAction = async (sessionId: string, action: () => Promise<void>) => {
+    setBusyId(sessionId);
+    setActionError(null);
+    try {
+      await action();
+      await refreshSessions();
+    } catch (err: any) {
+      setActionError(err.message || 'Session action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (session: ConsoleSession) => {
+    setEditingId(session.session_id);
+    setEditName(session.name ?? '');
+    setEditTags((session.tags ?? []).join(', '));
+  };
+
+  const saveEdit = (sessionId: string) =>
+    runAction(sessionId, async () => {
+      await updateConsoleSession(sessionId, { name: editName.trim(), tags: parseTags(editTags) });
+      setEditingId(null);
+    });
+
+  const toggleArchived = (session: ConsoleSession) =>
+    runAction(session.session_id, async () => {
+      const archived = !session.archived;
+      await archiveConsoleSession(session.session_id, archived);
+      // An archived session stops being the one in use
+      if (archived && session.session_id === activeSessionId) setActiveSessionId(null);
+    });
+
+  const remove = (session: ConsoleSession) => {
+    const label = sessionDisplayName(session);
+    if (!window.confirm(`Delete session "${label}" and its history? This cannot be undone.`)) return;
+    runAction(session.session_id, async () => {
+      await deleteConsoleSession(session.session_id);
+      clearMessages(session.session_id);
+      if (session.session_id === activeSessionId) setActiveSessionId(null);
+    });
+  };
+
+  const open = (sessionId: string) => {
+    setActiveSessionId(sessionId);
+    onClose();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setActionError(null);
+    try {
+      const created = await createConsoleSession({
+        name: newName.trim() || undefined,
+        project_id: newProject.trim() || undefined,
+        root_path: newRoot.trim() || undefined,
+        tags: parseTags(newTags),
+      });
+      await refreshSessions();
+      open(created.session_id);
+    } catch (err: any) {
+      setActionError(err.message || 'Failed to create session');
+      console.error('Error creating session:', err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onMouseDown={onClose}>
+      <div
+        className="w-[40rem] max-w-[95vw] max-h-[85vh] flex flex-col bg-[#252526] border border-gray-700 rounded-lg shadow-xl text-gray-200"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <span className="text-sm font-semibold">Sessions</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCreating(prev => !prev)}
+              className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              + New Session
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white px-1" title="Close (Esc)">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {creating && (
+          <form onSubmit={handleCreate} className="px-4 py-3 border-b border-gray-700 grid grid-cols-2 gap-2 text-xs">
+            <label className="space-y-1">
+              <span className="text-gray-400">Name</span>
+              <input value={newName} onChange={e => setNewName(e.target.value)} className={inputClass} placeholder="Payment refactor" autoFocus />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-400">Tags</span>
+              <input value={newTags} onChange={e => setNewTags(e.target.value)} className={inputClass} placeholder="backend, urgent" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-400">Project ID</span>
+              <input value={newProject} onChange={e => setNewProject(e.target.value)} className={inputClass} list="session-projects" placeholder="Backend default" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-400">Root path</span>
+              <input value={newRoot} onChange={e => setNewRoot(e.target.value)} className={inputClass} list="session-roots" placeholder="Backend default" />
+            </label>
+            <datalist id="session-projects">
+              {projects.map(p => <option key={p} value={p} />)}
+            </datalist>
+            <datalist id="session-roots">
+              {rootPaths.map(p => <option key={p} value={p} />)}
+            </datalist>
+            <div className="col-span-2 flex justify-end gap-2">
+              <button type="button" onClick={() => setCreating(false)} className={actionClass}>
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Creating...' : 'Create'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="px-4 py-2 border-b border-gray-700 space-y-2">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            className={inputClass}
+            placeholder="Search name, project, path... (tag:x, project:x)"
+            autoFocus={!startCreating}
+          />
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(prev => (prev === tag ? null : tag))}
+                  className={`px-1.5 py-0.5 rounded ${
+                    tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-[#3c3c3c] text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-1 text-gray-400 shrink-0">
+              <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+              Show archived ({archivedCount})
+            </label>
+          </div>
+        </div>
+
+        {actionError && (
+          <div className="px-4 py-2 text-xs bg-red-900/20 border-b border-red-800 text-red-400">{actionError}</div>
+        )}
+
+        <ul className="flex-1 overflow-auto divide-y divide-gray-700/60">
+          {visible.length === 0 && (
+            <li className="px-4 py-6 text-center text-xs text-gray-500">
+              {sessions.length === 0 ? 'No sessions yet' : 'No sessions match'}
+            </li>
+          )}
+          {visible.map(session => {
+            const id = session.session_id;
+            const active = id === activeSessionId;
+            const busy = busyId === id;
+            return (
+              <li key={id} className={`px-4 py-2 text-xs ${active ? 'bg-[#2a2d2e]' : ''} ${session.archived ? 'opacity-60' : ''}`}>
+                {editingId === id ? (
+                  <div className="space-y-1.5">
+                    <input value={editName} onChange={e => setEditName(e.target.value)} className={inputClass} placeholder="Session name" autoFocus />
+                    <input value={editTags} onChange={e => setEditTags(e.target.value)} className={inputClass} placeholder="Tags, comma separated" />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditingId(null)} className={actionClass}>
+                        Cancel
+                      </button>
+                      <button onClick={() => saveEdit(id)} disabled={busy} className="px-2 py-0.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40">
+                        {busy ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-gray-100 truncate">{sessionDisplayName(session)}</span>
+                        <span className="font-mono text-gray-500" title={id}>{id.slice(0, 8)}</span>
+                        {active && <span className="px-1 rounded bg-blue-900/60 text-blue-300">active</span>}
+                        {session.archived && <span className="px-1 rounded bg-gray-700 text-gray-300">archived</span>}
+                      </div>
+                      <div className="text-gray-400 truncate" title={session.root_path}>
+                        {session.project_id || 'no project'} · {session.root_path || 'default root'}
+                      </div>
+                      <div className="text-gray-500">
+                        updated {formatRelativeTime(session.updated_at ?? session.created_at)} · created{' '}
+                        {formatRelativeTime(session.created_at)}
+                      </div>
+                      {session.tags && session.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 pt-0.5">
+                          {session.tags.map(tag => (
+                            <span key={tag} className="px-1.5 rounded bg-[#3c3c3c] text-gray-300">#{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-0.5 shrink-0">
+                      {!active && !session.archived && (
+                        <button onClick={() => open(id)} disabled={busy} className={actionClass}>
+                          Open
+                        </button>
+                      )}
+                      <button onClick={() => startEditing(session)} disabled={busy} className={actionClass}>
+                        Rename
+                      </button>
+                      <button onClick={() => toggleArchived(session)} disabled={busy} className={actionClass}>
+                        {session.archived ? 'Restore' : 'Archive'}
+                      </button>
+                      <button onClick={() => remove(session)} disabled={busy} className={`${actionClass} hover:text-red-400`}>
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
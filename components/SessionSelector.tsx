@@ -1,33 +1,29 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useConsole } from './ConsoleProvider';
-import { createConsoleSession } from '@/lib/atlasConsoleClient';
+import SessionManager from './SessionManager';
+import { formatRelativeTime, sessionDisplayName, sortByActivity } from '@/lib/consoleSessions';
 
 export default function SessionSelector() {
-  const { sessions, activeSessionId, loadingSessions, error, refreshSessions, setActiveSessionId } = useConsole();
-  const [creating, setCreating] = useState(false);
-  const [createError, setCreateError] = useState<string | null>(null);
+  const { sessions, activeSessionId, loadingSessions, error, setActiveSessionId } = useConsole();
+  // Closed, or open with the list / the new-session form
+  const [manager, setManager] = useState<'closed' | 'list' | 'create'>('closed');
 
-  const handleCreateSession = async () => {
-    setCreating(true);
-    setCreateError(null);
-    try {
-      await createConsoleSession({});
-      await refreshSessions();
-    } catch (err: any) {
-      setCreateError(err.message || 'Failed to create session');
-      console.error('Error creating session:', err);
-    } finally {
-      setCreating(false);
-    }
-  };
+  const active = sessions.find(s => s.session_id === activeSessionId);
+  // Quick switching lists live sessions only; archived ones are in the manager
+  const switchable = useMemo(() => sortByActivity(sessions.filter(s => !s.archived)), [sessions]);
 
   return (
     <div className="p-4 border-b border-gray-700">
-      <div className="mb-2 text-xs font-semibold text-gray-400 uppercase">Console Session</div>
-      
-      {loadingSessions ? (
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-400 uppercase">Console Session</span>
+        <button onClick={() => setManager('list')} className="text-xs text-gray-400 hover:text-gray-200">
+          Manage
+        </button>
+      </div>
+
+      {loadingSessions && sessions.length === 0 ? (
         <div className="text-sm text-gray-400">Loading sessions...</div>
       ) : error ? (
         <div className="text-sm text-red-400">{error}</div>
@@ -38,29 +34,47 @@ export default function SessionSelector() {
             onChange={(e) => setActiveSessionId(e.target.value || null)}
             className="w-full px-2 py-1 text-sm bg-[#3c3c3c] text-gray-200 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
           >
-            {sessions.length === 0 && (
+            {switchable.length === 0 && !active && (
               <option value="">No sessions available</option>
             )}
-            {sessions.map((s) => (
+            {active?.archived && (
+              <option value={active.session_id}>{sessionDisplayName(active)} (archived)</option>
+            )}
+            {switchable.map((s) => (
               <option key={s.session_id} value={s.session_id}>
-                {s.session_id}
+                {sessionDisplayName(s)}{s.project_id ? ` · ${s.project_id}` : ''}
               </option>
             ))}
           </select>
 
+          {active && (
+            <div className="mt-1.5 space-y-0.5 text-xs text-gray-500">
+              <div className="truncate" title={active.root_path}>
+                {active.project_id || 'no project'} · {active.root_path || 'default root'}
+              </div>
+              <div>Updated {formatRelativeTime(active.updated_at ?? active.created_at)}</div>
+              {active.tags && active.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {active.tags.map(tag => (
+                    <span key={tag} className="px-1.5 rounded bg-[#3c3c3c] text-gray-300">#{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <button
-            onClick={handleCreateSession}
-            disabled={creating}
-            className="mt-2 w-full px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+            onClick={() => setManager('create')}
+            className="mt-2 w-full px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
           >
-            {creating ? 'Creating...' : '+ New Session'}
+            + New Session
           </button>
-
-          {createError && (
-            <div className="mt-2 text-xs text-red-400">{createError}</div>
-          )}
         </>
       )}
+
+      {manager !== 'closed' && (
+        <SessionManager onClose={() => setManager('closed')} startCreating={manager === 'create'} />
+      )}
     </div>
   );
 }
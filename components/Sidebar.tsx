@@ -3,15 +3,22 @@
 import React, { useState, useEffect } from "react";
 import SessionSelector from "./SessionSelector";
 import ConsoleFileExplorer from "./ConsoleFileExplorer";
+import AssumptionsPanel from "./AssumptionsPanel";
+import WorkspaceSearchPanel from "./WorkspaceSearchPanel";
 import { useConsole } from "./ConsoleProvider";
 
 const SIDEBAR_WIDTH_KEY = "atlas_console_sidebar_width";
 const DEFAULT_SIDEBAR_WIDTH = 256;
 
+type SidebarView = "files" | "search";
+
 const Sidebar: React.FC = () => {
   const { setSelectedFile, selectedFile } = useConsole();
   const [width, setWidth] = useState<number>(DEFAULT_SIDEBAR_WIDTH);
   const [isResizing, setIsResizing] = useState(false);
+  const [view, setView] = useState<SidebarView>("files");
+  // Bumped by Ctrl+Shift+F so the search input takes focus again
+  const [searchFocusKey, setSearchFocusKey] = useState(0);
 
   // Load initial width from localStorage on mount
   useEffect(() => {
@@ -35,6 +42,19 @@ const Sidebar: React.FC = () => {
     window.localStorage.setItem(SIDEBAR_WIDTH_KEY, String(width));
   }, [width]);
 
+  // Ctrl/Cmd+Shift+F: search the workspace
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        setView("search");
+        setSearchFocusKey((key) => key + 1);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   // Resize handlers
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -70,15 +90,35 @@ const Sidebar: React.FC = () => {
       <div className="flex flex-col h-full w-full text-sm text-gray-200">
         <SessionSelector />
 
-        <div className="px-3 py-2 border-b border-gray-700 font-semibold">
-          Workspace Files
+        <div className="flex border-b border-gray-700 font-semibold">
+          {([
+            ["files", "Workspace Files"],
+            ["search", "Search"],
+          ] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              title={id === "search" ? "Search workspace (Ctrl+Shift+F)" : undefined}
+              className={`px-3 py-2 border-b-2 ${
+                view === id ? "border-blue-500 text-white" : "border-transparent text-gray-400 hover:text-gray-200"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
-        <div className="flex-1 overflow-auto">
+        {/* Both stay mounted so switching keeps the tree and search results */}
+        <div className={`flex-1 overflow-auto ${view === "files" ? "" : "hidden"}`}>
           <ConsoleFileExplorer 
             onFileSelect={setSelectedFile}
             selectedFile={selectedFile || undefined}
           />
         </div>
+        <div className={`flex-1 min-h-0 ${view === "search" ? "" : "hidden"}`}>
+          <WorkspaceSearchPanel focusKey={searchFocusKey} />
+        </div>
+
+        <AssumptionsPanel />
       </div>
 
       {/* Resize Handle */}
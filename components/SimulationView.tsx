@@ -3,6 +3,8 @@
 import React, { useState } from "react";
 import { atlasChat } from "@/lib/atlasClient";
 import type { AtlasChatRequest } from "@/lib/types";
+import { Markdown } from "./Markdown";
+import { useViewRequest } from "./ConsoleProvider";
 
 const SimulationView: React.FC = () => {
   const [goal, setGoal] = useState("");
@@ -10,8 +12,8 @@ const SimulationView: React.FC = () => {
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
-  const runSimulation = async () => {
-    const trimmed = goal.trim();
+  const runSimulation = async (goalText = goal) => {
+    const trimmed = goalText.trim();
     if (!trimmed || loading) return;
 
     setLoading(true);
@@ -36,6 +38,13 @@ const SimulationView: React.FC = () => {
     }
   };
 
+  // /simulate <goal> fills in the goal and runs it
+  useViewRequest("simulation", (args) => {
+    if (!args.goal) return;
+    setGoal(args.goal);
+    runSimulation(args.goal);
+  });
+
   return (
     <div className="h-full w-full p-4 text-sm text-gray-200 flex flex-col">
       <div className="flex items-center justify-between mb-2">
@@ -57,7 +66,7 @@ const SimulationView: React.FC = () => {
         </label>
         <button
           className="self-start bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
-          onClick={runSimulation}
+          onClick={() => runSimulation()}
           disabled={loading}
         >
           Run simulation
@@ -77,8 +86,8 @@ const SimulationView: React.FC = () => {
       )}
 
       {!error && (
-        <div className="mt-2 flex-1 border border-gray-700 rounded bg-[#1e1e1e] text-xs overflow-auto p-3 whitespace-pre-wrap font-mono">
-          {output}
+        <div className="mt-2 flex-1 border border-gray-700 rounded bg-[#1e1e1e] text-xs overflow-auto p-3">
+          <Markdown content={output} />
         </div>
       )}
     </div>
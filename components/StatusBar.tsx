@@ -1,15 +1,156 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { useConsole } from "./ConsoleProvider";
+import HealthDot, { HEALTH_LABELS } from "./HealthDot";
+import { HealthStatus, SocketHealth, overallStatus, useHealthStore } from "@/lib/healthStore";
+import { EMPTY_ASSUMPTION_STATE, useAssumptionStore } from "@/lib/assumptionStore";
+import { sessionDisplayName } from "@/lib/consoleSessions";
+
+const SOCKET_DOT: Record<SocketHealth["state"], HealthStatus> = {
+  connecting: "checking",
+  open: "healthy",
+  closed: "degraded",
+  error: "down",
+};
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleTimeString() : "—");
+
+const socketPath = (url: string) => {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+};
 
 const StatusBar: React.FC = () => {
+  const { sessions, activeSessionId } = useConsole();
+  const backend = useHealthStore((state) => state.backend);
+  const socketMap = useHealthStore((state) => state.sockets);
+  const { strict } = useAssumptionStore((state) =>
+    activeSessionId ? state.bySession[activeSessionId] ?? EMPTY_ASSUMPTION_STATE : EMPTY_ASSUMPTION_STATE
+  );
+  const [open, setOpen] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const session = sessions.find((s) => s.session_id === activeSessionId);
+  const sockets = Object.values(socketMap);
+  const status = overallStatus(backend, sockets);
+
+  useEffect(() => useHealthStore.getState().startPolling(), []);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => e.key === "Escape" && setOpen(false);
+    document.addEventListener("pointerdown", onPointerDown);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("pointerdown", onPointerDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [open]);
+
+  const checkNow = async () => {
+    setChecking(true);
+    await useHealthStore.getState().checkBackend();
+    setChecking(false);
+  };
+
   return (
     <div className="h-6 bg-[#007acc] text-xs text-white flex items-center px-3 justify-between">
       <div>ATLAS Web Console</div>
-      <div className="flex gap-4">
-        <span>Project: atlas_core</span>
-        <span>Mode: Normal</span>
-        <span>ATLAS API: Connected (live)</span>
+      <div className="flex items-center gap-4">
+        <span title={session?.root_path}>Project: {session?.project_id || "—"}</span>
+        <span title={activeSessionId || undefined}>
+          Session: {session ? sessionDisplayName(session) : activeSessionId ? activeSessionId.slice(0, 8) : "none"}
+        </span>
+        <span>Mode: {strict ? "Strict" : "Normal"}</span>
+
+        <div ref={popoverRef} className="relative">
+          <button
+            onClick={() => setOpen((prev) => !prev)}
+            className="flex items-center gap-1.5 px-1.5 rounded hover:bg-white/15"
+            title="Connection details"
+          >
+            <HealthDot status={status} />
+            ATLAS API: {HEALTH_LABELS[status]}
+            {backend.latency_ms !== undefined && backend.status !== "down" && (
+              <span className="opacity-80">({backend.latency_ms} ms)</span>
+            )}
+          </button>
+
+          {open && (
+            <div className="absolute right-0 bottom-7 z-50 w-80 rounded border border-gray-700 bg-[#252526] text-gray-200 shadow-lg p-3 space-y-3">
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-semibold">ATLAS Core</span>
+                  <button
+                    onClick={checkNow}
+                    disabled={checking}
+                    className="text-[11px] px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    {checking ? "Checking..." : "Check now"}
+                  </button>
+                </div>
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-[11px]">
+                  <span className="text-gray-400">Status</span>
+                  <span className="flex items-center gap-1.5">
+                    <HealthDot status={backend.status} />
+                    {HEALTH_LABELS[backend.status]}
+                  </span>
+                  {backend.detail && (
+                    <>
+                      <span className="text-gray-400">Detail</span>
+                      <span className="break-words">{backend.detail}</span>
+                    </>
+                  )}
+                  <span className="text-gray-400">Latency</span>
+                  <span>{backend.latency_ms !== undefined ? `${backend.latency_ms} ms` : "—"}</span>
+                  <span className="text-gray-400">Version</span>
+                  <span>{backend.version || "unknown"}</span>
+                  <span className="text-gray-400">HTTP</span>
+                  <span>{backend.http_status ?? "—"}</span>
+                  <span className="text-gray-400">Checked</span>
+                  <span>{formatTime(backend.checked_at)}</span>
+                </div>
+              </div>
+
+              <div>
+                <div className="font-semibold mb-1">Streams</div>
+                {sockets.length === 0 ? (
+                  <div className="text-[11px] text-gray-500">No WebSocket connections open</div>
+                ) : (
+                  <ul className="space-y-1.5 text-[11px]">
+                    {sockets.map((socket) => (
+                      <li key={socket.id}>
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex items-center gap-1.5">
+                            <HealthDot status={SOCKET_DOT[socket.state]} />
+                            {socket.label}
+                          </span>
+                          <span className="text-gray-400">
+                            {socket.state} since {formatTime(socket.since)}
+                          </span>
+                        </div>
+                        <div className="pl-3.5 text-gray-500 font-mono truncate" title={socket.url}>
+                          {socketPath(socket.url)}
+                          {socket.last_message_at && (
+                            <span className="font-sans"> · last message {formatTime(socket.last_message_at)}</span>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,16 +1,38 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { useConsole } from "./ConsoleProvider";
+import TerminalSession from "./TerminalSession";
+import { TerminalStatus, useTerminalStore } from "@/lib/terminalStore";
+
+const statusColor: Record<TerminalStatus, string> = {
+  connecting: "bg-yellow-500",
+  open: "bg-green-500",
+  closed: "bg-gray-500",
+  error: "bg-red-500",
+};
 
 const TerminalPanel: React.FC = () => {
-  const [isCollapsed, setIsCollapsed] = useState(true);
+  const { sessions, activeSessionId } = useConsole();
+  const { tabs, activeTabId, panelOpen, openTab, closeTab, setActiveTab, setPanelOpen } =
+    useTerminalStore();
   const [height, setHeight] = useState(300);
   const [isResizing, setIsResizing] = useState(false);
+  const isCollapsed = !panelOpen;
+
+  const rootPath = sessions.find(s => s.session_id === activeSessionId)?.root_path;
 
   const toggleCollapse = () => {
-    setIsCollapsed(!isCollapsed);
+    setPanelOpen(!panelOpen);
   };
 
+  // Expanding an empty panel starts a shell in the session root
+  useEffect(() => {
+    if (panelOpen && tabs.length === 0) {
+      openTab(rootPath);
+    }
+  }, [panelOpen, tabs.length, rootPath, openTab]);
+
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     setIsResizing(true);
@@ -64,9 +86,39 @@ const TerminalPanel: React.FC = () => {
             {isCollapsed ? '▲' : '▼'}
           </button>
           <span className="text-xs text-gray-300 font-medium">Terminal</span>
+          {!isCollapsed && (
+            <div className="flex items-center gap-1 ml-2 overflow-x-auto">
+              {tabs.map(tab => (
+                <div
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`group flex items-center gap-1.5 px-2 py-0.5 rounded text-xs cursor-pointer ${
+                    tab.id === activeTabId
+                      ? "bg-[#1e1e1e] text-gray-200"
+                      : "text-gray-400 hover:bg-[#2a2d2e]"
+                  }`}
+                  title={tab.error || tab.cwd || tab.title}
+                >
+                  <span className={`w-1.5 h-1.5 rounded-full ${statusColor[tab.status]}`} />
+                  <span className="whitespace-nowrap">{tab.title}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      closeTab(tab.id);
+                    }}
+                    className="text-gray-500 hover:text-gray-200 opacity-0 group-hover:opacity-100"
+                    title="Kill Terminal"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <button
+            onClick={() => openTab(rootPath)}
             className="text-xs text-gray-400 hover:text-gray-200 px-2 py-0.5 rounded hover:bg-[#2a2d2e]"
             title="New Terminal"
           >
@@ -75,30 +127,20 @@ const TerminalPanel: React.FC = () => {
         </div>
       </div>
 
-      {/* Terminal content */}
-      {!isCollapsed && (
-        <div className="flex-1 overflow-auto p-3 font-mono text-xs text-gray-300">
-          <div className="text-green-400">$ atlas --version</div>
-          <div className="text-gray-400 mt-1">ATLAS Core v0.1.0</div>
-          <div className="text-gray-400">Autonomous Technical Logic & Analysis System</div>
-          <div className="flex items-center mt-3">
-            <span className="text-green-400">$ </span>
-            <input
-              type="text"
-              className="flex-1 bg-transparent border-none outline-none text-gray-300 ml-1"
-              placeholder="Type command..."
-              autoFocus
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  // TODO: Handle command execution
-                  console.log('Command:', e.currentTarget.value);
-                  e.currentTarget.value = '';
-                }
-              }}
-            />
-          </div>
-        </div>
-      )}
+      {/* Terminal content: sessions stay mounted while collapsed */}
+      <div
+        className="flex-1 min-h-0 overflow-hidden"
+        style={{ display: isCollapsed ? "none" : "block" }}
+      >
+        {tabs.map(tab => (
+          <TerminalSession
+            key={tab.id}
+            tabId={tab.id}
+            cwd={tab.cwd}
+            visible={!isCollapsed && tab.id === activeTabId}
+          />
+        ))}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef } from "react";
+import "@xterm/xterm/css/xterm.css";
+import { fetchTerminalToken } from "@/lib/atlasConsoleClient";
+import { atlasSocketUrl } from "@/lib/atlasSocket";
+import { trackAtlasSocket } from "@/lib/healthStore";
+import { useTerminalStore } from "@/lib/terminalStore";
+
+interface TerminalSessionProps {
+  tabId: string;
+  cwd?: string;
+  visible: boolean;
+}
+
+type TerminalServerMessage =
+  | { type: "output"; data: string }
+  | { type: "exit"; exit_code: number; signal?: number }
+  | { type: "error"; error: string };
+
+/**
+ * One xterm.js instance attached to a PTY on the terminal sidecar.
+ * Stays mounted while its tab exists so scrollback survives tab switches.
+ */
+const TerminalSession: React.FC<TerminalSessionProps> = ({ tabId, cwd, visible }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const fitRef = useRef<(() => void) | null>(null);
+  const pendingCount = useTerminalStore(state => state.pendingInput[tabId]?.length ?? 0);
+
+  const send = useCallback((message: object) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }, []);
+
+  const flushPendingInput = useCallback(() => {
+    if (socketRef.current?.readyState !== WebSocket.OPEN) return;
+    const { takePendingInput } = useTerminalStore.getState();
+    takePendingInput(tabId).forEach(data => send({ type: "input", data }));
+  }, [tabId, send]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let disposed = false;
+    let cleanup = () => {};
+
+    // xterm touches `window` on import, so load it on the client only
+    (async () => {
+      const [{ Terminal }, { FitAddon }] = await Promise.all([
+        import("@xterm/xterm"),
+        import("@xterm/addon-fit"),
+      ]);
+      if (disposed) return;
+
+      const { updateTab } = useTerminalStore.getState();
+      const term = new Terminal({
+        cursorBlink: true,
+        scrollback: 10000,
+        fontSize: 12,
+        fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+        theme: { background: "#1e1e1e", foreground: "#d4d4d4" },
+      });
+      const fitAddon = new FitAddon();
+      term.loadAddon(fitAddon);
+      term.open(container);
+
+      const fit = () => {
+        // Hidden tabs have no size; fit them when they become visible
+        if (container.clientWidth === 0 || container.clientHeight === 0) return;
+        fitAddon.fit();
+      };
+      fitRef.current = fit;
+      fit();
+      cleanup = () => {
+        term.dispose();
+        fitRef.current = null;
+      };
+
+      let token: string;
+      try {
+        token = await fetchTerminalToken();
+      } catch (err: any) {
+        if (disposed) return;
+        term.write(`\x1b[31m${err.message}\x1b[0m\r\n`);
+        updateTab(tabId, { status: "error", error: err.message });
+        return;
+      }
+      if (disposed) return;
+
+      const socket = new WebSocket(
+        atlasSocketUrl("terminal", { token, cwd, cols: term.cols, rows: term.rows })
+      );
+      socketRef.current = socket;
+      const untrack = trackAtlasSocket(socket, "Terminal");
+
+      socket.onopen = () => {
+        updateTab(tabId, { status: "open" });
+        send({ type: "resize", cols: term.cols, rows: term.rows });
+        flushPendingInput();
+      };
+
+      socket.onmessage = (event) => {
+        let message: TerminalServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (message.type === "output") {
+          term.write(message.data);
+        } else if (message.type === "exit") {
+          term.write(`\r\n\x1b[90m[process exited with code ${message.exit_code}]\x1b[0m\r\n`);
+          updateTab(tabId, { status: "closed", exitCode: message.exit_code });
+        } else if (message.type === "error") {
+          term.write(`\r\n\x1b[31m${message.error}\x1b[0m\r\n`);
+          updateTab(tabId, { status: "error", error: message.error });
+        }
+      };
+
+      socket.onerror = () => {
+        updateTab(tabId, { status: "error", error: "Terminal connection failed" });
+      };
+
+      socket.onclose = () => {
+        const tab = useTerminalStore.getState().tabs.find(t => t.id === tabId);
+        if (tab && tab.status !== "error") {
+          updateTab(tabId, { status: "closed" });
+        }
+      };
+
+      const inputListener = term.onData(data => send({ type: "input", data }));
+      const resizeListener = term.onResize(({ cols, rows }) => send({ type: "resize", cols, rows }));
+
+      const observer = new ResizeObserver(() => fit());
+      observer.observe(container);
+
+      cleanup = () => {
+        untrack();
+        observer.disconnect();
+        inputListener.dispose();
+        resizeListener.dispose();
+        socket.onclose = null;
+        socket.close();
+        term.dispose();
+        socketRef.current = null;
+        fitRef.current = null;
+      };
+    })();
+
+    return () => {
+      disposed = true;
+      cleanup();
+    };
+    // One connection per tab: cwd is fixed when the tab is created
+  }, [tabId, cwd, send, flushPendingInput]);
+
+  // Input queued by "Run in terminal" after the socket opened
+  useEffect(() => {
+    if (pendingCount > 0) flushPendingInput();
+  }, [pendingCount, flushPendingInput]);
+
+  useEffect(() => {
+    if (visible) fitRef.current?.();
+  }, [visible]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-full w-full px-2 pt-1"
+      style={{ display: visible ? "block" : "none" }}
+    />
+  );
+};
+
+export default TerminalSession;
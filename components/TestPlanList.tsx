@@ -2,6 +2,8 @@
 
 import React, { useState } from 'react';
 import { TestInstruction } from '@/lib/types';
+import { CommandRunHistory, useCommandRuns } from './CommandRunHistory';
+import { TEST_TIMEOUT_SECONDS } from '@/lib/commandRunStore';
 
 interface TestPlanListProps {
   tests: TestInstruction[];
@@ -12,41 +14,21 @@ interface TestItemProps {
   index: number;
 }
 
-type TestStatus = 'pending' | 'running' | 'passed' | 'failed';
+type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'cancelled';
 
 function TestItem({ test, index }: TestItemProps) {
-  const [status, setStatus] = useState<TestStatus>('pending');
-  const [output, setOutput] = useState<string>('');
   const [expanded, setExpanded] = useState(false);
+  const { runs, latest, running, cancellable, run, cancel, clear } = useCommandRuns(test.command);
 
-  const handleRun = async () => {
-    setStatus('running');
-    setOutput('');
-    setExpanded(true);
-
-    try {
-      const res = await fetch('/api/console/commands/run', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          command: test.command,
-          timeout: 120, // Tests might take longer
-        }),
-      });
-
-      const data = await res.json();
+  const status: TestStatus = !latest
+    ? 'pending'
+    : latest.status === 'success'
+      ? 'passed'
+      : latest.status;
 
-      if (res.ok && data.exit_code === 0) {
-        setStatus('passed');
-        setOutput(data.stdout || 'Test passed');
-      } else {
-        setStatus('failed');
-        setOutput(data.stderr || data.stdout || data.error || 'Test failed');
-      }
-    } catch (err: any) {
-      setStatus('failed');
-      setOutput(err.message || 'Network error');
-    }
+  const handleRun = () => {
+    setExpanded(true);
+    void run(TEST_TIMEOUT_SECONDS);
   };
 
   const getStatusBadge = () => {
@@ -59,6 +41,8 @@ function TestItem({ test, index }: TestItemProps) {
         return <span className="px-2 py-1 text-xs bg-green-600 text-white rounded">✓ Passed</span>;
       case 'failed':
         return <span className="px-2 py-1 text-xs bg-red-600 text-white rounded">✗ Failed</span>;
+      case 'cancelled':
+        return <span className="px-2 py-1 text-xs bg-yellow-600 text-white rounded">Cancelled</span>;
     }
   };
 
@@ -88,16 +72,29 @@ function TestItem({ test, index }: TestItemProps) {
         </div>
 
         <div className="flex items-center gap-2 ml-4">
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              handleRun();
-            }}
-            disabled={status === 'running'}
-            className="px-3 py-1 text-xs bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            {status === 'running' ? 'Running...' : 'Run Test'}
-          </button>
+          {running ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                cancel();
+              }}
+              disabled={!cancellable}
+              title={cancellable ? undefined : 'This run cannot be cancelled'}
+              className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleRun();
+              }}
+              className="px-3 py-1 text-xs bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors"
+            >
+              {latest ? 'Run Again' : 'Run Test'}
+            </button>
+          )}
           <svg
             className={`w-5 h-5 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`}
             fill="none"
@@ -110,18 +107,7 @@ function TestItem({ test, index }: TestItemProps) {
       </div>
 
       {/* Expanded Output */}
-      {expanded && output && (
-        <div className="border-t border-gray-700 px-4 py-3">
-          <div className="text-xs font-semibold text-gray-400 mb-2">Test Output:</div>
-          <div className="bg-black rounded p-3 overflow-x-auto">
-            <pre className={`text-xs font-mono whitespace-pre-wrap ${
-              status === 'passed' ? 'text-green-300' : status === 'failed' ? 'text-red-300' : 'text-gray-300'
-            }`}>
-              {output}
-            </pre>
-          </div>
-        </div>
-      )}
+      {expanded && <CommandRunHistory runs={runs} onClear={clear} />}
     </div>
   );
 }
@@ -38,7 +38,7 @@ export default function Timeline({ onTraceSelect, onPlaybackSpeed }: TimelinePro
 
   const fetchTraces = async () => {
     try {
-      const response = await fetch('http://localhost:8000/v1/telemetry/traces/recent?limit=100');
+      const response = await fetch('/api/telemetry/traces/recent?limit=100');
       if (response.ok) {
         const data = await response.json();
         const traceData = data.traces || [];
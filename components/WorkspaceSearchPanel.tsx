@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useConsole } from './ConsoleProvider';
+import { searchWorkspace } from '@/lib/atlasConsoleClient';
+import { isAbortError } from '@/lib/request';
+import {
+  WorkspaceSearchMatch,
+  WorkspaceSearchResponse,
+  compileSearchPattern,
+  groupMatchesByFile,
+  parseGlobList,
+} from '@/lib/workspaceSearch';
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+const inputClass =
+  'w-full px-2 py-1 text-xs bg-[#3c3c3c] text-gray-200 border border-gray-600 rounded focus:outline-none focus:border-blue-500';
+
+interface ToggleProps {
+  active: boolean;
+  onClick: () => void;
+  title: string;
+  children: React.ReactNode;
+}
+
+const Toggle: React.FC<ToggleProps> = ({ active, onClick, title, children }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`px-1 rounded text-[11px] font-mono ${
+      active ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-gray-200 hover:bg-[#3c3c3c]'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const MatchText: React.FC<{ match: WorkspaceSearchMatch }> = ({ match }) => {
+  // Leading indentation is noise in a result list
+  const indent = match.text.length - match.text.trimStart().length;
+  const start = Math.max(indent, 0);
+  const column = Math.max(match.column, start);
+  return (
+    <>
+      {match.text.slice(start, column)}
+      <mark className="bg-yellow-600/60 text-white rounded-sm">{match.text.slice(column, match.column + match.length)}</mark>
+      {match.text.slice(match.column + match.length)}
+    </>
+  );
+};
+
+interface WorkspaceSearchPanelProps {
+  // Focuses the query input whenever it changes
+  focusKey?: number;
+}
+
+export default function WorkspaceSearchPanel({ focusKey = 0 }: WorkspaceSearchPanelProps) {
+  const { setSelectedFile, setActiveTab } = useConsole();
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [result, setResult] = useState<WorkspaceSearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Invalid regexes are reported here instead of round-tripping to the server
+  const patternError = useMemo(() => {
+    if (!regex || !query) return null;
+    try {
+      compileSearchPattern({ query, regex });
+      return null;
+    } catch (err: any) {
+      return err.message as string;
+    }
+  }, [query, regex]);
+
+  useEffect(() => {
+    if (focusKey > 0) inputRef.current?.select();
+  }, [focusKey]);
+
+  useEffect(() => {
+    if (!query || patternError) {
+      setResult(null);
+      setError(null);
+      setSearching(false);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+      try {
+        const response = await searchWorkspace(
+          {
+            query,
+            regex,
+            case_sensitive: caseSensitive,
+            whole_word: wholeWord,
+            include: parseGlobList(include),
+            exclude: parseGlobList(exclude),
+          },
+          controller.signal
+        );
+        setResult(response);
+        setCollapsed(new Set());
+      } catch (err: any) {
+        if (isAbortError(err)) return;
+        setError(err.message || 'Search failed');
+        setResult(null);
+      } finally {
+        if (!controller.signal.aborted) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, regex, caseSensitive, wholeWord, include, exclude, patternError]);
+
+  const groups = useMemo(() => groupMatchesByFile(result?.matches ?? []), [result]);
+
+  const openMatch = (match: WorkspaceSearchMatch) => {
+    setSelectedFile(match.path, { start: match.line, end: match.line });
+    setActiveTab('code');
+  };
+
+  const toggleGroup = (path: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  return (
+    <div className="h-full flex flex-col text-xs text-gray-200">
+      <div className="p-2 space-y-1.5 border-b border-gray-700">
+        <div className="relative">
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search"
+            className={`${inputClass} pr-20`}
+          />
+          <div className="absolute right-1 top-1/2 -translate-y-1/2 flex gap-0.5">
+            <Toggle active={caseSensitive} onClick={() => setCaseSensitive((v) => !v)} title="Match case">
+              Aa
+            </Toggle>
+            <Toggle active={wholeWord} onClick={() => setWholeWord((v) => !v)} title="Match whole word">
+              ab
+            </Toggle>
+            <Toggle active={regex} onClick={() => setRegex((v) => !v)} title="Use regular expression">
+              .*
+            </Toggle>
+          </div>
+        </div>
+        <input
+          value={include}
+          onChange={(e) => setInclude(e.target.value)}
+          placeholder="files to include (e.g. src, *.ts)"
+          className={inputClass}
+        />
+        <input
+          value={exclude}
+          onChange={(e) => setExclude(e.target.value)}
+          placeholder="files to exclude (e.g. *.test.ts)"
+          className={inputClass}
+        />
+        {(patternError || error) && <div className="text-red-400 break-words">{patternError || error}</div>}
+        {result && !error && (
+          <div className="text-gray-500">
+            {result.matches.length}
+            {result.truncated ? '+' : ''} result{result.matches.length === 1 ? '' : 's'} in {groups.length} file
+            {groups.length === 1 ? '' : 's'}
+            {result.source === 'local' ? ' (local search)' : ''}
+          </div>
+        )}
+        {searching && <div className="text-gray-500">Searching...</div>}
+      </div>
+
+      <div className="flex-1 overflow-auto py-1">
+        {groups.map((group) => {
+          const isCollapsed = collapsed.has(group.path);
+          const slash = group.path.lastIndexOf('/');
+          return (
+            <div key={group.path}>
+              <div
+                onClick={() => toggleGroup(group.path)}
+                className="flex items-center gap-1 px-2 py-0.5 cursor-pointer hover:bg-[#2a2d2e]"
+                title={group.path}
+              >
+                <span className="text-gray-400 text-[10px] w-3">{isCollapsed ? '▶' : '▼'}</span>
+                <span className="truncate">{group.path.slice(slash + 1)}</span>
+                <span className="text-gray-500 truncate">{slash > 0 ? group.path.slice(0, slash) : ''}</span>
+                <span className="ml-auto shrink-0 px-1.5 rounded-full bg-[#3c3c3c] text-gray-300">{group.matches.length}</span>
+              </div>
+              {!isCollapsed &&
+                group.matches.map((match, i) => (
+                  <div
+                    key={`${match.line}-${match.column}-${i}`}
+                    onClick={() => openMatch(match)}
+                    className="pl-6 pr-2 py-0.5 cursor-pointer truncate font-mono text-[11px] text-gray-300 hover:bg-[#2a2d2e]"
+                    title={`${group.path}:${match.line}`}
+                  >
+                    <span className="text-gray-500 mr-1.5">{match.line}</span>
+                    <MatchText match={match} />
+                  </div>
+                ))}
+            </div>
+          );
+        })}
+        {result && result.matches.length === 0 && !searching && (
+          <div className="px-2 text-gray-400">No results found.</div>
+        )}
+      </div>
+    </div>
+  );
+}
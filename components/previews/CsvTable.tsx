@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { compareCells, delimiterFor, parseDelimited } from '@/lib/filePreview';
+import type { FilePreviewProps } from './FilePreview';
+
+const MAX_ROWS = 5_000;
+
+interface SortState {
+  column: number;
+  descending: boolean;
+}
+
+/**
+ * CSV/TSV as a table; the first row is the header. Clicking a header sorts
+ * by that column, again reverses, a third time restores file order.
+ */
+const CsvTable: React.FC<FilePreviewProps> = ({ path, text }) => {
+  const [sort, setSort] = useState<SortState | null>(null);
+  const table = useMemo(() => parseDelimited(text ?? '', delimiterFor(path)), [path, text]);
+  const header = table[0];
+  const body = useMemo(() => table.slice(1), [table]);
+
+  const rows = useMemo(() => {
+    if (!sort) return body;
+    const sorted = [...body].sort((a, b) => compareCells(a[sort.column] ?? '', b[sort.column] ?? ''));
+    return sort.descending ? sorted.reverse() : sorted;
+  }, [body, sort]);
+
+  if (!header) {
+    return <div className="p-4 text-sm text-gray-500">This file is empty.</div>;
+  }
+
+  const columns = Math.max(header.length, ...body.slice(0, MAX_ROWS).map(row => row.length));
+
+  const toggleSort = (column: number) =>
+    setSort(prev =>
+      prev?.column !== column
+        ? { column, descending: false }
+        : prev.descending
+          ? null
+          : { column, descending: true }
+    );
+
+  return (
+    <div className="text-xs text-gray-200">
+      <div className="px-4 py-1.5 text-gray-500 border-b border-gray-800">
+        {body.length.toLocaleString()} row{body.length === 1 ? '' : 's'} × {columns} column{columns === 1 ? '' : 's'}
+        {body.length > MAX_ROWS && ` (showing the first ${MAX_ROWS.toLocaleString()})`}
+      </div>
+      <table className="border-collapse">
+        <thead className="sticky top-0 bg-[#252526]">
+          <tr>
+            <th className="px-2 py-1 border border-gray-700 text-gray-500 font-normal text-right">#</th>
+            {Array.from({ length: columns }, (_, column) => (
+              <th
+                key={column}
+                onClick={() => toggleSort(column)}
+                className="px-2 py-1 border border-gray-700 text-left font-semibold cursor-pointer select-none whitespace-nowrap hover:bg-[#2a2d2e]"
+              >
+                {header[column] ?? ''}
+                <span className="ml-1 text-gray-500">
+                  {sort?.column === column ? (sort.descending ? '▼' : '▲') : ''}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, MAX_ROWS).map((row, index) => (
+            <tr key={index} className="hover:bg-[#2a2d2e]">
+              <td className="px-2 py-0.5 border border-gray-800 text-gray-500 text-right">{index + 1}</td>
+              {Array.from({ length: columns }, (_, column) => (
+                <td key={column} className="px-2 py-0.5 border border-gray-800 whitespace-pre max-w-md overflow-hidden text-ellipsis">
+                  {row[column] ?? ''}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CsvTable;
@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import type { FilePreviewKind } from '@/lib/filePreview';
+import ImagePreview from './ImagePreview';
+import MarkdownPreview from './MarkdownPreview';
+import StructuredTree from './StructuredTree';
+import CsvTable from './CsvTable';
+import HexView from './HexView';
+
+export interface FilePreviewProps {
+  path: string;
+  // File text, for previews of text files
+  text: string | null;
+  // Raw bytes, for binary files
+  bytes: Uint8Array | null;
+  // Whole file size when known, and whether `bytes` stops short of it
+  size?: number | null;
+  truncated?: boolean;
+}
+
+// One previewer per kind; previewFor() in lib/filePreview decides the kind
+const PREVIEWERS: Record<FilePreviewKind, React.FC<FilePreviewProps>> = {
+  image: ImagePreview,
+  markdown: MarkdownPreview,
+  tree: StructuredTree,
+  table: CsvTable,
+  hex: HexView,
+};
+
+export default function FilePreview({ kind, ...props }: FilePreviewProps & { kind: FilePreviewKind }) {
+  const Previewer = PREVIEWERS[kind];
+  return <Previewer {...props} />;
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import React, { useState } from 'react';
+import { HEX_BYTES_PER_ROW, hexRow } from '@/lib/filePreview';
+import type { FilePreviewProps } from './FilePreview';
+
+const ROW_PAGE_SIZE = 1_024;
+
+/**
+ * Offset / hex / ASCII dump of a binary file's first bytes
+ */
+const HexView: React.FC<FilePreviewProps> = ({ bytes, size, truncated }) => {
+  const [rowLimit, setRowLimit] = useState(ROW_PAGE_SIZE);
+  const data = bytes ?? new Uint8Array();
+  const totalRows = Math.ceil(data.length / HEX_BYTES_PER_ROW);
+  const shownRows = Math.min(rowLimit, totalRows);
+
+  return (
+    <div className="text-xs">
+      <div className="px-4 py-1.5 text-gray-500 border-b border-gray-800">
+        Binary file
+        {size !== null && size !== undefined && `, ${size.toLocaleString()} bytes`}
+        {truncated && ` (first ${data.length.toLocaleString()} bytes shown)`}
+      </div>
+      <pre className="px-4 py-2 m-0 font-mono leading-5 text-gray-300">
+        {Array.from({ length: shownRows }, (_, i) => {
+          const row = hexRow(data, i * HEX_BYTES_PER_ROW);
+          return (
+            <div key={row.offset}>
+              <span className="text-gray-500">{row.offset}</span>
+              {'  '}
+              {row.hex}
+              {'  '}
+              <span className="text-green-300">{row.ascii}</span>
+            </div>
+          );
+        })}
+      </pre>
+      {shownRows < totalRows && (
+        <button
+          onClick={() => setRowLimit(limit => limit + ROW_PAGE_SIZE)}
+          className="mx-4 mb-3 text-blue-400 hover:underline"
+        >
+          Show more ({(totalRows - shownRows).toLocaleString()} rows left)
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HexView;
@@ -0,0 +1,47 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { imageDataUrl } from '@/lib/filePreview';
+import type { FilePreviewProps } from './FilePreview';
+
+const ImagePreview: React.FC<FilePreviewProps> = ({ path, text, bytes }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [actualSize, setActualSize] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const src = useMemo(() => imageDataUrl(path, bytes ?? text ?? ''), [path, bytes, text]);
+
+  if (failed) {
+    return <div className="p-4 text-sm text-red-400">This image could not be displayed.</div>;
+  }
+
+  return (
+    <div className="min-h-full flex flex-col">
+      <div className="flex items-center gap-3 px-4 py-1.5 text-xs text-gray-500 border-b border-gray-800">
+        {size && <span>{size.width} × {size.height}</span>}
+        {bytes && <span>{bytes.length.toLocaleString()} bytes</span>}
+        <button onClick={() => setActualSize(v => !v)} className="ml-auto text-gray-400 hover:text-gray-200">
+          {actualSize ? 'Fit to view' : 'Actual size'}
+        </button>
+      </div>
+      {/* Checkerboard shows transparency */}
+      <div
+        className="flex-1 flex items-center justify-center p-4"
+        style={{
+          backgroundImage: 'repeating-conic-gradient(#2a2a2a 0% 25%, #1e1e1e 0% 50%)',
+          backgroundSize: '16px 16px',
+        }}
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={src}
+          alt={path}
+          onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          onError={() => setFailed(true)}
+          className={actualSize ? 'max-w-none' : 'max-w-full max-h-[70vh] object-contain'}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImagePreview;
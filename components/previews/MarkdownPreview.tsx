@@ -0,0 +1,13 @@
+'use client';
+
+import React from 'react';
+import { Markdown } from '../Markdown';
+import type { FilePreviewProps } from './FilePreview';
+
+const MarkdownPreview: React.FC<FilePreviewProps> = ({ text }) => (
+  <div className="max-w-4xl px-6 py-4 text-sm leading-relaxed text-gray-200">
+    <Markdown content={text ?? ''} />
+  </div>
+);
+
+export default MarkdownPreview;
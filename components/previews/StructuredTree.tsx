@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { parseStructured } from '@/lib/filePreview';
+import type { FilePreviewProps } from './FilePreview';
+
+// Levels open on first render
+const DEFAULT_OPEN_DEPTH = 2;
+// Children rendered per container before "show more"
+const CHILD_PAGE_SIZE = 200;
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null;
+
+const summary = (value: Record<string, unknown> | unknown[]) =>
+  Array.isArray(value)
+    ? `[${value.length} item${value.length === 1 ? '' : 's'}]`
+    : `{${Object.keys(value).length} key${Object.keys(value).length === 1 ? '' : 's'}}`;
+
+const Scalar: React.FC<{ value: unknown }> = ({ value }) => {
+  if (typeof value === 'string') return <span className="text-green-300 break-all">&quot;{value}&quot;</span>;
+  if (typeof value === 'number' || typeof value === 'bigint') return <span className="text-orange-300">{String(value)}</span>;
+  if (typeof value === 'boolean') return <span className="text-blue-300">{String(value)}</span>;
+  if (value === null || value === undefined) return <span className="text-gray-500">null</span>;
+  // YAML dates and the like
+  return <span className="text-purple-300">{String(value)}</span>;
+};
+
+interface TreeNodeProps {
+  name: string | null;
+  value: unknown;
+  depth: number;
+  openDepth: number;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ name, value, depth, openDepth }) => {
+  const [open, setOpen] = useState(depth < openDepth);
+  const [limit, setLimit] = useState(CHILD_PAGE_SIZE);
+  const label = name !== null && <span className="text-sky-300">{name}</span>;
+
+  if (!isContainer(value)) {
+    return (
+      <div className="pl-4">
+        {label}
+        {label && <span className="text-gray-500">: </span>}
+        <Scalar value={value} />
+      </div>
+    );
+  }
+
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : ''}>
+      <div className="cursor-pointer select-none hover:bg-[#2a2d2e] -ml-4 pl-4" onClick={() => setOpen(o => !o)}>
+        <span className="inline-block w-4 -ml-4 text-gray-500 text-[10px]">{open ? '▼' : '▶'}</span>
+        {label}
+        {label && <span className="text-gray-500">: </span>}
+        <span className="text-gray-500">{summary(value)}</span>
+      </div>
+      {open && (
+        <div className="border-l border-gray-800 ml-1">
+          {entries.slice(0, limit).map(([key, child]) => (
+            <TreeNode key={key} name={key} value={child} depth={depth + 1} openDepth={openDepth} />
+          ))}
+          {entries.length > limit && (
+            <button
+              onClick={() => setLimit(l => l + CHILD_PAGE_SIZE)}
+              className="pl-4 text-blue-400 hover:underline"
+            >
+              Show {Math.min(CHILD_PAGE_SIZE, entries.length - limit)} more of {entries.length - limit}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Collapsible tree for JSON and YAML files
+ */
+const StructuredTree: React.FC<FilePreviewProps> = ({ path, text }) => {
+  // Remounting the tree with another depth expands or collapses everything
+  const [openDepth, setOpenDepth] = useState(DEFAULT_OPEN_DEPTH);
+  const [treeKey, setTreeKey] = useState(0);
+
+  const parsed = useMemo(() => {
+    try {
+      return { value: parseStructured(path, text ?? ''), error: null };
+    } catch (err: any) {
+      return { value: undefined, error: (err?.message as string) || 'Invalid document' };
+    }
+  }, [path, text]);
+
+  if (parsed.error) {
+    return (
+      <div className="p-4 text-sm">
+        <div className="text-red-400 font-semibold mb-1">Could not parse this file</div>
+        <pre className="text-xs text-red-300 whitespace-pre-wrap">{parsed.error}</pre>
+        <div className="text-xs text-gray-500 mt-2">Switch to Source to see the raw text.</div>
+      </div>
+    );
+  }
+
+  const expand = (depth: number) => {
+    setOpenDepth(depth);
+    setTreeKey(key => key + 1);
+  };
+
+  return (
+    <div className="flex flex-col min-h-full">
+      <div className="flex items-center gap-3 px-4 py-1.5 text-xs text-gray-400 border-b border-gray-800">
+        <button onClick={() => expand(Infinity)} className="hover:text-gray-200">Expand all</button>
+        <button onClick={() => expand(1)} className="hover:text-gray-200">Collapse all</button>
+      </div>
+      <div key={treeKey} className="px-4 py-2 font-mono text-xs leading-5 text-gray-200">
+        <TreeNode name={null} value={parsed.value} depth={0} openDepth={openDepth} />
+      </div>
+    </div>
+  );
+};
+
+export default StructuredTree;
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { atlasSocketUrl } from '@/lib/atlasSocket';
 
 export type TelemetryFrame = {
   type: 'initial_state' | 'update';
@@ -30,8 +31,7 @@ export const TelemetryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       if (isUnmounted) return;
       setStatus('connecting');
       
-      const wsProtocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
-      const wsUrl = `${wsProtocol}://localhost:8000/v1/telemetry/stream`;
+      const wsUrl = atlasSocketUrl('telemetry/stream');
       
       console.log('[TelemetryProvider] Connecting to', wsUrl);
       const ws = new WebSocket(wsUrl);
@@ -0,0 +1,140 @@
+// assumptionStore.ts
+// Per-session strict-mode flag and the curated assumptions sent with every
+// strict-mode query. Assumptions come from reviewing a response's
+// unresolved_assumptions or are added by hand in the assumptions panel.
+
+import { create } from 'zustand';
+import type { AtlasAssumption, SessionAssumption } from './types';
+import { CONSOLE_DB_STORES, isIndexedDbAvailable, withStore } from './consoleDb';
+import { createRandomId } from './session';
+
+const STORE = CONSOLE_DB_STORES.sessionAssumptions.name;
+
+export interface SessionAssumptionState {
+  strict: boolean;
+  assumptions: SessionAssumption[];
+}
+
+interface StoredSessionAssumptions extends SessionAssumptionState {
+  session_id: string;
+}
+
+// A reviewed assumption; `original` is the backend's text when it was corrected
+export interface ReviewedAssumption extends AtlasAssumption {
+  original?: string;
+}
+
+export const EMPTY_ASSUMPTION_STATE: SessionAssumptionState = { strict: false, assumptions: [] };
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+async function persistAssumptions(sessionId: string, state: SessionAssumptionState): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(STORE, 'readwrite', store => {
+    store.put({ session_id: sessionId, ...state } satisfies StoredSessionAssumptions);
+  });
+}
+
+/**
+ * The assumptions as sent in AtlasChatRequest.assumptions
+ */
+export function toRequestAssumptions(assumptions: SessionAssumption[]): AtlasAssumption[] {
+  return assumptions.map(({ description, resolved }) => ({ description, resolved }));
+}
+
+interface AssumptionStoreState {
+  bySession: Record<string, SessionAssumptionState>;
+  loadedSessions: Record<string, boolean>;
+
+  // Actions
+  loadAssumptions: (sessionId: string) => Promise<void>;
+  setStrict: (sessionId: string, strict: boolean) => void;
+  mergeReviewed: (sessionId: string, reviewed: ReviewedAssumption[], sourceMessageId?: string) => void;
+  addAssumption: (sessionId: string, description: string) => void;
+  updateAssumption: (sessionId: string, id: string, changes: Partial<AtlasAssumption>) => void;
+  removeAssumption: (sessionId: string, id: string) => void;
+}
+
+export const useAssumptionStore = create<AssumptionStoreState>((set, get) => {
+  const current = (sessionId: string) => get().bySession[sessionId] ?? EMPTY_ASSUMPTION_STATE;
+
+  const save = (sessionId: string, state: SessionAssumptionState) => {
+    set(s => ({ bySession: { ...s.bySession, [sessionId]: state } }));
+    persistAssumptions(sessionId, state).catch(err =>
+      console.warn('Failed to persist session assumptions:', err)
+    );
+  };
+
+  const saveAssumptions = (sessionId: string, assumptions: SessionAssumption[]) =>
+    save(sessionId, { ...current(sessionId), assumptions });
+
+  return {
+    bySession: {},
+    loadedSessions: {},
+
+    loadAssumptions: async (sessionId) => {
+      if (get().loadedSessions[sessionId] || !isIndexedDbAvailable()) return;
+      set(s => ({ loadedSessions: { ...s.loadedSessions, [sessionId]: true } }));
+      try {
+        const record = await withStore<StoredSessionAssumptions | undefined>(STORE, 'readonly', store =>
+          store.get(sessionId)
+        );
+        // Changes made while loading win
+        if (!record || get().bySession[sessionId]) return;
+        set(s => ({
+          bySession: {
+            ...s.bySession,
+            [sessionId]: { strict: record.strict, assumptions: record.assumptions },
+          },
+        }));
+      } catch (err) {
+        console.warn('Failed to load session assumptions:', err);
+      }
+    },
+
+    setStrict: (sessionId, strict) => {
+      save(sessionId, { ...current(sessionId), strict });
+    },
+
+    mergeReviewed: (sessionId, reviewed, sourceMessageId) => {
+      const now = new Date().toISOString();
+      const assumptions = [...current(sessionId).assumptions];
+      for (const item of reviewed) {
+        const description = item.description.trim();
+        if (!description) continue;
+        const keys = [normalize(description), normalize(item.original ?? description)];
+        const index = assumptions.findIndex(a => keys.includes(normalize(a.description)));
+        const next = { description, resolved: item.resolved, updated_at: now };
+        if (index === -1) {
+          assumptions.push({ id: createRandomId(), source_message_id: sourceMessageId, ...next });
+        } else {
+          assumptions[index] = { ...assumptions[index], ...next };
+        }
+      }
+      saveAssumptions(sessionId, assumptions);
+    },
+
+    addAssumption: (sessionId, description) => {
+      const trimmed = description.trim();
+      if (!trimmed) return;
+      saveAssumptions(sessionId, [
+        ...current(sessionId).assumptions,
+        { id: createRandomId(), description: trimmed, resolved: true, updated_at: new Date().toISOString() },
+      ]);
+    },
+
+    updateAssumption: (sessionId, id, changes) => {
+      const updatedAt = new Date().toISOString();
+      saveAssumptions(
+        sessionId,
+        current(sessionId).assumptions.map(a =>
+          a.id === id ? { ...a, ...changes, updated_at: updatedAt } : a
+        )
+      );
+    },
+
+    removeAssumption: (sessionId, id) => {
+      saveAssumptions(sessionId, current(sessionId).assumptions.filter(a => a.id !== id));
+    },
+  };
+});
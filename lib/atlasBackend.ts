@@ -0,0 +1,161 @@
+/**
+ * Server-side client for ATLAS Core.
+ *
+ * Every route under app/api/** talks to the backend through this module so
+ * the base URL is configured in exactly one place. It must only be imported
+ * from server code: the browser always goes through the /api proxy routes.
+ *
+ * Configuration:
+ *   ATLAS_BACKEND_URL  Base URL of ATLAS Core (default http://localhost:8000)
+ *
+ * The older variables ATLAS_API_URL, ATLAS_CORE_URL and
+ * NEXT_PUBLIC_ATLAS_API_URL are still honoured, with a warning.
+ */
+
+import { NextResponse } from 'next/server';
+
+const DEFAULT_BACKEND_URL = 'http://localhost:8000';
+
+const LEGACY_ENV_VARS = ['ATLAS_API_URL', 'ATLAS_CORE_URL', 'NEXT_PUBLIC_ATLAS_API_URL'] as const;
+
+function resolveBackendUrl(): string {
+  const configured = process.env.ATLAS_BACKEND_URL;
+  if (configured) return configured.replace(/\/+$/, '');
+
+  for (const name of LEGACY_ENV_VARS) {
+    const value = process.env[name];
+    if (value) {
+      console.warn(`[atlasBackend] ${name} is deprecated, set ATLAS_BACKEND_URL instead`);
+      return value.replace(/\/+$/, '');
+    }
+  }
+
+  return DEFAULT_BACKEND_URL;
+}
+
+export const ATLAS_BACKEND_URL = resolveBackendUrl();
+
+export type BackendQuery =
+  | URLSearchParams
+  | Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Build an absolute backend URL from a path such as `/v1/atlas/chat`
+ */
+export function backendUrl(path: string, query?: BackendQuery): string {
+  const url = new URL(`${ATLAS_BACKEND_URL}${path.startsWith('/') ? path : `/${path}`}`);
+
+  if (query instanceof URLSearchParams) {
+    query.forEach((value, key) => url.searchParams.append(key, value));
+  } else if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+  }
+
+  return url.toString();
+}
+
+export interface BackendRequestInit extends Omit<RequestInit, 'body'> {
+  query?: BackendQuery;
+  /** Serialized as JSON when it is not already a string */
+  body?: unknown;
+}
+
+/**
+ * fetch() against ATLAS Core with JSON defaults and no caching
+ */
+export async function backendFetch(path: string, init: BackendRequestInit = {}): Promise<Response> {
+  const { query, body, headers, ...rest } = init;
+
+  return fetch(backendUrl(path, query), {
+    cache: 'no-store',
+    ...rest,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(headers as Record<string, string> | undefined),
+    },
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+/**
+ * Extract a human-readable error message, and the machine-readable code
+ * when the backend sends one, from a failed backend response
+ */
+export async function readBackendErrorBody(
+  res: Response,
+  fallback: string
+): Promise<{ message: string; code?: string }> {
+  const text = await res.text().catch(() => '');
+  if (!text) return { message: fallback };
+  try {
+    const data = JSON.parse(text);
+    const detail = data?.detail ?? data?.error;
+    const code = typeof data?.code === 'string' ? data.code : typeof detail?.code === 'string' ? detail.code : undefined;
+    if (typeof detail === 'string') return { message: detail, code };
+    if (typeof detail?.message === 'string') return { message: detail.message, code };
+    if (detail) return { message: JSON.stringify(detail), code };
+  } catch {
+    // not JSON
+  }
+  return { message: text };
+}
+
+/**
+ * Extract a human-readable error message from a failed backend response
+ */
+export async function readBackendError(res: Response, fallback: string): Promise<string> {
+  return (await readBackendErrorBody(res, fallback)).message;
+}
+
+/**
+ * Forward a request to ATLAS Core and relay its JSON response (status
+ * included). Network failures become a 502 with `{ error }`.
+ */
+export async function proxyJson(
+  path: string,
+  init: BackendRequestInit,
+  errorLabel: string
+): Promise<NextResponse> {
+  let res: Response;
+  try {
+    res = await backendFetch(path, init);
+  } catch (error: any) {
+    console.error(`[atlasBackend] ${errorLabel}:`, error);
+    return NextResponse.json(
+      { error: `${errorLabel}: ${error?.message || 'ATLAS Core unreachable'}` },
+      { status: 502 }
+    );
+  }
+
+  if (!res.ok) {
+    const { message, code } = await readBackendErrorBody(res, `Backend returned ${res.status}`);
+    return NextResponse.json(code ? { error: message, code } : { error: message }, { status: res.status });
+  }
+
+  // Nothing to relay, e.g. after a DELETE
+  if (res.status === 204) return new NextResponse(null, { status: 204 });
+
+  const data = await res.json().catch(() => null);
+  return NextResponse.json(data, { status: res.status });
+}
+
+/**
+ * Reject catch-all path segments that could escape the proxied prefix
+ */
+export function isSafeProxyPath(segments: string[]): boolean {
+  return segments.every(
+    segment => segment.length > 0 && segment !== '.' && segment !== '..' && !segment.includes('\\')
+  );
+}
+
+/**
+ * Workspace-relative file path check used by /api/atlasPatch and the
+ * /api/console/files routes: no absolute paths, nothing that climbs out
+ */
+export function isSafeWorkspacePath(path: string): boolean {
+  return path.trim().length > 0 && !path.includes('..') && !path.startsWith('/');
+}
@@ -1,5 +1,6 @@
 import { AtlasChatRequest, AtlasChatResponse } from "./types";
 import { getOrCreateSessionId, storeSessionId } from "./session";
+import { CHAT_TIMEOUT_MS, RequestOptions, fetchWithRetry, fetchWithTimeout } from "./request";
 
 const browserDefaultBase =
   process.env.NEXT_PUBLIC_ATLAS_WEB_API_BASE || ""; // e.g. "", "/atlas" etc.
@@ -7,11 +8,8 @@ const browserDefaultBase =
 // By default, call the local Next.js API proxy route.
 const defaultApiUrl = `${browserDefaultBase}/api/atlasChat`;
 
-// Direct backend URL for chunk retrieval (bypasses Next.js proxy)
-const atlasApiBase =
-  typeof window !== 'undefined'
-    ? (window as any).__ATLAS_API_BASE || "http://127.0.0.1:8000"
-    : "http://127.0.0.1:8000";
+// Chunk retrieval goes through the Next.js proxy as well
+const chunkApiBase = `${browserDefaultBase}/api/atlas/chat/chunk`;
 
 /**
  * Check if response is chunked by looking for chunking metadata in notes
@@ -41,7 +39,7 @@ function isChunkedResponse(response: AtlasChatResponse): {
  * Fetch the next chunk from the backend
  */
 async function fetchNextChunk(chunkSessionId: string): Promise<AtlasChatResponse> {
-  const res = await fetch(`${atlasApiBase}/v1/atlas/chat/chunk/${chunkSessionId}`, {
+  const res = await fetchWithRetry(`${chunkApiBase}/${encodeURIComponent(chunkSessionId)}`, {
     method: "GET",
     headers: {
       "Content-Type": "application/json",
@@ -106,7 +104,8 @@ async function reassembleChunkedResponse(
 
 export async function atlasChat(
   payload: AtlasChatRequest,
-  apiUrl?: string
+  apiUrl?: string,
+  { signal, timeoutMs = CHAT_TIMEOUT_MS }: Pick<RequestOptions, "signal" | "timeoutMs"> = {}
 ): Promise<AtlasChatResponse> {
   const url = apiUrl || defaultApiUrl;
 
@@ -133,13 +132,17 @@ export async function atlasChat(
     query: payloadWithSession.query?.slice(0, 200),
   });
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
+  const res = await fetchWithTimeout(
+    url,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payloadWithSession),
     },
-    body: JSON.stringify(payloadWithSession),
-  });
+    { signal, timeoutMs }
+  );
 
   if (!res.ok) {
     let msg = `ATLAS Web API error: ${res.status} ${res.statusText}`;
@@ -265,3 +268,20 @@ export async function fetchTasks(): Promise<AtlasTask[]> {
   // Stub: no tasks yet
   return [];
 }
+
+/**
+ * Run a snippet in ATLAS's isolated sandbox runtime and return its result.
+ */
+export async function runSandboxCode(code: string, timeoutMs: number = 300): Promise<unknown> {
+  const res = await fetchWithTimeout(`${browserDefaultBase}/api/sandbox`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code, timeout_ms: timeoutMs }),
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || data.error) {
+    throw new Error(data.error || `Sandbox request failed: ${res.status} ${res.statusText}`);
+  }
+  return data.result;
+}
@@ -1,10 +1,37 @@
-import { ConsoleSession, ConsoleFileListResponse, AgentResponse, AtlasChatResponse } from './types';
+import {
+  ConsoleSession,
+  ConsoleSessionCreate,
+  ConsoleSessionUpdate,
+  ConsoleFileListResponse,
+  AgentResponse,
+  AtlasAssumption,
+  AtlasChatRequest,
+  AtlasChatResponse,
+  AtlasChatStreamEvent,
+  ChatMessage,
+  CommandRunEvent,
+  CommandRunRequest,
+} from './types';
+import { readServerSentEvents } from './sse';
+import type { WorkspaceSearchRequest, WorkspaceSearchResponse } from './workspaceSearch';
+import {
+  CHAT_TIMEOUT_MS,
+  createTimeoutController,
+  fetchWithRetry,
+  fetchWithTimeout,
+} from './request';
 
 const CONSOLE_API_BASE = '/api/console';
 const ATLAS_API_BASE = '/api/atlas';
 
-export async function listConsoleSessions(): Promise<{sessions: ConsoleSession[], total: number}> {
-  const res = await fetch(`${CONSOLE_API_BASE}/sessions`, {
+/**
+ * List sessions; archived ones only when `includeArchived` is set
+ */
+export async function listConsoleSessions(
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+): Promise<{sessions: ConsoleSession[], total: number}> {
+  const query = includeArchived ? '?include_archived=true' : '';
+  const res = await fetchWithRetry(`${CONSOLE_API_BASE}/sessions${query}`, {
     method: 'GET',
     headers: { 'Content-Type': 'application/json' },
     cache: 'no-store',
@@ -14,9 +41,9 @@ export async function listConsoleSessions(): Promise<{sessions: ConsoleSession[]
 }
 
 export async function createConsoleSession(
-  payload: { session_id?: string; project_id?: string; root_path?: string; data?: any }
+  payload: ConsoleSessionCreate
 ): Promise<{ session_id: string; status: string }> {
-  const res = await fetch(`${CONSOLE_API_BASE}/sessions`, {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/sessions`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(payload),
@@ -25,9 +52,48 @@ export async function createConsoleSession(
   return res.json();
 }
 
+export async function updateConsoleSession(
+  sessionId: string,
+  changes: ConsoleSessionUpdate
+): Promise<ConsoleSession> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to update console session');
+  return data;
+}
+
+export async function archiveConsoleSession(sessionId: string, archived = true): Promise<void> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/sessions/${encodeURIComponent(sessionId)}/archive`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ archived }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to ${archived ? 'archive' : 'restore'} console session`);
+  }
+}
+
+/**
+ * Delete a session and its backend transcript for good
+ */
+export async function deleteConsoleSession(sessionId: string): Promise<void> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to delete console session');
+  }
+}
+
 export async function fetchConsoleFiles(path: string = '.'): Promise<ConsoleFileListResponse> {
   const params = new URLSearchParams({ path });
-  const res = await fetch(`${CONSOLE_API_BASE}/files?${params.toString()}`, {
+  const res = await fetchWithRetry(`${CONSOLE_API_BASE}/files?${params.toString()}`, {
     method: 'GET',
     headers: { 'Content-Type': 'application/json' },
     cache: 'no-store',
@@ -36,8 +102,160 @@ export async function fetchConsoleFiles(path: string = '.'): Promise<ConsoleFile
   return res.json();
 }
 
+/**
+ * Read a workspace file's text. Returns null when the file does not exist.
+ */
+export async function fetchConsoleFileContent(path: string): Promise<string | null> {
+  const params = new URLSearchParams({ path });
+  const res = await fetchWithRetry(`${CONSOLE_API_BASE}/files/content?${params.toString()}`, {
+    method: 'GET',
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+  });
+  if (res.status === 404) return null;
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || data.error) {
+    throw new Error(data.error || `Failed to load ${path}: ${res.statusText}`);
+  }
+  return data.content ?? '';
+}
+
+/**
+ * Create an empty file (or one with `content`), or a directory with `isDir`.
+ * Fails when the path already exists.
+ */
+export async function createConsoleFile(
+  path: string,
+  { isDir = false, content }: { isDir?: boolean; content?: string } = {}
+): Promise<void> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/files/create`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ path, is_dir: isDir, content }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to create ${path}`);
+  }
+}
+
+/**
+ * Rename or move a file or directory. Fails when `to` already exists.
+ */
+export async function moveConsoleFile(from: string, to: string): Promise<void> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/files/move`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ from, to }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to move ${from} to ${to}`);
+  }
+}
+
+/**
+ * Delete a file, or a directory and its contents with `recursive`
+ */
+export async function deleteConsoleFile(path: string, { recursive = false } = {}): Promise<void> {
+  const params = new URLSearchParams({ path });
+  if (recursive) params.set('recursive', 'true');
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/files?${params.toString()}`, { method: 'DELETE' });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to delete ${path}`);
+  }
+}
+
+/**
+ * Upload files into a workspace directory ('.' for the root). Returns the
+ * created paths. Existing files are not replaced.
+ */
+export async function uploadConsoleFiles(dir: string, files: File[]): Promise<string[]> {
+  const form = new FormData();
+  form.set('dir', dir);
+  files.forEach(file => form.append('files', file));
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/files/upload`, { method: 'POST', body: form });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to upload files');
+  }
+  return files.map(file => (dir === '.' ? file.name : `${dir}/${file.name}`));
+}
+
+/**
+ * Read a workspace file's raw bytes (base64 mode of the content route), or
+ * only the first `maxBytes` of them. `size` is the whole file's size when
+ * ATLAS Core reports it.
+ */
+export async function fetchConsoleFileBytes(
+  path: string,
+  { maxBytes }: { maxBytes?: number } = {}
+): Promise<{ bytes: Uint8Array; size: number | null; truncated: boolean }> {
+  const params = new URLSearchParams({ path, encoding: 'base64' });
+  if (maxBytes !== undefined) params.set('max_bytes', String(maxBytes));
+  const res = await fetchWithRetry(`${CONSOLE_API_BASE}/files/content?${params.toString()}`, {
+    method: 'GET',
+    cache: 'no-store',
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || data.error) {
+    throw new Error(data.error || `Failed to load ${path}: ${res.statusText}`);
+  }
+  const binary = atob(data.content ?? '');
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const size = typeof data.size === 'number' ? data.size : null;
+  return { bytes, size, truncated: data.truncated === true || (size !== null && size > bytes.length) };
+}
+
+/**
+ * Per-launch token the terminal sidecar requires on connect
+ */
+export async function fetchTerminalToken(): Promise<string> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/terminal/token`, {
+    method: 'GET',
+    cache: 'no-store',
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || typeof data.token !== 'string') {
+    throw new Error(data.error || 'Failed to reach the terminal server');
+  }
+  return data.token;
+}
+
+/**
+ * Search file contents across the workspace
+ */
+export async function searchWorkspace(
+  request: WorkspaceSearchRequest,
+  signal?: AbortSignal
+): Promise<WorkspaceSearchResponse> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/search`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  }, { signal });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Search failed');
+  return data;
+}
+
+/**
+ * Apply a unified diff to a workspace file through ATLAS Core
+ */
+export async function applyConsolePatch(filePath: string, diff: string): Promise<{ message: string }> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/files/patch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ file_path: filePath, diff }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to apply patch');
+  return { message: data.message || 'Patch applied successfully' };
+}
+
 export async function clearConsoleSession(sessionId: string): Promise<{status: string, session_id: string}> {
-  const res = await fetch(`${CONSOLE_API_BASE}/sessions/${sessionId}/clear`, {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/sessions/${sessionId}/clear`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
   });
@@ -46,26 +264,161 @@ export async function clearConsoleSession(sessionId: string): Promise<{status: s
 }
 
 /**
- * Send a chat request to ATLAS and get a structured response
+ * Run a command and stream its output. Resolves when the stream ends;
+ * abort `signal` to stop reading (pair with cancelCommandRun to kill it).
  */
-export async function sendAtlasChat(
+export async function streamCommandRun(
+  request: CommandRunRequest,
+  onEvent: (event: CommandRunEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const res = await fetch(`${CONSOLE_API_BASE}/commands/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    let msg = `Failed to run command: ${res.statusText}`;
+    try {
+      const data = await res.json();
+      if (data?.error) msg = data.error;
+    } catch {
+      // ignore parse errors
+    }
+    throw new Error(msg);
+  }
+
+  await readServerSentEvents(res.body, (sse) => {
+    const event = toCommandRunEvent(sse.event, sse.data);
+    if (event) onEvent(event);
+  });
+}
+
+export async function cancelCommandRun(runId: string): Promise<void> {
+  const res = await fetchWithTimeout(`${CONSOLE_API_BASE}/commands/${encodeURIComponent(runId)}/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+  });
+  if (!res.ok) throw new Error('Failed to cancel command');
+}
+
+function toCommandRunEvent(name: string, data: string): CommandRunEvent | null {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    parsed = { data };
+  }
+
+  switch (name) {
+    case 'start':
+      return { type: 'start', run_id: parsed?.run_id ? String(parsed.run_id) : null };
+    case 'stdout':
+    case 'stderr':
+      return { type: 'output', stream: name, data: typeof parsed === 'string' ? parsed : parsed?.data ?? '' };
+    case 'exit':
+      return {
+        type: 'exit',
+        exit_code: typeof parsed?.exit_code === 'number' ? parsed.exit_code : -1,
+        duration_ms: Number(parsed?.duration_ms) || 0,
+        timed_out: Boolean(parsed?.timed_out),
+      };
+    case 'error':
+      return { type: 'error', error: parsed?.error || parsed?.detail || 'Unknown command error' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fetch the server-side transcript of a console session.
+ * Returns null when the backend does not keep history for it.
+ */
+export async function fetchConsoleSessionHistory(sessionId: string): Promise<ChatMessage[] | null> {
+  const res = await fetchWithRetry(`${CONSOLE_API_BASE}/sessions/${encodeURIComponent(sessionId)}/history`, {
+    method: 'GET',
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error('Failed to fetch console session history');
+
+  const data = await res.json();
+  const entries: any[] = Array.isArray(data) ? data : data?.messages || [];
+
+  return entries
+    .filter(m => typeof m?.content === 'string' || m?.response)
+    .map((m, i) => {
+      const type: ChatMessage['type'] = m.role === 'user' || m.type === 'user' ? 'user' : 'assistant';
+      const response = m.response ? mapBackendResponseToAgentResponse(m.response) : undefined;
+      return {
+        id: typeof m.id === 'string' ? m.id : `${sessionId}-backend-${i}`,
+        type,
+        content: typeof m.content === 'string' ? m.content : response?.answer || '',
+        created_at: m.created_at || m.timestamp || new Date(0).toISOString(),
+        response,
+      };
+    });
+}
+
+export interface ChatAssumptionOptions {
+  /** Curated assumptions sent along with the query */
+  assumptions?: AtlasAssumption[];
+  /** Let the backend stop on unresolved assumptions instead of overriding them */
+  strict?: boolean;
+}
+
+export interface SendAtlasChatOptions extends ChatAssumptionOptions {
+  /** Abort to stop waiting; pair with cancelAtlasChat to stop the backend too */
+  signal?: AbortSignal;
+  /** Identifies the request to cancelAtlasChat */
+  requestId?: string;
+  /** Longest wait for the response (streaming: for the next event) */
+  timeoutMs?: number;
+}
+
+function buildChatPayload(
   query: string,
-  sessionId?: string,
-  context?: string
-): Promise<AgentResponse> {
-  const payload = {
+  sessionId: string | undefined,
+  context: string | undefined,
+  { assumptions = [], strict = false, requestId }: SendAtlasChatOptions
+): AtlasChatRequest {
+  return {
     query,
     session_id: sessionId,
+    request_id: requestId,
     context,
-    assumptions: [],
-    override_unresolved_assumptions: true,
+    assumptions,
+    override_unresolved_assumptions: !strict,
   };
+}
 
-  const res = await fetch(`${ATLAS_API_BASE}/chat`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload),
-  });
+
+/**
+ * Send a chat request to ATLAS and get a structured response
+ */
+export async function sendAtlasChat(
+  query: string,
+  sessionId?: string,
+  context?: string,
+  options: SendAtlasChatOptions = {}
+): Promise<AgentResponse> {
+  const payload = buildChatPayload(query, sessionId, context, options);
+
+  const res = await fetchWithTimeout(
+    `${ATLAS_API_BASE}/chat`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    },
+    { signal: options.signal, timeoutMs: options.timeoutMs ?? CHAT_TIMEOUT_MS }
+  );
 
   if (!res.ok) {
     throw new Error(`Failed to send ATLAS chat: ${res.statusText}`);
@@ -75,6 +428,166 @@ export async function sendAtlasChat(
   return mapBackendResponseToAgentResponse(backendResponse);
 }
 
+/**
+ * Ask ATLAS Core to stop working on a chat request. Best effort: backends
+ * without cancellation just finish the request and the reply is dropped.
+ */
+export async function cancelAtlasChat(sessionId: string, requestId: string): Promise<void> {
+  const res = await fetchWithTimeout(`${ATLAS_API_BASE}/chat/cancel`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ session_id: sessionId, request_id: requestId }),
+  });
+  if (!res.ok && res.status !== 404) throw new Error('Failed to cancel ATLAS chat');
+}
+
+export interface StreamAtlasChatOptions extends SendAtlasChatOptions {
+  /** Called for every event received from the stream */
+  onEvent?: (event: AtlasChatStreamEvent) => void;
+  /** Called with the response assembled so far after every event */
+  onPartial?: (partial: AgentResponse) => void;
+}
+
+// Overridable so the UI can be pointed at /api/debug-chat-stream
+const CHAT_STREAM_URL =
+  process.env.NEXT_PUBLIC_ATLAS_CHAT_STREAM_URL || `${ATLAS_API_BASE}/chat/stream`;
+
+/**
+ * Send a chat request to ATLAS and receive the response as a stream of
+ * server-sent events. Resolves with the final structured response.
+ */
+export async function streamAtlasChat(
+  query: string,
+  sessionId?: string,
+  context?: string,
+  options: StreamAtlasChatOptions = {}
+): Promise<AgentResponse> {
+  const payload = buildChatPayload(query, sessionId, context, options);
+  // Reset on every event, so a long answer that keeps streaming never times out
+  const timeoutMs = options.timeoutMs ?? CHAT_TIMEOUT_MS;
+  const timeout = createTimeoutController(timeoutMs, options.signal);
+
+  try {
+    return await readAtlasChatStream(payload, timeout, options);
+  } catch (err) {
+    if (timeout.timedOut()) {
+      throw new Error(`ATLAS sent nothing for ${Math.round(timeoutMs / 1000)}s; the request was stopped`);
+    }
+    throw err;
+  } finally {
+    timeout.clear();
+  }
+}
+
+async function readAtlasChatStream(
+  payload: AtlasChatRequest,
+  timeout: ReturnType<typeof createTimeoutController>,
+  options: StreamAtlasChatOptions
+): Promise<AgentResponse> {
+  const res = await fetch(CHAT_STREAM_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(payload),
+    signal: timeout.signal,
+  });
+
+  if (!res.ok || !res.body) {
+    let msg = `Failed to stream ATLAS chat: ${res.statusText}`;
+    try {
+      const data = await res.json();
+      if (data?.error) msg = `${msg} – ${data.error}`;
+    } catch {
+      // ignore parse errors
+    }
+    throw new Error(msg);
+  }
+
+  let partial: AgentResponse = {
+    answer: '',
+    assumptions_used: [],
+    unresolved_assumptions: [],
+  };
+  let final: AgentResponse | null = null;
+  let streamError: string | null = null;
+
+  await readServerSentEvents(res.body, (sse) => {
+    timeout.reset();
+    const event = toStreamEvent(sse.event, sse.data);
+    if (!event) return;
+
+    options.onEvent?.(event);
+
+    switch (event.type) {
+      case 'token':
+        partial = { ...partial, answer: partial.answer + event.text };
+        break;
+      case 'tool_call':
+        partial = { ...partial, tool_calls: [...(partial.tool_calls || []), event.tool_call] };
+        break;
+      case 'patch':
+        partial = { ...partial, patches: [...(partial.patches || []), event.patch] };
+        break;
+      case 'command':
+        partial = { ...partial, commands: [...(partial.commands || []), event.command] };
+        break;
+      case 'test':
+        partial = { ...partial, tests: [...(partial.tests || []), event.test] };
+        break;
+      case 'done':
+        final = mapBackendResponseToAgentResponse(event.response);
+        partial = final;
+        break;
+      case 'error':
+        streamError = event.error;
+        break;
+    }
+
+    options.onPartial?.(partial);
+  });
+
+  if (streamError) {
+    throw new Error(`ATLAS chat stream error: ${streamError}`);
+  }
+
+  // A stream that ends without `done` still yields whatever arrived
+  return final ?? partial;
+}
+
+/**
+ * Decode a raw SSE frame from /api/atlas/chat/stream into a typed event
+ */
+function toStreamEvent(name: string, data: string): AtlasChatStreamEvent | null {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    // Plain-text token frames are tolerated
+    return name === 'token' ? { type: 'token', text: data } : null;
+  }
+
+  switch (name) {
+    case 'token':
+      return { type: 'token', text: typeof parsed === 'string' ? parsed : parsed?.text ?? '' };
+    case 'tool_call':
+      return { type: 'tool_call', tool_call: parsed };
+    case 'patch':
+      return { type: 'patch', patch: parsed };
+    case 'command':
+      return { type: 'command', command: parsed };
+    case 'test':
+      return { type: 'test', test: parsed };
+    case 'done':
+      return { type: 'done', response: parsed };
+    case 'error':
+      return { type: 'error', error: parsed?.error || parsed?.detail || 'Unknown stream error' };
+    default:
+      return null;
+  }
+}
+
 /**
  * Transform backend AtlasChatResponse to frontend AgentResponse format
  * This adapter ensures frontend components work with properly typed data
@@ -113,7 +626,7 @@ export async function fetchActivityLogs(
     params.append('session_id', sessionId);
   }
 
-  const res = await fetch(`${ATLAS_API_BASE}/logs?${params.toString()}`, {
+  const res = await fetchWithRetry(`${ATLAS_API_BASE}/logs?${params.toString()}`, {
     method: 'GET',
     headers: { 'Content-Type': 'application/json' },
     cache: 'no-store',
@@ -130,7 +643,7 @@ export async function fetchActivityLogs(
  * Clear all activity logs
  */
 export async function clearActivityLogs(): Promise<{ status: string; message: string }> {
-  const res = await fetch(`${ATLAS_API_BASE}/logs/clear`, {
+  const res = await fetchWithTimeout(`${ATLAS_API_BASE}/logs/clear`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
   });
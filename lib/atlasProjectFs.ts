@@ -1,90 +1,231 @@
-import { atlasChat } from "@/lib/atlasClient";
-import type { AtlasChatRequest, AtlasChatResponse } from "@/lib/types";
+/**
+ * Client for the project file API: list, stat, read, write, move and delete
+ * files of an ATLAS project through /api/projects/[projectId]/files.
+ *
+ * Paths are relative to the project root ('.' is the root). Failures throw
+ * a ProjectFsError whose `code` says what went wrong.
+ */
+
+import type { ProjectFileContent, ProjectFileEntry, ProjectFileListResponse } from './types';
+import { RequestOptions, fetchWithRetry, fetchWithTimeout, isAbortError } from './request';
+
+export type ProjectFsErrorCode =
+  | 'not_found'
+  | 'already_exists'
+  | 'conflict'
+  | 'forbidden'
+  | 'invalid_path'
+  | 'unavailable'
+  | 'unknown';
+
+const CODE_BY_STATUS: Record<number, ProjectFsErrorCode> = {
+  400: 'invalid_path',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  412: 'conflict',
+  422: 'invalid_path',
+  502: 'unavailable',
+  503: 'unavailable',
+  504: 'unavailable',
+};
+
+const KNOWN_CODES = new Set<string>(Object.values(CODE_BY_STATUS).concat('already_exists', 'unknown'));
+
+export class ProjectFsError extends Error {
+  constructor(
+    message: string,
+    readonly code: ProjectFsErrorCode,
+    readonly status: number | null,
+    readonly path?: string
+  ) {
+    super(message);
+    this.name = 'ProjectFsError';
+  }
+}
 
-export async function fetchProjectFileList(
-  project: string,
-  subpath: string
-): Promise<string[]> {
-  // Normalize path to ensure proper format
-  const normalizedPath =
-    !subpath || subpath === '.' ? '.' : subpath.startsWith('./') ? subpath : `./${subpath}`;
-
-  const query = `list files in project ${project} ${normalizedPath}`;
-
-  const payload: AtlasChatRequest = {
-    query,
-    assumptions: [],
-    context: null,
-    override_unresolved_assumptions: true,
-  };
-
-  const resp: AtlasChatResponse = await atlasChat(payload);
-
-  if (!resp || typeof resp.answer !== "string") {
-    console.warn('fetchProjectFileList: invalid response', { project, subpath, query, resp });
-    throw new Error("Invalid response from ATLAS Core (missing answer).");
+export function isProjectFsError(err: unknown, code?: ProjectFsErrorCode): err is ProjectFsError {
+  return err instanceof ProjectFsError && (!code || err.code === code);
+}
+
+/**
+ * Canonical form of a project-relative path ('.', 'src', 'src/app.ts'), or
+ * null when it is absolute or climbs out of the project
+ */
+export function normalizeProjectPath(path: string): string | null {
+  const trimmed = path.trim();
+  if (trimmed.startsWith('/') || trimmed.includes('\\') || /^[a-z]:/i.test(trimmed)) return null;
+  const segments = trimmed.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.includes('..')) return null;
+  return segments.length > 0 ? segments.join('/') : '.';
+}
+
+function requirePath(path: string): string {
+  const normalized = normalizeProjectPath(path);
+  if (normalized === null) {
+    throw new ProjectFsError(`Path must stay inside the project: ${path}`, 'invalid_path', null, path);
   }
+  return normalized;
+}
 
-  const answer = resp.answer.trim();
+const filesUrl = (project: string, endpoint = '') =>
+  `/api/projects/${encodeURIComponent(project)}/files${endpoint}`;
 
-  const files = answer
-    .split("\n")
-    .map((ln) => ln.trim())
-    .filter(
-      (ln) =>
-        ln.length > 0 &&
-        !ln.toLowerCase().startsWith("listing files") &&
-        !ln.toLowerCase().startsWith("error:")
-    );
+async function toProjectFsError(res: Response, fallback: string, path?: string): Promise<ProjectFsError> {
+  const data = await res.json().catch(() => ({}));
+  const code: ProjectFsErrorCode = KNOWN_CODES.has(data?.code)
+    ? data.code
+    : CODE_BY_STATUS[res.status] ?? 'unknown';
+  return new ProjectFsError(data?.error || `${fallback} (${res.status})`, code, res.status, path);
+}
 
-  if (files.length === 0) {
-    console.warn('fetchProjectFileList: no files returned', { project, subpath, query, answer });
+// fetch() failures (network, timeout) surface as 'unavailable'
+async function send(
+  request: () => Promise<Response>,
+  fallback: string,
+  path?: string
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await request();
+  } catch (err: any) {
+    if (isAbortError(err)) throw err;
+    throw new ProjectFsError(err?.message || fallback, 'unavailable', null, path);
   }
+  if (!res.ok) throw await toProjectFsError(res, fallback, path);
+  return res;
+}
 
-  return files;
+export async function listProjectFiles(
+  project: string,
+  path = '.',
+  options: RequestOptions = {}
+): Promise<ProjectFileEntry[]> {
+  const dir = requirePath(path);
+  const params = new URLSearchParams({ path: dir });
+  const res = await send(
+    () => fetchWithRetry(`${filesUrl(project)}?${params.toString()}`, { cache: 'no-store' }, options),
+    `Failed to list ${dir}`,
+    dir
+  );
+  const data: ProjectFileListResponse = await res.json();
+  return data.entries ?? [];
 }
 
-export async function fetchProjectFileContent(
+export async function statProjectFile(
   project: string,
-  relativePath: string
-): Promise<string> {
-  const query = `read file project ${project} ${relativePath}`;
+  path: string,
+  options: RequestOptions = {}
+): Promise<ProjectFileEntry> {
+  const file = requirePath(path);
+  const params = new URLSearchParams({ path: file });
+  const res = await send(
+    () => fetchWithRetry(`${filesUrl(project, '/stat')}?${params.toString()}`, { cache: 'no-store' }, options),
+    `Failed to stat ${file}`,
+    file
+  );
+  return res.json();
+}
 
-  const payload: AtlasChatRequest = {
-    query,
-    assumptions: [],
-    context: null,
-    override_unresolved_assumptions: true,
-  };
+export async function readProjectFile(
+  project: string,
+  path: string,
+  options: RequestOptions = {}
+): Promise<ProjectFileContent> {
+  const file = requirePath(path);
+  const params = new URLSearchParams({ path: file });
+  const res = await send(
+    () => fetchWithRetry(`${filesUrl(project, '/content')}?${params.toString()}`, { cache: 'no-store' }, options),
+    `Failed to read ${file}`,
+    file
+  );
+  return res.json();
+}
 
-  const resp: AtlasChatResponse = await atlasChat(payload);
+export interface WriteProjectFileOptions extends RequestOptions {
+  // Fail with 'already_exists' instead of replacing a file; the backend
+  // answers 409, which would otherwise read as 'conflict'
+  createOnly?: boolean;
+  // Fail with 'conflict' when the file changed since this modified_at
+  expectedModifiedAt?: string;
+}
 
-  if (!resp || typeof resp.answer !== "string") {
-    throw new Error("Invalid response from ATLAS Core (missing answer).");
-  }
+export async function writeProjectFile(
+  project: string,
+  path: string,
+  content: string,
+  { createOnly, expectedModifiedAt, ...options }: WriteProjectFileOptions = {}
+): Promise<ProjectFileEntry> {
+  const file = requirePath(path);
+  const res = await send(
+    () =>
+      fetchWithTimeout(
+        filesUrl(project, '/content'),
+        {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            path: file,
+            content,
+            create_only: createOnly || undefined,
+            expected_modified_at: expectedModifiedAt,
+          }),
+        },
+        options
+      ),
+    `Failed to write ${file}`,
+    file
+  ).catch(err => {
+    if (createOnly && isProjectFsError(err, 'conflict') && err.status === 409) {
+      throw new ProjectFsError(`${file} already exists`, 'already_exists', 409, file);
+    }
+    throw err;
+  });
+  return res.json();
+}
 
-  return resp.answer;
+export async function moveProjectFile(
+  project: string,
+  from: string,
+  to: string,
+  { overwrite = false, ...options }: RequestOptions & { overwrite?: boolean } = {}
+): Promise<ProjectFileEntry> {
+  const source = requirePath(from);
+  const target = requirePath(to);
+  const res = await send(
+    () =>
+      fetchWithTimeout(
+        filesUrl(project, '/move'),
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ from: source, to: target, overwrite }),
+        },
+        options
+      ),
+    `Failed to move ${source} to ${target}`,
+    source
+  );
+  return res.json();
 }
 
-export async function writeProjectFile(
+/**
+ * Delete a file, or a directory with `recursive`
+ */
+export async function deleteProjectFile(
   project: string,
-  relativePath: string,
-  content: string
-): Promise<string> {
-  const query = `write file project ${project} ${relativePath}`;
-
-  const payload: AtlasChatRequest = {
-    query,
-    assumptions: [],
-    context: content,
-    override_unresolved_assumptions: true,
-  };
-
-  const resp: AtlasChatResponse = await atlasChat(payload);
-
-  if (!resp || typeof resp.answer !== "string") {
-    throw new Error("Invalid response from ATLAS Core (missing answer).");
+  path: string,
+  { recursive = false, ...options }: RequestOptions & { recursive?: boolean } = {}
+): Promise<void> {
+  const file = requirePath(path);
+  if (file === '.') {
+    throw new ProjectFsError('Refusing to delete the project root', 'invalid_path', null, file);
   }
-
-  return resp.answer;
+  const params = new URLSearchParams({ path: file });
+  if (recursive) params.set('recursive', 'true');
+  await send(
+    () => fetchWithTimeout(`${filesUrl(project)}?${params.toString()}`, { method: 'DELETE' }, options),
+    `Failed to delete ${file}`,
+    file
+  );
 }
@@ -4,6 +4,8 @@
  * Provides functions to fetch skill execution history and details.
  */
 
+import { fetchWithRetry } from './request';
+
 export interface SkillExecutionSummary {
     id: number;
     created_at: string;
@@ -33,7 +35,7 @@ export async function fetchSkillExecutions(
     const queryString = params.toString();
     const url = `/api/atlasSkills${queryString ? `?${queryString}` : ''}`;
 
-    const response = await fetch(url);
+    const response = await fetchWithRetry(url);
     if (!response.ok) {
         throw new Error(`Failed to fetch skill executions: ${response.statusText}`);
     }
@@ -47,7 +49,7 @@ export async function fetchSkillExecutions(
 export async function fetchSkillExecutionDetail(
     id: number
 ): Promise<SkillExecutionDetail> {
-    const response = await fetch(`/api/atlasSkills?id=${id}`);
+    const response = await fetchWithRetry(`/api/atlasSkills?id=${id}`);
     if (!response.ok) {
         throw new Error(`Failed to fetch skill execution detail: ${response.statusText}`);
     }
@@ -0,0 +1,27 @@
+/**
+ * WebSocket endpoints exposed by the console.
+ *
+ * ATLAS Core's streams are proxied through the console origin (see the
+ * rewrites in next.config.js), so sockets are always opened against
+ * window.location rather than the backend host.
+ */
+
+export type AtlasSocketPath =
+  | 'telemetry/stream'
+  | `progress/stream/${string}`
+  | 'terminal';
+
+export function atlasSocketUrl(
+  path: AtlasSocketPath,
+  query?: Record<string, string | number | undefined>
+): string {
+  if (typeof window === 'undefined') {
+    throw new Error('atlasSocketUrl() is only available in the browser');
+  }
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  const url = new URL(`${protocol}://${window.location.host}/ws/${path}`);
+  for (const [key, value] of Object.entries(query || {})) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+  return url.toString();
+}
@@ -0,0 +1,163 @@
+/**
+ * Durable per-session chat history.
+ *
+ * Transcripts (including structured AgentResponse payloads) are stored in
+ * IndexedDB and bounded in size: a single session keeps its most recent
+ * messages up to MAX_SESSION_BYTES, and once all sessions together exceed
+ * MAX_TOTAL_BYTES the least recently updated ones are evicted.
+ */
+
+import type { ChatMessage } from './types';
+import { CONSOLE_DB_STORES, isIndexedDbAvailable, withStore } from './consoleDb';
+
+const STORE = CONSOLE_DB_STORES.chatHistory.name;
+
+const MAX_SESSION_BYTES = 8 * 1024 * 1024; // 8MB
+const MAX_TOTAL_BYTES = 48 * 1024 * 1024; // 48MB
+
+export interface StoredChatHistory {
+  session_id: string;
+  messages: ChatMessage[];
+  updated_at: number; // epoch ms
+  size_bytes: number;
+}
+
+const encoder = new TextEncoder();
+
+function measure(messages: ChatMessage[]): number {
+  return encoder.encode(JSON.stringify(messages)).length;
+}
+
+/**
+ * Drop the oldest messages until the transcript fits the per-session budget
+ */
+function trimToBudget(messages: ChatMessage[]): { messages: ChatMessage[]; size: number } {
+  let kept = messages;
+  let size = measure(kept);
+  while (size > MAX_SESSION_BYTES && kept.length > 1) {
+    kept = kept.slice(Math.max(1, Math.floor(kept.length / 10)));
+    size = measure(kept);
+  }
+  return { messages: kept, size };
+}
+
+export async function loadChatHistory(sessionId: string): Promise<ChatMessage[] | null> {
+  if (!isIndexedDbAvailable()) return null;
+  const record = await withStore<StoredChatHistory | undefined>(STORE, 'readonly', store =>
+    store.get(sessionId)
+  );
+  return record?.messages ?? null;
+}
+
+export async function listChatHistories(): Promise<StoredChatHistory[]> {
+  if (!isIndexedDbAvailable()) return [];
+  return withStore<StoredChatHistory[]>(STORE, 'readonly', store => store.getAll());
+}
+
+export async function saveChatHistory(sessionId: string, messages: ChatMessage[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  const { messages: kept, size } = trimToBudget(messages);
+  const record: StoredChatHistory = {
+    session_id: sessionId,
+    messages: kept,
+    updated_at: Date.now(),
+    size_bytes: size,
+  };
+
+  await withStore(STORE, 'readwrite', store => {
+    store.put(record);
+  });
+  await evictOverBudget(sessionId);
+}
+
+export async function deleteChatHistory(sessionId: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(STORE, 'readwrite', store => {
+    store.delete(sessionId);
+  });
+}
+
+/**
+ * Evict least recently updated sessions until the total fits. The session
+ * that was just written is never evicted.
+ */
+async function evictOverBudget(keepSessionId: string): Promise<void> {
+  const all = await listChatHistories();
+  let total = all.reduce((sum, h) => sum + (h.size_bytes || 0), 0);
+  if (total <= MAX_TOTAL_BYTES) return;
+
+  const candidates = all
+    .filter(h => h.session_id !== keepSessionId)
+    .sort((a, b) => a.updated_at - b.updated_at);
+
+  const evicted: string[] = [];
+  for (const history of candidates) {
+    if (total <= MAX_TOTAL_BYTES) break;
+    evicted.push(history.session_id);
+    total -= history.size_bytes || 0;
+  }
+
+  if (evicted.length > 0) {
+    await withStore(STORE, 'readwrite', store => {
+      evicted.forEach(id => store.delete(id));
+    });
+  }
+}
+
+// -----------------
+// Transcript export / import
+// -----------------
+
+const TRANSCRIPT_FORMAT = 'atlas-console-transcript';
+const TRANSCRIPT_VERSION = 1;
+
+export interface ChatTranscript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  session_id: string;
+  exported_at: string;
+  messages: ChatMessage[];
+}
+
+export function exportTranscript(sessionId: string, messages: ChatMessage[]): ChatTranscript {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    session_id: sessionId,
+    exported_at: new Date().toISOString(),
+    messages,
+  };
+}
+
+/**
+ * Parse and validate an exported transcript. Throws on malformed input.
+ */
+export function parseTranscript(text: string): ChatTranscript {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Transcript is not valid JSON');
+  }
+
+  if (data?.format !== TRANSCRIPT_FORMAT || !Array.isArray(data.messages)) {
+    throw new Error('File is not an ATLAS console transcript');
+  }
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_VERSION) {
+    throw new Error(`Unsupported transcript version: ${data.version}`);
+  }
+
+  const messages: ChatMessage[] = data.messages.map((m: any, i: number) => {
+    if ((m?.type !== 'user' && m?.type !== 'assistant') || typeof m.content !== 'string') {
+      throw new Error(`Transcript message ${i + 1} is malformed`);
+    }
+    return {
+      ...m,
+      id: typeof m.id === 'string' ? m.id : `imported-${i}-${Date.now()}`,
+      created_at: typeof m.created_at === 'string' ? m.created_at : data.exported_at,
+    };
+  });
+
+  return { ...data, messages };
+}
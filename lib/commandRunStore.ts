@@ -0,0 +1,228 @@
+// commandRunStore.ts
+// Zustand store for streamed command runs. Each suggested command or test
+// keeps its recent runs (with output) so they survive re-renders, session
+// switches and page reloads (via IndexedDB).
+
+import { create } from 'zustand';
+import type { CommandRun, CommandRunRequest } from './types';
+import { cancelCommandRun, streamCommandRun } from './atlasConsoleClient';
+import { CONSOLE_DB_STORES, isIndexedDbAvailable, withStore } from './consoleDb';
+import { createRandomId } from './session';
+
+const STORE = CONSOLE_DB_STORES.commandRuns.name;
+
+// Default run timeouts; test suites can take minutes
+export const COMMAND_TIMEOUT_SECONDS = 300;
+export const TEST_TIMEOUT_SECONDS = 900;
+
+const MAX_RUNS_PER_COMMAND = 10;
+const MAX_OUTPUT_CHARS = 512 * 1024;
+
+interface StoredCommandRuns {
+  key: string;
+  runs: CommandRun[];
+}
+
+interface ActiveRun {
+  controller: AbortController;
+  backendRunId?: string;
+  cancelled: boolean;
+}
+
+// Abort handles are not state: they never need to trigger a render
+const activeRuns = new Map<string, ActiveRun>();
+
+interface CommandRunStoreState {
+  runsByKey: Record<string, CommandRun[]>;
+  loadedKeys: Record<string, boolean>;
+
+  // Actions
+  loadRuns: (key: string) => Promise<void>;
+  startRun: (key: string, request: CommandRunRequest) => Promise<CommandRun>;
+  cancelRun: (runId: string) => void;
+  clearRuns: (key: string) => void;
+}
+
+/**
+ * History key for a command: the same command in another session or
+ * working directory keeps its own runs.
+ */
+export function commandRunKey(command: string, cwd?: string, sessionId?: string | null): string {
+  return [sessionId || '', cwd || '', command].join('\u0000');
+}
+
+export function isRunActive(run: CommandRun | undefined): boolean {
+  return run?.status === 'running';
+}
+
+export function formatDuration(ms?: number): string {
+  if (ms === undefined) return '';
+  if (ms < 1000) return `${ms}ms`;
+  // Round before splitting, so 59.96s and 119.6s don't print as 60.0s / 1m 60s
+  const tenths = Math.round(ms / 100);
+  if (tenths < 600) return `${(tenths / 10).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Append output, dropping the oldest chunks once the run exceeds its budget
+ */
+function appendOutput(run: CommandRun, chunk: CommandRun['output'][number]): CommandRun {
+  const output = [...run.output, chunk];
+  let size = output.reduce((sum, c) => sum + c.data.length, 0);
+  let truncated = run.truncated;
+  while (size > MAX_OUTPUT_CHARS && output.length > 1) {
+    size -= output.shift()!.data.length;
+    truncated = true;
+  }
+  return { ...run, output, truncated };
+}
+
+async function persistRuns(key: string, runs: CommandRun[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  // Runs still streaming are stored once they finish
+  const finished = runs.filter(r => r.status !== 'running');
+  await withStore(STORE, 'readwrite', store => {
+    store.put({ key, runs: finished } satisfies StoredCommandRuns);
+  });
+}
+
+export const useCommandRunStore = create<CommandRunStoreState>((set, get) => {
+  const updateRun = (key: string, runId: string, update: (run: CommandRun) => CommandRun) => {
+    set(state => ({
+      runsByKey: {
+        ...state.runsByKey,
+        [key]: (state.runsByKey[key] || []).map(r => (r.id === runId ? update(r) : r)),
+      },
+    }));
+  };
+
+  const finishRun = (key: string, runId: string, changes: Partial<CommandRun>) => {
+    activeRuns.delete(runId);
+    updateRun(key, runId, run => ({
+      ...run,
+      ...changes,
+      finished_at: new Date().toISOString(),
+      duration_ms: changes.duration_ms ?? Date.now() - new Date(run.started_at).getTime(),
+    }));
+    persistRuns(key, get().runsByKey[key] || []).catch(err =>
+      console.warn('Failed to persist command runs:', err)
+    );
+  };
+
+  return {
+    runsByKey: {},
+    loadedKeys: {},
+
+    loadRuns: async (key) => {
+      if (get().loadedKeys[key] || !isIndexedDbAvailable()) return;
+      set(state => ({ loadedKeys: { ...state.loadedKeys, [key]: true } }));
+      try {
+        const record = await withStore<StoredCommandRuns | undefined>(STORE, 'readonly', store =>
+          store.get(key)
+        );
+        if (!record?.runs.length) return;
+        set(state => ({
+          runsByKey: {
+            ...state.runsByKey,
+            // Runs started while loading stay on top
+            [key]: [...(state.runsByKey[key] || []), ...record.runs].slice(0, MAX_RUNS_PER_COMMAND),
+          },
+        }));
+      } catch (err) {
+        console.warn('Failed to load command runs:', err);
+      }
+    },
+
+    startRun: async (key, request) => {
+      const run: CommandRun = {
+        id: createRandomId(),
+        command: request.command,
+        cwd: request.cwd,
+        status: 'running',
+        started_at: new Date().toISOString(),
+        output: [],
+      };
+      const active: ActiveRun = { controller: new AbortController(), cancelled: false };
+      activeRuns.set(run.id, active);
+
+      set(state => ({
+        runsByKey: {
+          ...state.runsByKey,
+          [key]: [run, ...(state.runsByKey[key] || [])].slice(0, MAX_RUNS_PER_COMMAND),
+        },
+      }));
+
+      // Filled in by stream callbacks
+      const outcome: { exit?: Partial<CommandRun>; error?: string } = {};
+
+      try {
+        await streamCommandRun(
+          request,
+          event => {
+            switch (event.type) {
+              case 'start':
+                if (event.run_id) active.backendRunId = event.run_id;
+                else updateRun(key, run.id, r => ({ ...r, cancellable: false }));
+                break;
+              case 'output':
+                updateRun(key, run.id, r => appendOutput(r, { stream: event.stream, data: event.data }));
+                break;
+              case 'exit':
+                outcome.exit = {
+                  exit_code: event.exit_code,
+                  duration_ms: event.duration_ms,
+                  timed_out: event.timed_out,
+                  status: event.exit_code === 0 ? 'success' : 'failed',
+                };
+                break;
+              case 'error':
+                outcome.error = event.error;
+                break;
+            }
+          },
+          active.controller.signal
+        );
+      } catch (err: any) {
+        if (!active.cancelled) outcome.error = err?.message || 'Network error';
+      }
+
+      if (active.cancelled) {
+        finishRun(key, run.id, { status: 'cancelled', exit_code: outcome.exit?.exit_code });
+      } else if (outcome.exit) {
+        finishRun(key, run.id, { ...outcome.exit, error: outcome.error });
+      } else {
+        finishRun(key, run.id, {
+          status: 'failed',
+          error: outcome.error || 'Command stream ended without an exit code',
+        });
+      }
+
+      return get().runsByKey[key]?.find(r => r.id === run.id) ?? run;
+    },
+
+    cancelRun: (runId) => {
+      const active = activeRuns.get(runId);
+      if (!active) return;
+      active.cancelled = true;
+      // Ask the backend to kill the process, then stop reading the stream
+      if (active.backendRunId) {
+        cancelCommandRun(active.backendRunId).catch(err =>
+          console.warn('Failed to cancel command on backend:', err)
+        );
+      }
+      active.controller.abort();
+    },
+
+    clearRuns: (key) => {
+      set(state => ({
+        runsByKey: {
+          ...state.runsByKey,
+          [key]: (state.runsByKey[key] || []).filter(r => r.status === 'running'),
+        },
+      }));
+      persistRuns(key, []).catch(err => console.warn('Failed to clear command runs:', err));
+    },
+  };
+});
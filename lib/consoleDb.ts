@@ -0,0 +1,85 @@
+/**
+ * IndexedDB access for console state that must survive a page reload.
+ *
+ * All object stores live in a single database; bump DB_VERSION and add the
+ * store to CONSOLE_DB_STORES when a new one is needed.
+ */
+
+const DB_NAME = 'atlas_console';
+const DB_VERSION = 6;
+
+export const CONSOLE_DB_STORES = {
+  chatHistory: { name: 'chat_history', keyPath: 'session_id' },
+  commandRuns: { name: 'command_runs', keyPath: 'key' },
+  editorLayouts: { name: 'editor_layouts', keyPath: 'session_id' },
+  fileOperations: { name: 'file_operations', keyPath: 'key' },
+  patchJournal: { name: 'patch_journal', keyPath: 'session_id' },
+  sessionAssumptions: { name: 'session_assumptions', keyPath: 'session_id' },
+} as const;
+
+export type ConsoleDbStoreName =
+  (typeof CONSOLE_DB_STORES)[keyof typeof CONSOLE_DB_STORES]['name'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
+
+export function openConsoleDb(): Promise<IDBDatabase> {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of Object.values(CONSOLE_DB_STORES)) {
+        if (!db.objectStoreNames.contains(store.name)) {
+          db.createObjectStore(store.name, { keyPath: store.keyPath });
+        }
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema: drop our handle so the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open IndexedDB'));
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run `fn` inside a transaction on one store. Resolves with the result of
+ * the request returned by `fn` once the transaction has committed.
+ */
+export async function withStore<T = undefined>(
+  storeName: ConsoleDbStoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openConsoleDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error || new Error(`IndexedDB transaction on ${storeName} failed`));
+    tx.onabort = () => reject(tx.error || new Error(`IndexedDB transaction on ${storeName} aborted`));
+  });
+}
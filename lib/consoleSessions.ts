@@ -0,0 +1,66 @@
+/**
+ * Naming, search and ordering of console sessions for the session manager.
+ *
+ * Search terms are matched against name, id, project, root path and tags;
+ * `tag:x` and `project:x` narrow to that tag or project.
+ */
+
+import type { ConsoleSession } from './types';
+
+export function sessionDisplayName(session: ConsoleSession): string {
+  return session.name?.trim() || session.session_id.slice(0, 8);
+}
+
+// Last activity as epoch ms, 0 when the backend gave no times
+export function sessionActivity(session: ConsoleSession): number {
+  const time = Date.parse(session.updated_at ?? session.created_at ?? '');
+  return Number.isNaN(time) ? 0 : time;
+}
+
+export function sortByActivity(sessions: ConsoleSession[]): ConsoleSession[] {
+  return [...sessions].sort((a, b) => sessionActivity(b) - sessionActivity(a));
+}
+
+/**
+ * Tags from user input: comma or space separated, lowercased, no duplicates
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[\s,]+/)
+    .map(tag => tag.replace(/^#/, '').toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function matchesSessionQuery(session: ConsoleSession, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const tags = session.tags ?? [];
+  const haystack = [session.name, session.session_id, session.project_id, session.root_path, ...tags]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  return terms.every(term => {
+    if (term.startsWith('tag:')) return tags.includes(term.slice(4));
+    if (term.startsWith('project:')) return (session.project_id ?? '').toLowerCase() === term.slice(8);
+    return haystack.includes(term);
+  });
+}
+
+export function allSessionTags(sessions: ConsoleSession[]): string[] {
+  return Array.from(new Set(sessions.flatMap(s => s.tags ?? []))).sort();
+}
+
+/**
+ * "just now", "5m ago", "3h ago", "2d ago", then the date
+ */
+export function formatRelativeTime(iso: string | undefined, now = Date.now()): string {
+  const time = iso ? Date.parse(iso) : NaN;
+  if (Number.isNaN(time)) return '—';
+  const minutes = Math.floor((now - time) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+  return new Date(time).toLocaleDateString();
+}
@@ -0,0 +1,78 @@
+/**
+ * Helpers for answering AgentResponse.context_requests: gathering files,
+ * command output and free text, and packing the answers into the `context`
+ * sent with the re-submitted query.
+ */
+
+import type { CommandRun, ContextMaterial, ContextRequest } from './types';
+
+export type ContextAnswers = Record<string, ContextMaterial[]>;
+
+// Keep re-submitted context within a reasonable request size
+export const MAX_CONTEXT_FILE_CHARS = 100_000;
+export const MAX_CONTEXT_OUTPUT_CHARS = 20_000;
+
+export function fileMaterial(path: string, content: string): ContextMaterial {
+  const truncated = content.length > MAX_CONTEXT_FILE_CHARS;
+  return {
+    kind: 'file',
+    path,
+    content: truncated ? content.slice(0, MAX_CONTEXT_FILE_CHARS) : content,
+    ...(truncated && { truncated }),
+  };
+}
+
+/**
+ * Output of a finished run, keeping the tail when it is too long
+ */
+export function commandMaterial(run: CommandRun): ContextMaterial {
+  let output = run.output.map(chunk => chunk.data).join('');
+  if (run.error) output += `${output ? '\n' : ''}${run.error}`;
+  if (output.length > MAX_CONTEXT_OUTPUT_CHARS) {
+    output = `[...truncated]\n${output.slice(-MAX_CONTEXT_OUTPUT_CHARS)}`;
+  }
+  return { kind: 'command', command: run.command, exit_code: run.exit_code, output };
+}
+
+export function materialLabel(material: ContextMaterial): string {
+  switch (material.kind) {
+    case 'file':
+      return material.path;
+    case 'command':
+      return material.exit_code === undefined
+        ? `$ ${material.command}`
+        : `$ ${material.command} (exit ${material.exit_code})`;
+    case 'text':
+      return material.text.length > 60 ? `${material.text.slice(0, 60)}...` : material.text;
+  }
+}
+
+export function answeredCount(requests: ContextRequest[], answers: ContextAnswers): number {
+  return requests.filter(r => (answers[r.request_id]?.length || 0) > 0).length;
+}
+
+/**
+ * Ready to re-submit: every required request has material, and at least
+ * one request was answered at all
+ */
+export function isContextComplete(requests: ContextRequest[], answers: ContextAnswers): boolean {
+  return (
+    answeredCount(requests, answers) > 0 &&
+    requests.every(r => !r.required || (answers[r.request_id]?.length || 0) > 0)
+  );
+}
+
+/**
+ * The `context` string for the re-submitted query: a JSON object keyed by
+ * request_id, holding the request description and the gathered material
+ */
+export function buildContextPayload(requests: ContextRequest[], answers: ContextAnswers): string {
+  const payload: Record<string, { description: string; materials: ContextMaterial[] }> = {};
+  for (const request of requests) {
+    const materials = answers[request.request_id];
+    if (materials?.length) {
+      payload[request.request_id] = { description: request.description, materials };
+    }
+  }
+  return JSON.stringify({ context_responses: payload }, null, 2);
+}
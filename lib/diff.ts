@@ -0,0 +1,542 @@
+/**
+ * Unified diff model.
+ *
+ * Parses the unified diffs ATLAS proposes into files, hunks and lines, and
+ * serializes them back, optionally keeping only a subset of hunks so a
+ * reviewer can apply part of a patch.
+ */
+
+export type DiffLineType = 'context' | 'add' | 'del';
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldNumber?: number;
+  newNumber?: number;
+  // "\ No newline at end of file" followed this line
+  noNewline?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section?: string; // text after the closing @@ (usually the enclosing function)
+  lines: DiffLine[];
+}
+
+export interface DiffFile {
+  oldPath: string | null; // null for created files
+  newPath: string | null; // null for deleted files
+  headers: string[]; // "diff --git", "index", mode lines... preserved verbatim
+  hunks: DiffHunk[];
+}
+
+export interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+function stripPathPrefix(raw: string): string | null {
+  const path = raw.split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff. Hunks that appear before any ---/+++ header are
+ * attributed to `defaultPath` (agent patches often omit file headers).
+ */
+export function parseUnifiedDiff(text: string, defaultPath?: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let pendingHeaders: string[] = [];
+
+  const startFile = (): DiffFile => {
+    const next: DiffFile = {
+      oldPath: defaultPath ?? null,
+      newPath: defaultPath ?? null,
+      headers: pendingHeaders,
+      hunks: [],
+    };
+    pendingHeaders = [];
+    files.push(next);
+    return next;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const inHunk = hunk !== null && isInsideHunk(hunk, oldLine, newLine);
+
+    if (!inHunk && line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      file = startFile();
+      file.oldPath = stripPathPrefix(line.slice(4));
+      file.newPath = stripPathPrefix(lines[i + 1].slice(4));
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!file) file = startFile();
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        section: header[5] || undefined,
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      continue;
+    }
+
+    if (hunk && line.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewline = true;
+      continue;
+    }
+
+    if (hunk && (line.startsWith('+') || line.startsWith('-') || line.startsWith(' '))) {
+      const content = line.slice(1);
+      if (line[0] === '+') {
+        hunk.lines.push({ type: 'add', content, newNumber: newLine++ });
+      } else if (line[0] === '-') {
+        hunk.lines.push({ type: 'del', content, oldNumber: oldLine++ });
+      } else {
+        hunk.lines.push({ type: 'context', content, oldNumber: oldLine++, newNumber: newLine++ });
+      }
+      continue;
+    }
+
+    // Blank lines inside a hunk are context lines whose leading space was stripped
+    if (hunk && inHunk && line === '' && i < lines.length - 1) {
+      hunk.lines.push({ type: 'context', content: '', oldNumber: oldLine++, newNumber: newLine++ });
+      continue;
+    }
+
+    // Anything else (diff --git, index, mode lines) belongs to the next file
+    if (line !== '') {
+      hunk = null;
+      if (line.startsWith('diff ')) file = null;
+      pendingHeaders.push(line);
+    }
+  }
+
+  return files.filter(f => f.hunks.length > 0);
+}
+
+function isInsideHunk(hunk: DiffHunk, oldLine: number, newLine: number): boolean {
+  return oldLine < hunk.oldStart + hunk.oldLines || newLine < hunk.newStart + hunk.newLines;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+function serializeHunk(hunk: DiffHunk, newStart: number): string[] {
+  const oldLines = hunk.lines.filter(l => l.type !== 'add').length;
+  const newLines = hunk.lines.filter(l => l.type !== 'del').length;
+  const out = [
+    `@@ -${formatRange(hunk.oldStart, oldLines)} +${formatRange(newStart, newLines)} @@` +
+      (hunk.section ? ` ${hunk.section}` : ''),
+  ];
+  for (const line of hunk.lines) {
+    out.push(`${line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' '}${line.content}`);
+    if (line.noNewline) out.push('\\ No newline at end of file');
+  }
+  return out;
+}
+
+/**
+ * Serialize files back to unified diff text. When `keepHunk` is given,
+ * rejected hunks are dropped and the new-file line numbers of the hunks
+ * after them are shifted so the result still applies cleanly.
+ */
+export function serializeUnifiedDiff(
+  files: DiffFile[],
+  keepHunk: (fileIndex: number, hunkIndex: number) => boolean = () => true
+): string {
+  const out: string[] = [];
+
+  files.forEach((file, fileIndex) => {
+    const kept = file.hunks
+      .map((hunk, hunkIndex) => ({ hunk, keep: keepHunk(fileIndex, hunkIndex) }));
+    if (!kept.some(k => k.keep)) return;
+
+    out.push(...file.headers);
+    out.push(`--- ${file.oldPath ? `a/${file.oldPath}` : '/dev/null'}`);
+    out.push(`+++ ${file.newPath ? `b/${file.newPath}` : '/dev/null'}`);
+
+    let shift = 0;
+    for (const { hunk, keep } of kept) {
+      if (keep) {
+        out.push(...serializeHunk(hunk, hunk.newStart + shift));
+      } else {
+        // The dropped hunk no longer adds/removes lines in the new file
+        shift -= hunkDelta(hunk);
+      }
+    }
+  });
+
+  return out.length > 0 ? `${out.join('\n')}\n` : '';
+}
+
+/**
+ * Lines added minus lines removed by a hunk
+ */
+export function hunkDelta(hunk: DiffHunk): number {
+  return hunk.lines.reduce(
+    (delta, line) => delta + (line.type === 'add' ? 1 : line.type === 'del' ? -1 : 0),
+    0
+  );
+}
+
+export function countChanges(files: DiffFile[]): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  files.forEach(file =>
+    file.hunks.forEach(hunk =>
+      hunk.lines.forEach(line => {
+        if (line.type === 'add') additions++;
+        else if (line.type === 'del') deletions++;
+      })
+    )
+  );
+  return { additions, deletions };
+}
+
+/**
+ * Pair a hunk's lines for a side-by-side view: runs of deletions are
+ * matched row by row with the additions that follow them.
+ */
+export function toSideBySideRows(hunk: DiffHunk): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let dels: DiffLine[] = [];
+  let adds: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i++) {
+      rows.push({ left: dels[i], right: adds[i] });
+    }
+    dels = [];
+    adds = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'del') {
+      if (adds.length > 0) flush();
+      dels.push(line);
+    } else if (line.type === 'add') {
+      adds.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
+// -----------------
+// Dry-run application
+// -----------------
+
+export type HunkApplyStatus = 'clean' | 'offset' | 'fuzz' | 'conflict';
+
+export interface HunkApplyResult {
+  status: HunkApplyStatus;
+  offset: number; // lines between the header position and where the hunk matched
+  fuzz: number; // context lines ignored at each end to make it match
+  reason?: string;
+}
+
+export type PatchApplyStatus = 'clean' | 'offset' | 'conflict';
+
+export interface FileApplyResult {
+  status: PatchApplyStatus;
+  hunks: HunkApplyResult[];
+}
+
+export interface ApplyOptions {
+  maxFuzz?: number;
+  // Hunks to leave out (e.g. rejected in review)
+  skipHunk?: (hunkIndex: number) => boolean;
+}
+
+const DEFAULT_MAX_FUZZ = 2;
+
+function matchesAt(fileLines: string[], pattern: DiffLine[], at: number): boolean {
+  if (at < 0 || at + pattern.length > fileLines.length) return false;
+  for (let i = 0; i < pattern.length; i++) {
+    if (fileLines[at + i] !== pattern[i].content) return false;
+  }
+  return true;
+}
+
+/**
+ * Find where `pattern` occurs, searching outward from `expected` and never
+ * before `minStart` (hunks must not overlap or go backwards).
+ */
+function locate(fileLines: string[], pattern: DiffLine[], expected: number, minStart: number): number {
+  const maxDistance = Math.max(expected - minStart, fileLines.length - expected);
+  for (let d = 0; d <= maxDistance; d++) {
+    if (expected - d >= minStart && matchesAt(fileLines, pattern, expected - d)) return expected - d;
+    if (d > 0 && matchesAt(fileLines, pattern, expected + d)) return expected + d;
+  }
+  return -1;
+}
+
+/**
+ * Number of leading/trailing context lines fuzz may drop from a hunk
+ */
+function contextRun(lines: DiffLine[], fromEnd: boolean): number {
+  let count = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[fromEnd ? lines.length - 1 - i : i];
+    if (line.type !== 'context') break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Dry-run one file's hunks against `content` the way `patch` would place
+ * them: each hunk is matched at its stated line, then at increasing
+ * offsets, then with up to `maxFuzz` context lines ignored at either end.
+ * Hunks that cannot be placed are reported as conflicts.
+ */
+export function applyFileHunks(content: string, file: DiffFile, options: ApplyOptions = {}): FileApplyResult {
+  const maxFuzz = options.maxFuzz ?? DEFAULT_MAX_FUZZ;
+  const fileLines = content === '' ? [] : content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+  let cursor = 0; // next unconsumed line of the original file
+  const results: HunkApplyResult[] = [];
+
+  file.hunks.forEach((hunk, hunkIndex) => {
+    if (options.skipHunk?.(hunkIndex)) {
+      results.push({ status: 'clean', offset: 0, fuzz: 0 });
+      return;
+    }
+
+    // Without old lines (zero-context insertions, new files) the hunk goes
+    // after line oldStart; otherwise it starts at that line
+    const expected = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    let placed: { at: number; fuzz: number; lines: DiffLine[] } | null = null;
+
+    for (let fuzz = 0; fuzz <= maxFuzz && !placed; fuzz++) {
+      const lead = Math.min(fuzz, contextRun(hunk.lines, false));
+      const trail = Math.min(fuzz, contextRun(hunk.lines, true));
+      if (fuzz > 0 && lead === 0 && trail === 0) break;
+      const lines = hunk.lines.slice(lead, hunk.lines.length - trail);
+      const pattern = lines.filter(l => l.type !== 'add');
+      const at = locate(fileLines, pattern, expected + lead, cursor);
+      if (at !== -1) placed = { at, fuzz, lines };
+    }
+
+    if (!placed) {
+      results.push({
+        status: 'conflict',
+        offset: 0,
+        fuzz: 0,
+        reason: `Context at line ${hunk.oldStart} does not match the current file`,
+      });
+      return;
+    }
+
+    const offset = placed.at - expected - Math.min(placed.fuzz, contextRun(hunk.lines, false));
+    results.push({
+      status: placed.fuzz > 0 ? 'fuzz' : offset !== 0 ? 'offset' : 'clean',
+      offset,
+      fuzz: placed.fuzz,
+    });
+
+    cursor = placed.at + placed.lines.filter(l => l.type !== 'add').length;
+  });
+
+  const hunkStatuses = results.filter((_, i) => !options.skipHunk?.(i));
+  const status: PatchApplyStatus = hunkStatuses.some(r => r.status === 'conflict')
+    ? 'conflict'
+    : hunkStatuses.some(r => r.status !== 'clean')
+      ? 'offset'
+      : 'clean';
+
+  return { status, hunks: results };
+}
+
+// -----------------
+// Diff generation
+// -----------------
+
+type EditOp = { type: DiffLineType; line: string };
+
+/**
+ * Myers O(ND) line diff
+ */
+function diffLines(a: string[], b: string[]): EditOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[max + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[max + k - 1] < vd[max + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[max + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'context', line: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) ops.push({ type: 'add', line: b[--y] });
+    else ops.push({ type: 'del', line: a[--x] });
+  }
+  return ops.reverse();
+}
+
+function splitContent(text: string): { lines: string[]; noNewline: boolean } {
+  if (text === '') return { lines: [], noNewline: false };
+  const normalized = text.replace(/\r\n/g, '\n');
+  const noNewline = !normalized.endsWith('\n');
+  return { lines: (noNewline ? normalized : normalized.slice(0, -1)).split('\n'), noNewline };
+}
+
+/**
+ * Build a unified diff turning `oldText` into `newText`. A null side means
+ * the file does not exist (creation or deletion).
+ */
+export function createUnifiedDiff(
+  path: string,
+  oldText: string | null,
+  newText: string | null,
+  context = 3
+): DiffFile {
+  const before = splitContent(oldText ?? '');
+  const after = splitContent(newText ?? '');
+  const ops = diffLines(before.lines, after.lines);
+
+  const file: DiffFile = {
+    oldPath: oldText === null ? null : path,
+    newPath: newText === null ? null : path,
+    headers: [],
+    hunks: [],
+  };
+
+  // Number every op, then cut hunks around the changes
+  let oldNo = 1;
+  let newNo = 1;
+  const numbered: DiffLine[] = ops.map(op => {
+    if (op.type === 'add') return { type: 'add', content: op.line, newNumber: newNo++ };
+    if (op.type === 'del') return { type: 'del', content: op.line, oldNumber: oldNo++ };
+    return { type: 'context', content: op.line, oldNumber: oldNo++, newNumber: newNo++ };
+  });
+
+  // Mark the last line of each side that lacks a trailing newline
+  const lastOld = [...numbered].reverse().find(l => l.type !== 'add');
+  const lastNew = [...numbered].reverse().find(l => l.type !== 'del');
+  if (before.noNewline && after.noNewline && lastOld === lastNew && lastOld) {
+    lastOld.noNewline = true;
+  } else {
+    if (before.noNewline && lastOld) {
+      if (lastOld.type === 'context') {
+        // Same text, but the newline changed: express it as a replacement
+        const index = numbered.indexOf(lastOld);
+        numbered.splice(
+          index,
+          1,
+          { type: 'del', content: lastOld.content, oldNumber: lastOld.oldNumber, noNewline: true },
+          { type: 'add', content: lastOld.content, newNumber: lastOld.newNumber }
+        );
+      } else {
+        lastOld.noNewline = true;
+      }
+    }
+    if (after.noNewline && lastNew) {
+      if (lastNew.type === 'context') {
+        const index = numbered.indexOf(lastNew);
+        numbered.splice(
+          index,
+          1,
+          { type: 'del', content: lastNew.content, oldNumber: lastNew.oldNumber },
+          { type: 'add', content: lastNew.content, newNumber: lastNew.newNumber, noNewline: true }
+        );
+      } else {
+        lastNew.noNewline = true;
+      }
+    }
+  }
+
+  let i = 0;
+  while (i < numbered.length) {
+    if (numbered[i].type === 'context') {
+      i++;
+      continue;
+    }
+    const start = Math.max(0, i - context);
+    let end = i;
+    // Extend while the next change is within 2*context lines
+    while (end < numbered.length) {
+      if (numbered[end].type !== 'context') {
+        end++;
+        continue;
+      }
+      let run = 0;
+      while (end + run < numbered.length && numbered[end + run].type === 'context') run++;
+      if (end + run >= numbered.length || run > context * 2) {
+        end += Math.min(run, context);
+        break;
+      }
+      end += run;
+    }
+
+    const lines = numbered.slice(start, end);
+    const firstOld = lines.find(l => l.oldNumber !== undefined)?.oldNumber;
+    const firstNew = lines.find(l => l.newNumber !== undefined)?.newNumber;
+    const oldLines = lines.filter(l => l.type !== 'add').length;
+    const newLines = lines.filter(l => l.type !== 'del').length;
+    file.hunks.push({
+      // Empty sides are addressed as line 0 by convention
+      oldStart: oldLines === 0 ? (firstOld ?? oldNo) - 1 : firstOld!,
+      oldLines,
+      newStart: newLines === 0 ? (firstNew ?? newNo) - 1 : firstNew!,
+      newLines,
+      lines,
+    });
+    i = end;
+  }
+
+  return file;
+}
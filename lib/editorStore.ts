@@ -0,0 +1,366 @@
+// editorStore.ts
+// Open editors: file tabs in one editor group, or two when the editor area
+// is split. The active tab of the active group is the console's selected
+// file. The layout is saved per session and restored when the session is
+// opened again; unsaved edits are not.
+
+import { create } from 'zustand';
+import type { LineRange } from './urlState';
+import { CONSOLE_DB_STORES, isIndexedDbAvailable, withStore } from './consoleDb';
+
+const STORE = CONSOLE_DB_STORES.editorLayouts.name;
+
+export type EditorGroupId = 'primary' | 'secondary';
+
+// vertical: groups side by side; horizontal: stacked
+export type EditorSplit = 'none' | 'vertical' | 'horizontal';
+
+export interface EditorTab {
+  path: string;
+  // Pinned tabs stay in front and survive "close others"
+  pinned: boolean;
+  lines: LineRange | null;
+}
+
+export interface EditorGroup {
+  tabs: EditorTab[];
+  activePath: string | null;
+}
+
+export interface EditorLayout {
+  groups: Record<EditorGroupId, EditorGroup>;
+  activeGroup: EditorGroupId;
+  split: EditorSplit;
+}
+
+interface StoredEditorLayout extends EditorLayout {
+  session_id: string;
+}
+
+export const EDITOR_GROUP_IDS: EditorGroupId[] = ['primary', 'secondary'];
+
+const emptyGroup = (): EditorGroup => ({ tabs: [], activePath: null });
+
+const emptyLayout = (): EditorLayout => ({
+  groups: { primary: emptyGroup(), secondary: emptyGroup() },
+  activeGroup: 'primary',
+  split: 'none',
+});
+
+const isWithin = (path: string, ancestor: string) => path === ancestor || path.startsWith(`${ancestor}/`);
+
+export const dirtyKey = (group: EditorGroupId, path: string) => `${group}:${path}`;
+
+/**
+ * `tabs` with `tab` moved or inserted at `index`, kept inside the pinned or
+ * unpinned block it belongs to
+ */
+export function insertTab(tabs: EditorTab[], tab: EditorTab, index: number): EditorTab[] {
+  const rest = tabs.filter(t => t.path !== tab.path);
+  const pinned = rest.filter(t => t.pinned).length;
+  const [min, max] = tab.pinned ? [0, pinned] : [pinned, rest.length];
+  const at = Math.min(Math.max(index, min), max);
+  return [...rest.slice(0, at), tab, ...rest.slice(at)];
+}
+
+function openInGroup(group: EditorGroup, path: string, lines: LineRange | null): EditorGroup {
+  if (group.tabs.some(t => t.path === path)) {
+    return { tabs: group.tabs.map(t => (t.path === path ? { ...t, lines } : t)), activePath: path };
+  }
+  // New tabs open next to the active one
+  const activeIndex = group.tabs.findIndex(t => t.path === group.activePath);
+  const index = activeIndex === -1 ? group.tabs.length : activeIndex + 1;
+  return { tabs: insertTab(group.tabs, { path, pinned: false, lines }, index), activePath: path };
+}
+
+// Removes the tabs `closes` matches; the active tab passes to its right
+// neighbour, else its left one
+function closeInGroup(group: EditorGroup, closes: (tab: EditorTab) => boolean): EditorGroup {
+  const tabs = group.tabs.filter(t => !closes(t));
+  if (tabs.some(t => t.path === group.activePath)) return { tabs, activePath: group.activePath };
+  const activeIndex = group.tabs.findIndex(t => t.path === group.activePath);
+  const survivor =
+    group.tabs.slice(activeIndex + 1).find(t => !closes(t)) ??
+    group.tabs.slice(0, Math.max(activeIndex, 0)).reverse().find(t => !closes(t));
+  return { tabs, activePath: survivor?.path ?? null };
+}
+
+// An empty group closes the split
+function normalize(layout: EditorLayout): EditorLayout {
+  const { primary, secondary } = layout.groups;
+  if (layout.split !== 'none' && primary.tabs.length > 0 && secondary.tabs.length > 0) return layout;
+  return {
+    groups: { primary: primary.tabs.length > 0 ? primary : secondary, secondary: emptyGroup() },
+    activeGroup: 'primary',
+    split: 'none',
+  };
+}
+
+/**
+ * `restored` plus the tabs opened before it was loaded (e.g. from a link),
+ * keeping the file that was active then
+ */
+export function mergeLayouts(restored: EditorLayout, current: EditorLayout): EditorLayout {
+  const layout: EditorLayout = {
+    ...restored,
+    groups: { primary: { ...restored.groups.primary }, secondary: { ...restored.groups.secondary } },
+  };
+  const groupWith = (path: string) =>
+    EDITOR_GROUP_IDS.find(id => layout.groups[id].tabs.some(t => t.path === path)) ?? null;
+
+  for (const id of EDITOR_GROUP_IDS) {
+    for (const tab of current.groups[id].tabs) {
+      const target = groupWith(tab.path) ?? layout.activeGroup;
+      const group = layout.groups[target];
+      layout.groups[target] = {
+        tabs: group.tabs.some(t => t.path === tab.path)
+          ? group.tabs.map(t => (t.path === tab.path ? { ...t, lines: tab.lines } : t))
+          : insertTab(group.tabs, tab, group.tabs.length),
+        activePath: group.activePath,
+      };
+    }
+  }
+
+  const active = current.groups[current.activeGroup].activePath;
+  const activeGroup = active ? groupWith(active) : null;
+  if (active && activeGroup) {
+    layout.activeGroup = activeGroup;
+    layout.groups[activeGroup] = { ...layout.groups[activeGroup], activePath: active };
+  }
+  return normalize(layout);
+}
+
+const layoutOf = ({ groups, activeGroup, split }: EditorLayout): EditorLayout => ({ groups, activeGroup, split });
+
+async function persistLayout(sessionId: string, layout: EditorLayout): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(STORE, 'readwrite', store => {
+    store.put({ session_id: sessionId, ...layout } satisfies StoredEditorLayout);
+  });
+}
+
+interface EditorStoreState extends EditorLayout {
+  // dirtyKey(group, path) of tabs with unsaved edits
+  dirty: Record<string, boolean>;
+  sessionId: string | null;
+  // The session's saved layout has been read (nothing is saved before)
+  loaded: boolean;
+
+  // Actions
+  loadSession: (sessionId: string) => Promise<void>;
+  // Opens `path` in `group` (default: the active one), or switches to its tab
+  openFile: (path: string, lines?: LineRange | null, group?: EditorGroupId) => void;
+  // Leaves the active group without an active tab
+  clearActive: () => void;
+  activateTab: (group: EditorGroupId, path: string) => void;
+  setActiveGroup: (group: EditorGroupId) => void;
+  setLines: (group: EditorGroupId, path: string, lines: LineRange | null) => void;
+  setDirty: (group: EditorGroupId, path: string, dirty: boolean) => void;
+  closeTab: (group: EditorGroupId, path: string) => void;
+  // Closes every unpinned tab of `group` but `path`
+  closeOtherTabs: (group: EditorGroupId, path: string) => void;
+  togglePin: (group: EditorGroupId, path: string) => void;
+  moveTab: (from: EditorGroupId, path: string, to: EditorGroupId, index: number) => void;
+  // Opens the active file in a second group; changes direction when already split
+  splitEditor: (direction: Exclude<EditorSplit, 'none'>) => void;
+  // Moves the second group's tabs into the first
+  unsplitEditor: () => void;
+  // Follow a file or folder renamed or deleted in the workspace (renamed
+  // tabs reload, so unsaved edits in them are lost)
+  renamePath: (from: string, to: string) => void;
+  closePath: (path: string) => void;
+}
+
+export const useEditorStore = create<EditorStoreState>((set, get) => {
+  const update = (fn: (layout: EditorLayout) => EditorLayout) => {
+    set(state => normalize(fn(layoutOf(state))));
+    const { sessionId, loaded } = get();
+    if (!sessionId || !loaded) return;
+    persistLayout(sessionId, layoutOf(get())).catch(err =>
+      console.warn('Failed to persist editor layout:', err)
+    );
+  };
+
+  const updateGroup = (id: EditorGroupId, fn: (group: EditorGroup) => EditorGroup) =>
+    update(layout => ({ ...layout, groups: { ...layout.groups, [id]: fn(layout.groups[id]) } }));
+
+  return {
+    ...emptyLayout(),
+    dirty: {},
+    sessionId: null,
+    loaded: false,
+
+    loadSession: async (sessionId) => {
+      const state = get();
+      if (state.sessionId === sessionId) return;
+      // Tabs belong to a session; only ones with unsaved edits come along
+      const carried: EditorLayout = state.sessionId
+        ? normalize({
+            ...emptyLayout(),
+            groups: {
+              primary: {
+                tabs: EDITOR_GROUP_IDS.flatMap(id =>
+                  state.groups[id].tabs.filter(t => state.dirty[dirtyKey(id, t.path)])
+                ),
+                activePath: null,
+              },
+              secondary: emptyGroup(),
+            },
+          })
+        : layoutOf(state);
+      const dirty = state.sessionId
+        ? Object.fromEntries(carried.groups.primary.tabs.map(t => [dirtyKey('primary', t.path), true]))
+        : state.dirty;
+      set({ ...carried, dirty, sessionId, loaded: false });
+
+      try {
+        if (isIndexedDbAvailable()) {
+          const stored = await withStore<StoredEditorLayout | undefined>(STORE, 'readonly', store =>
+            store.get(sessionId)
+          );
+          if (get().sessionId !== sessionId) return;
+          if (stored) {
+            set(current => mergeLayouts(layoutOf(stored), layoutOf(current)));
+          }
+        }
+      } catch (err) {
+        console.warn('Failed to load editor layout:', err);
+      }
+      if (get().sessionId !== sessionId) return;
+      set({ loaded: true });
+      update(layout => layout);
+    },
+
+    openFile: (path, lines = null, group) =>
+      update(layout => {
+        const id = group ?? layout.activeGroup;
+        return {
+          ...layout,
+          activeGroup: id,
+          groups: { ...layout.groups, [id]: openInGroup(layout.groups[id], path, lines) },
+        };
+      }),
+
+    clearActive: () => updateGroup(get().activeGroup, group => ({ ...group, activePath: null })),
+
+    activateTab: (id, path) =>
+      update(layout => ({
+        ...layout,
+        activeGroup: id,
+        groups: { ...layout.groups, [id]: { ...layout.groups[id], activePath: path } },
+      })),
+
+    setActiveGroup: (id) => {
+      if (get().activeGroup !== id) update(layout => ({ ...layout, activeGroup: id }));
+    },
+
+    setLines: (id, path, lines) =>
+      updateGroup(id, group => ({
+        ...group,
+        tabs: group.tabs.map(t => (t.path === path ? { ...t, lines } : t)),
+      })),
+
+    setDirty: (id, path, isDirty) => {
+      const key = dirtyKey(id, path);
+      if (Boolean(get().dirty[key]) === isDirty) return;
+      set(state => {
+        const dirty = { ...state.dirty };
+        if (isDirty) dirty[key] = true;
+        else delete dirty[key];
+        return { dirty };
+      });
+    },
+
+    closeTab: (id, path) => updateGroup(id, group => closeInGroup(group, t => t.path === path)),
+
+    closeOtherTabs: (id, path) =>
+      updateGroup(id, group => ({ ...closeInGroup(group, t => t.path !== path && !t.pinned), activePath: path })),
+
+    togglePin: (id, path) =>
+      updateGroup(id, group => {
+        const tab = group.tabs.find(t => t.path === path);
+        if (!tab) return group;
+        const toggled = { ...tab, pinned: !tab.pinned };
+        // A newly pinned tab goes last among the pinned, an unpinned one first among the rest
+        const pinned = group.tabs.filter(t => t.pinned && t.path !== path).length;
+        return { ...group, tabs: insertTab(group.tabs, toggled, pinned) };
+      }),
+
+    moveTab: (from, path, to, index) =>
+      update(layout => {
+        const tab = layout.groups[from].tabs.find(t => t.path === path);
+        if (!tab) return layout;
+        if (from === to) {
+          const current = layout.groups[from].tabs.findIndex(t => t.path === path);
+          // `index` counts the tab itself when it moves right
+          const target = index > current ? index - 1 : index;
+          return {
+            ...layout,
+            groups: { ...layout.groups, [from]: { ...layout.groups[from], tabs: insertTab(layout.groups[from].tabs, tab, target) } },
+          };
+        }
+        const source = closeInGroup(layout.groups[from], t => t.path === path);
+        const targetGroup = layout.groups[to];
+        return {
+          ...layout,
+          activeGroup: to,
+          groups: {
+            ...layout.groups,
+            [from]: source,
+            [to]: { tabs: insertTab(targetGroup.tabs, tab, index), activePath: path },
+          },
+        };
+      }),
+
+    splitEditor: (direction) =>
+      update(layout => {
+        if (layout.split !== 'none') return { ...layout, split: direction };
+        const primary = layout.groups.primary;
+        const active = primary.tabs.find(t => t.path === primary.activePath);
+        if (!active) return layout;
+        return {
+          groups: { primary, secondary: { tabs: [{ ...active, pinned: false }], activePath: active.path } },
+          activeGroup: 'secondary',
+          split: direction,
+        };
+      }),
+
+    unsplitEditor: () =>
+      update(layout => {
+        const { primary, secondary } = layout.groups;
+        const tabs = secondary.tabs.reduce(
+          (merged, tab) => (merged.some(t => t.path === tab.path) ? merged : insertTab(merged, tab, merged.length)),
+          primary.tabs
+        );
+        const activePath = layout.groups[layout.activeGroup].activePath ?? primary.activePath;
+        return { groups: { primary: { tabs, activePath }, secondary: emptyGroup() }, activeGroup: 'primary', split: 'none' };
+      }),
+
+    renamePath: (from, to) => {
+      const rename = (path: string) => (isWithin(path, from) ? to + path.slice(from.length) : path);
+      update(layout => ({
+        ...layout,
+        groups: {
+          primary: renameInGroup(layout.groups.primary, rename),
+          secondary: renameInGroup(layout.groups.secondary, rename),
+        },
+      }));
+    },
+
+    closePath: (path) =>
+      update(layout => ({
+        ...layout,
+        groups: {
+          primary: closeInGroup(layout.groups.primary, t => isWithin(t.path, path)),
+          secondary: closeInGroup(layout.groups.secondary, t => isWithin(t.path, path)),
+        },
+      })),
+  };
+});
+
+function renameInGroup(group: EditorGroup, rename: (path: string) => string): EditorGroup {
+  return {
+    tabs: group.tabs.map(t => ({ ...t, path: rename(t.path) })),
+    activePath: group.activePath && rename(group.activePath),
+  };
+}
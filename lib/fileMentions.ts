@@ -0,0 +1,134 @@
+/**
+ * @-mentions of workspace files in the chat input: `@path` or
+ * `@path#L10-40`. Mentioned files are read and sent in the query's
+ * `context`, each between BEGIN/END FILE delimiters. An @word that isn't
+ * a workspace file (`@types/react`, `@dataclass`) stays plain text.
+ */
+
+import { MAX_CONTEXT_FILE_CHARS } from './contextRequests';
+import { parseLineRange } from './urlState';
+
+export interface FileMention {
+  // Text as typed, without the @
+  raw: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface MentionedFile {
+  mention: FileMention;
+  // Whole file, as read from the workspace
+  content: string;
+}
+
+// Punctuation right after a mention ends it rather than joining the path
+const MENTION_PATTERN = /(^|[\s(])@([^\s@#]*[^\s@#.,;:!?)])(?:#L(\d+)(?:-L?(\d+))?)?(?=[\s.,;:!?)]|$)/g;
+
+/**
+ * Mentions in the message, first occurrence of each raw mention only.
+ * Reversed ranges are put in order; one naming line 0 is not a mention.
+ */
+export function parseMentions(text: string): FileMention[] {
+  const seen = new Set<string>();
+  const mentions: FileMention[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const [, , path, start, end] = match;
+    const raw = match[0].slice(match[1].length + 1);
+    if (seen.has(raw)) continue;
+    seen.add(raw);
+    const lines = start ? parseLineRange(end ? `${start}-${end}` : start) : null;
+    if (start && !lines) continue;
+    mentions.push({ raw, path, startLine: lines?.start, endLine: lines?.end });
+  }
+  return mentions;
+}
+
+/**
+ * The mention being typed at the caret, for autocomplete: where its @ is
+ * and the path typed so far. Null once a #L range is being typed.
+ */
+export function activeMention(text: string, caret: number): { start: number; query: string } | null {
+  const match = /(^|[\s(])@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match || match[2].includes('#')) return null;
+  return { start: match.index + match[1].length, query: match[2] };
+}
+
+/**
+ * Subsequence match score, higher is better; null when `query` doesn't match.
+ * Consecutive characters, segment starts and the file name count extra.
+ */
+export function fuzzyScore(query: string, path: string): number | null {
+  if (!query) return 0;
+  const q = query.toLowerCase();
+  const p = path.toLowerCase();
+  const nameStart = p.lastIndexOf('/') + 1;
+  let score = 0;
+  let qi = 0;
+  let previous = -2;
+  for (let pi = 0; pi < p.length && qi < q.length; pi++) {
+    if (p[pi] !== q[qi]) continue;
+    score += 1;
+    if (pi === previous + 1) score += 3;
+    if (pi === 0 || '/._-'.includes(p[pi - 1])) score += 2;
+    if (pi >= nameStart) score += 1;
+    previous = pi;
+    qi++;
+  }
+  if (qi < q.length) return null;
+  if (p.slice(nameStart).startsWith(q)) score += 5;
+  return score - p.length * 0.01;
+}
+
+export function fuzzyMatchPaths(query: string, paths: string[], limit = 8): string[] {
+  const scored: { path: string; score: number }[] = [];
+  for (const path of paths) {
+    const score = fuzzyScore(query, path);
+    if (score !== null) scored.push({ path, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit)
+    .map(s => s.path);
+}
+
+/**
+ * The mentioned part of a file: its line range, or all of it
+ */
+export function mentionedText({ mention, content }: MentionedFile): string {
+  if (mention.startLine === undefined) return content;
+  const lines = content.split('\n');
+  return lines.slice(mention.startLine - 1, mention.endLine ?? mention.startLine).join('\n');
+}
+
+export function mentionLabel(mention: FileMention): string {
+  if (mention.startLine === undefined) return mention.path;
+  return mention.endLine !== undefined && mention.endLine !== mention.startLine
+    ? `${mention.path} (lines ${mention.startLine}-${mention.endLine})`
+    : `${mention.path} (line ${mention.startLine})`;
+}
+
+/**
+ * The `context` string carrying the mentioned files
+ */
+export function buildMentionContext(files: MentionedFile[]): string {
+  const sections = files.map(file => {
+    let text = mentionedText(file);
+    if (text.length > MAX_CONTEXT_FILE_CHARS) {
+      text = `${text.slice(0, MAX_CONTEXT_FILE_CHARS)}\n[...truncated]`;
+    }
+    const label = mentionLabel(file.mention);
+    return `----- BEGIN FILE: ${label} -----\n${text}\n----- END FILE: ${file.mention.path} -----`;
+  });
+  return `Workspace files referenced in the message:\n\n${sections.join('\n\n')}`;
+}
+
+export function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
@@ -0,0 +1,239 @@
+// fileOpsJournal.ts
+// File operations from the explorer (create, rename/move, delete, upload) on
+// the console workspace. They all go through this store, which records each
+// one with what it takes to undo it: the original path for a move, a copy of
+// the content for a delete, a fingerprint of each uploaded file.
+
+import { create } from 'zustand';
+import type { FileOperation, FileOperationEntry, FileSnapshot } from './types';
+import {
+  createConsoleFile,
+  deleteConsoleFile,
+  fetchConsoleFileBytes,
+  fetchConsoleFileContent,
+  fetchConsoleFiles,
+  moveConsoleFile,
+  uploadConsoleFiles,
+} from './atlasConsoleClient';
+import { CONSOLE_DB_STORES, isIndexedDbAvailable, withStore } from './consoleDb';
+import { createRandomId } from './session';
+
+const STORE = CONSOLE_DB_STORES.fileOperations.name;
+const JOURNAL_KEY = 'console';
+
+const MAX_ENTRIES = 100;
+// Deletes beyond these limits go ahead but cannot be undone
+const MAX_SNAPSHOT_FILES = 500;
+const MAX_SNAPSHOT_CHARS = 5 * 1024 * 1024;
+
+interface StoredFileOpsJournal {
+  key: string;
+  entries: FileOperationEntry[];
+}
+
+export function parentPath(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash > 0 ? path.slice(0, slash) : '.';
+}
+
+export function joinPath(dir: string, name: string): string {
+  return dir === '.' ? name : `${dir}/${name}`;
+}
+
+/**
+ * Paths an operation (or its undo) adds or removes
+ */
+export function affectedPaths(op: FileOperation): string[] {
+  switch (op.kind) {
+    case 'create':
+    case 'delete':
+      return [op.path];
+    case 'move':
+      return [op.from, op.to];
+    case 'upload':
+      return op.paths;
+  }
+}
+
+export function describeFileOperation(op: FileOperation): string {
+  switch (op.kind) {
+    case 'create':
+      return `Create ${op.is_dir ? 'folder' : 'file'} ${op.path}`;
+    case 'move':
+      return parentPath(op.from) === parentPath(op.to)
+        ? `Rename ${op.from} to ${op.to.split('/').pop()}`
+        : `Move ${op.from} to ${parentPath(op.to)}`;
+    case 'delete':
+      return `Delete ${op.path}`;
+    case 'upload':
+      return `Upload ${op.paths.length} file(s) to ${op.dir}`;
+  }
+}
+
+/**
+ * Copy of a file or directory tree taken before deleting it, or null when
+ * it is too large or holds binary files (they don't survive the text API)
+ */
+export async function snapshotForDelete(path: string, isDir: boolean): Promise<FileSnapshot[] | null> {
+  const snapshot: FileSnapshot[] = [];
+  const budget = { chars: MAX_SNAPSHOT_CHARS };
+
+  const capture = async (entryPath: string, entryIsDir: boolean): Promise<boolean> => {
+    if (snapshot.length >= MAX_SNAPSHOT_FILES) return false;
+    if (entryIsDir) {
+      // Parents come first, so restoring in order recreates the tree
+      snapshot.push({ path: entryPath, is_dir: true });
+      const { files } = await fetchConsoleFiles(entryPath);
+      for (const file of files) {
+        if (!(await capture(file.path, file.is_dir))) return false;
+      }
+      return true;
+    }
+    const content = await fetchConsoleFileContent(entryPath);
+    if (content === null || content.includes('\u0000') || content.includes('\uFFFD')) return false;
+    budget.chars -= content.length;
+    if (budget.chars < 0) return false;
+    snapshot.push({ path: entryPath, is_dir: false, content });
+    return true;
+  };
+
+  try {
+    return (await capture(path, isDir)) ? snapshot : null;
+  } catch (err) {
+    console.warn(`Could not keep a copy of ${path}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Size plus FNV-1a hash of a file's bytes: enough to notice an edit, and
+ * unlike crypto.subtle available outside secure contexts
+ */
+export function fingerprintBytes(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${bytes.length}:${(hash >>> 0).toString(16)}`;
+}
+
+async function undoOperation(op: FileOperation): Promise<void> {
+  switch (op.kind) {
+    case 'create':
+      if (!op.is_dir && (await fetchConsoleFileContent(op.path))) {
+        throw new Error(`${op.path} has been edited since it was created`);
+      }
+      // Not recursive: a folder that has been filled since stays
+      await deleteConsoleFile(op.path);
+      return;
+    case 'move':
+      await moveConsoleFile(op.to, op.from);
+      return;
+    case 'delete':
+      if (!op.snapshot) throw new Error(`No copy of ${op.path} was kept, so it cannot be restored`);
+      for (const entry of op.snapshot) {
+        await createConsoleFile(entry.path, { isDir: entry.is_dir, content: entry.content });
+      }
+      return;
+    case 'upload':
+      // Check every file first: edits made since the upload would be lost for good
+      for (const path of op.paths) {
+        const expected = op.fingerprints?.[path];
+        if (!expected) throw new Error(`No fingerprint of ${path} was kept, so the upload cannot be undone safely`);
+        const { bytes } = await fetchConsoleFileBytes(path);
+        if (fingerprintBytes(bytes) !== expected) {
+          throw new Error(`${path} has been changed since it was uploaded`);
+        }
+      }
+      for (const path of op.paths) await deleteConsoleFile(path);
+      return;
+  }
+}
+
+async function persistJournal(entries: FileOperationEntry[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(STORE, 'readwrite', store => {
+    store.put({ key: JOURNAL_KEY, entries } satisfies StoredFileOpsJournal);
+  });
+}
+
+interface FileOpsJournalState {
+  entries: FileOperationEntry[];
+  loaded: boolean;
+
+  // Actions
+  loadJournal: () => Promise<void>;
+  createEntry: (path: string, isDir: boolean) => Promise<FileOperationEntry>;
+  moveEntry: (from: string, to: string) => Promise<FileOperationEntry>;
+  deleteEntry: (path: string, isDir: boolean, snapshot: FileSnapshot[] | null) => Promise<FileOperationEntry>;
+  uploadFiles: (dir: string, files: File[]) => Promise<FileOperationEntry>;
+  // Undo the most recent operation not undone yet; null when there is none
+  undoLast: () => Promise<FileOperationEntry | null>;
+}
+
+export const useFileOpsJournalStore = create<FileOpsJournalState>((set, get) => {
+  const save = (entries: FileOperationEntry[]) => {
+    set({ entries });
+    persistJournal(entries).catch(err => console.warn('Failed to persist file operations:', err));
+  };
+
+  const record = (op: FileOperation): FileOperationEntry => {
+    const entry: FileOperationEntry = { ...op, id: createRandomId(), performed_at: new Date().toISOString() };
+    save([...get().entries, entry].slice(-MAX_ENTRIES));
+    return entry;
+  };
+
+  return {
+    entries: [],
+    loaded: false,
+
+    loadJournal: async () => {
+      if (get().loaded || !isIndexedDbAvailable()) return;
+      set({ loaded: true });
+      try {
+        const stored = await withStore<StoredFileOpsJournal | undefined>(STORE, 'readonly', store =>
+          store.get(JOURNAL_KEY)
+        );
+        if (!stored?.entries.length) return;
+        // Operations recorded while loading are newer
+        set(state => ({ entries: [...stored.entries, ...state.entries].slice(-MAX_ENTRIES) }));
+      } catch (err) {
+        console.warn('Failed to load file operations:', err);
+      }
+    },
+
+    createEntry: async (path, isDir) => {
+      await createConsoleFile(path, { isDir });
+      return record({ kind: 'create', path, is_dir: isDir });
+    },
+
+    moveEntry: async (from, to) => {
+      await moveConsoleFile(from, to);
+      return record({ kind: 'move', from, to });
+    },
+
+    deleteEntry: async (path, isDir, snapshot) => {
+      await deleteConsoleFile(path, { recursive: isDir });
+      return record({ kind: 'delete', path, is_dir: isDir, snapshot });
+    },
+
+    uploadFiles: async (dir, files) => {
+      const paths = await uploadConsoleFiles(dir, files);
+      const fingerprints: Record<string, string> = {};
+      for (let i = 0; i < files.length; i++) {
+        fingerprints[paths[i]] = fingerprintBytes(new Uint8Array(await files[i].arrayBuffer()));
+      }
+      return record({ kind: 'upload', dir, paths, fingerprints });
+    },
+
+    undoLast: async () => {
+      const entry = [...get().entries].reverse().find(e => !e.undone_at);
+      if (!entry) return null;
+      await undoOperation(entry);
+      const undoneAt = new Date().toISOString();
+      save(get().entries.map(e => (e.id === entry.id ? { ...e, undone_at: undoneAt } : e)));
+      return entry;
+    },
+  };
+});
@@ -0,0 +1,162 @@
+/**
+ * Rich previews in the file viewer: which previewer a file gets (by
+ * extension), and the parsing behind the JSON/YAML tree, the CSV table and
+ * the hex dump. The components live in components/previews.
+ */
+
+import YAML from 'yaml';
+
+export type FilePreviewKind = 'image' | 'markdown' | 'tree' | 'table' | 'hex';
+
+export interface FilePreviewSpec {
+  kind: FilePreviewKind;
+  // Read as bytes (base64 mode of the content route); such files have no source view
+  binary: boolean;
+}
+
+// Listed after the other files in the explorer; shown as hex unless they have a preview
+export const BINARY_EXTENSIONS = new Set([
+  'db', 'db-wal', 'db-shm', 'sqlite', 'png', 'jpg', 'jpeg', 'gif',
+  'ico', 'pdf', 'zip', 'tar', 'gz', 'bin', 'exe', 'dll', 'so',
+  'dylib', 'wasm', 'pyc', 'pyo', 'egg-info', 'webp', 'bmp',
+]);
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+};
+
+// Only the start of a binary is shown in hex
+export const HEX_MAX_BYTES = 256 * 1024;
+export const HEX_BYTES_PER_ROW = 16;
+
+export function fileExtension(path: string): string {
+  const name = path.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+export function isBinaryPath(path: string): boolean {
+  return BINARY_EXTENSIONS.has(fileExtension(path));
+}
+
+export function previewFor(path: string): FilePreviewSpec | null {
+  const ext = fileExtension(path);
+  // SVG is text: it gets a source view as well
+  if (ext === 'svg') return { kind: 'image', binary: false };
+  if (IMAGE_MIME_TYPES[ext]) return { kind: 'image', binary: true };
+  if (ext === 'md' || ext === 'markdown') return { kind: 'markdown', binary: false };
+  if (ext === 'json' || ext === 'yaml' || ext === 'yml') return { kind: 'tree', binary: false };
+  if (ext === 'csv' || ext === 'tsv') return { kind: 'table', binary: false };
+  if (isBinaryPath(path)) return { kind: 'hex', binary: true };
+  return null;
+}
+
+/**
+ * Data URL for an image's bytes, or for SVG source text
+ */
+export function imageDataUrl(path: string, source: Uint8Array | string): string {
+  const mime = IMAGE_MIME_TYPES[fileExtension(path)] || 'application/octet-stream';
+  if (typeof source === 'string') return `data:${mime};charset=utf-8,${encodeURIComponent(source)}`;
+  let binary = '';
+  // String.fromCharCode takes its arguments on the stack: go in chunks
+  for (let i = 0; i < source.length; i += 0x8000) {
+    binary += String.fromCharCode(...source.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+}
+
+/**
+ * Parse JSON, or YAML for .yaml/.yml (several documents become an array).
+ * Throws with the parser's message on invalid input.
+ */
+export function parseStructured(path: string, text: string): unknown {
+  if (fileExtension(path) === 'json') return JSON.parse(text);
+  const docs = Array.from(YAML.parseAllDocuments(text));
+  for (const doc of docs) {
+    if (doc.errors.length > 0) throw new Error(doc.errors[0].message);
+  }
+  const values = docs.map(doc => doc.toJS());
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Split CSV/TSV text into rows (RFC 4180: quoted fields may hold the
+ * delimiter, newlines and doubled quotes)
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  // No trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export const delimiterFor = (path: string) => (fileExtension(path) === 'tsv' ? '\t' : ',');
+
+/**
+ * Table sort order: numbers by value, text naturally ("item2" before "item10")
+ */
+export function compareCells(a: string, b: string): number {
+  const x = a.trim();
+  const y = b.trim();
+  if (x !== '' && y !== '' && !Number.isNaN(Number(x)) && !Number.isNaN(Number(y))) {
+    return Number(x) - Number(y);
+  }
+  return x.localeCompare(y, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export interface HexRow {
+  offset: string;
+  hex: string;
+  ascii: string;
+}
+
+export function hexRow(bytes: Uint8Array, start: number): HexRow {
+  const slice = bytes.subarray(start, start + HEX_BYTES_PER_ROW);
+  const hex = Array.from(slice, byte => byte.toString(16).padStart(2, '0'));
+  return {
+    offset: start.toString(16).padStart(8, '0'),
+    // Gap after 8 bytes, padded so the ASCII column lines up
+    hex: [hex.slice(0, 8).join(' '), hex.slice(8).join(' ')].join('  ').padEnd(HEX_BYTES_PER_ROW * 3, ' '),
+    ascii: Array.from(slice, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join(''),
+  };
+}
@@ -0,0 +1,206 @@
+// healthStore.ts
+// Connection health for the status bar: ATLAS Core polled through
+// /api/health (reachability, latency, version, degraded states) plus the
+// state of every WebSocket the console opens (telemetry, progress, terminal).
+
+import { create } from 'zustand';
+import { fetchWithTimeout } from './request';
+
+export const HEALTH_POLL_INTERVAL_MS = 30_000;
+// Slower answers than this count as degraded
+export const DEGRADED_LATENCY_MS = 1_500;
+
+export type HealthStatus = 'checking' | 'healthy' | 'degraded' | 'down';
+
+export interface BackendHealth {
+  status: HealthStatus;
+  latency_ms?: number;
+  version?: string;
+  http_status?: number | null;
+  // Why the backend counts as degraded or down
+  detail?: string;
+  checked_at?: string;
+}
+
+export type SocketState = 'connecting' | 'open' | 'closed' | 'error';
+
+export interface SocketHealth {
+  id: string;
+  label: string;
+  url: string;
+  state: SocketState;
+  since: string;
+  last_message_at?: string;
+}
+
+// Shape of GET /api/health
+interface HealthProbe {
+  ok: boolean;
+  status: number | null;
+  latency_ms: number;
+  version?: string | null;
+  backend?: any;
+  error?: string;
+  checked_at: string;
+}
+
+const DEGRADED_BACKEND_STATES = ['degraded', 'partial', 'warning', 'unhealthy'];
+
+function toBackendHealth(probe: HealthProbe): BackendHealth {
+  const base = {
+    latency_ms: probe.latency_ms,
+    version: probe.version ?? undefined,
+    http_status: probe.status,
+    checked_at: probe.checked_at,
+  };
+  if (probe.status === null) {
+    return { ...base, status: 'down', detail: probe.error || 'ATLAS Core unreachable' };
+  }
+  if (!probe.ok) {
+    return { ...base, status: 'degraded', detail: `Health check answered ${probe.status}` };
+  }
+  const reported = typeof probe.backend?.status === 'string' ? probe.backend.status.toLowerCase() : '';
+  if (DEGRADED_BACKEND_STATES.includes(reported)) {
+    return { ...base, status: 'degraded', detail: `ATLAS Core reports "${reported}"` };
+  }
+  if (probe.latency_ms > DEGRADED_LATENCY_MS) {
+    return { ...base, status: 'degraded', detail: `Slow response (${probe.latency_ms} ms)` };
+  }
+  return { ...base, status: 'healthy' };
+}
+
+/**
+ * Backend status combined with the sockets: one that failed or dropped
+ * makes an otherwise healthy console degraded
+ */
+export function overallStatus(backend: BackendHealth, sockets: SocketHealth[]): HealthStatus {
+  if (backend.status !== 'healthy') return backend.status;
+  return sockets.some(s => s.state === 'error' || s.state === 'closed') ? 'degraded' : 'healthy';
+}
+
+interface HealthStoreState {
+  backend: BackendHealth;
+  sockets: Record<string, SocketHealth>;
+  pollers: number;
+
+  // Actions
+  checkBackend: () => Promise<void>;
+  // Polls while at least one caller holds it; returns the release function
+  startPolling: () => () => void;
+  reportSocket: (id: string, changes: Partial<SocketHealth>) => void;
+  removeSocket: (id: string) => void;
+}
+
+let pollTimer: ReturnType<typeof setInterval> | undefined;
+let inFlight: Promise<void> | null = null;
+
+export const useHealthStore = create<HealthStoreState>((set, get) => ({
+  backend: { status: 'checking' },
+  sockets: {},
+  pollers: 0,
+
+  checkBackend: () => {
+    // Concurrent callers share one probe
+    if (inFlight) return inFlight;
+    inFlight = (async () => {
+      try {
+        const res = await fetchWithTimeout('/api/health', { cache: 'no-store' });
+        if (!res.ok) throw new Error(`Console health route answered ${res.status}`);
+        set({ backend: toBackendHealth(await res.json()) });
+      } catch (err: any) {
+        set({
+          backend: {
+            status: 'down',
+            detail: err.message || 'Health check failed',
+            checked_at: new Date().toISOString(),
+          },
+        });
+      } finally {
+        inFlight = null;
+      }
+    })();
+    return inFlight;
+  },
+
+  startPolling: () => {
+    set(s => ({ pollers: s.pollers + 1 }));
+    if (!pollTimer) {
+      void get().checkBackend();
+      pollTimer = setInterval(() => void get().checkBackend(), HEALTH_POLL_INTERVAL_MS);
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      set(s => ({ pollers: s.pollers - 1 }));
+      if (get().pollers === 0 && pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = undefined;
+      }
+    };
+  },
+
+  reportSocket: (id, changes) => {
+    set(s => {
+      const existing: SocketHealth | undefined = s.sockets[id];
+      const stateChanged = changes.state && changes.state !== existing?.state;
+      const next: SocketHealth = {
+        ...(existing ?? { id, label: id, url: '', state: 'connecting' }),
+        ...changes,
+        since: stateChanged || !existing ? new Date().toISOString() : existing.since,
+      };
+      return { sockets: { ...s.sockets, [id]: next } };
+    });
+  },
+
+  removeSocket: (id) => {
+    set(s => {
+      const { [id]: _removed, ...rest } = s.sockets;
+      return { sockets: rest };
+    });
+  },
+}));
+
+let socketCounter = 0;
+const SOCKET_ACTIVITY_THROTTLE_MS = 2_000;
+
+/**
+ * Report a WebSocket's lifecycle to the health store. Listeners are added
+ * alongside the caller's own handlers; call the returned function when the
+ * socket is discarded for good (not on a reconnect).
+ */
+export function trackAtlasSocket(socket: WebSocket, label: string, id = `${label}-${++socketCounter}`): () => void {
+  const { reportSocket, removeSocket } = useHealthStore.getState();
+  reportSocket(id, {
+    label,
+    url: socket.url,
+    state: socket.readyState === WebSocket.OPEN ? 'open' : 'connecting',
+  });
+
+  const onOpen = () => reportSocket(id, { state: 'open' });
+  // Busy streams would otherwise update the store on every frame
+  let lastReported = 0;
+  const onMessage = () => {
+    const now = Date.now();
+    if (now - lastReported < SOCKET_ACTIVITY_THROTTLE_MS) return;
+    lastReported = now;
+    reportSocket(id, { last_message_at: new Date(now).toISOString() });
+  };
+  const onError = () => reportSocket(id, { state: 'error' });
+  const onClose = () => {
+    // An error already explains the close
+    if (useHealthStore.getState().sockets[id]?.state !== 'error') reportSocket(id, { state: 'closed' });
+  };
+  socket.addEventListener('open', onOpen);
+  socket.addEventListener('message', onMessage);
+  socket.addEventListener('error', onError);
+  socket.addEventListener('close', onClose);
+
+  return () => {
+    socket.removeEventListener('open', onOpen);
+    socket.removeEventListener('message', onMessage);
+    socket.removeEventListener('error', onError);
+    socket.removeEventListener('close', onClose);
+    removeSocket(id);
+  };
+}
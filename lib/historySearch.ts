@@ -0,0 +1,218 @@
+/**
+ * Full-text search over chat history in every session: questions, answers,
+ * proposed patches (file path and diff) and commands. The index is built in
+ * the browser from the transcripts persisted in IndexedDB, so it works
+ * offline and without the backend.
+ *
+ * Query syntax: words match word prefixes (all must match); "quoted text"
+ * must appear as is.
+ */
+
+import type { ChatMessage } from './types';
+
+export type HistoryDocKind = 'question' | 'answer' | 'patch' | 'command';
+
+export const HISTORY_DOC_KINDS: Record<HistoryDocKind, string> = {
+  question: 'Questions',
+  answer: 'Answers',
+  patch: 'Patches',
+  command: 'Commands',
+};
+
+// One searchable piece of a message
+export interface HistoryDoc {
+  session_id: string;
+  message_id: string;
+  kind: HistoryDocKind;
+  // Patch file path or command line
+  title?: string;
+  text: string;
+  created_at: string;
+}
+
+export interface HistoryIndex {
+  docs: HistoryDoc[];
+  // Token -> positions in docs
+  postings: Map<string, number[]>;
+}
+
+export interface HistorySearchFilters {
+  sessionId?: string | null;
+  // Empty or missing means every kind
+  kinds?: HistoryDocKind[];
+  // Local calendar days, YYYY-MM-DD, inclusive
+  from?: string;
+  to?: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface HistoryHit {
+  doc: HistoryDoc;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const SNIPPET_CONTEXT_CHARS = 60;
+const SNIPPET_LENGTH = 220;
+// Occurrences of one term counted towards a hit's score
+const MAX_TERM_OCCURRENCES = 5;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+function messageDocs(sessionId: string, message: ChatMessage): HistoryDoc[] {
+  const base = { session_id: sessionId, message_id: message.id, created_at: message.created_at };
+  if (message.type === 'user') {
+    return message.content ? [{ ...base, kind: 'question', text: message.content }] : [];
+  }
+
+  const docs: HistoryDoc[] = [];
+  const answer = message.content || message.response?.answer;
+  if (answer) docs.push({ ...base, kind: 'answer', text: answer });
+  for (const patch of message.response?.patches ?? []) {
+    docs.push({
+      ...base,
+      kind: 'patch',
+      title: patch.file_path,
+      text: [patch.file_path, patch.description, patch.diff].filter(Boolean).join('\n'),
+    });
+  }
+  for (const command of [...(message.response?.commands ?? []), ...(message.response?.tests ?? [])]) {
+    docs.push({
+      ...base,
+      kind: 'command',
+      title: command.command,
+      text: [command.command, command.description].filter(Boolean).join('\n'),
+    });
+  }
+  return docs;
+}
+
+export function buildHistoryIndex(histories: { session_id: string; messages: ChatMessage[] }[]): HistoryIndex {
+  const docs: HistoryDoc[] = [];
+  const postings = new Map<string, number[]>();
+
+  for (const history of histories) {
+    for (const message of history.messages) {
+      for (const doc of messageDocs(history.session_id, message)) {
+        const position = docs.push(doc) - 1;
+        for (const token of new Set(tokenize(doc.text))) {
+          const list = postings.get(token);
+          if (list) list.push(position);
+          else postings.set(token, [position]);
+        }
+      }
+    }
+  }
+
+  return { docs, postings };
+}
+
+function parseQuery(query: string): { terms: string[]; phrases: string[] } {
+  const phrases: string[] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    if (phrase.trim()) phrases.push(phrase.trim().toLowerCase());
+    return ' ';
+  });
+  return { terms: Array.from(new Set(tokenize(rest))), phrases };
+}
+
+// Docs with a token starting with `term`
+function prefixMatches(index: HistoryIndex, term: string): Set<number> {
+  const matches = new Set<number>();
+  for (const [token, positions] of index.postings) {
+    if (token.startsWith(term)) positions.forEach(p => matches.add(p));
+  }
+  return matches;
+}
+
+function countOccurrences(text: string, needle: string): number {
+  let count = 0;
+  for (let i = text.indexOf(needle); i !== -1 && count < MAX_TERM_OCCURRENCES; i = text.indexOf(needle, i + needle.length)) {
+    count++;
+  }
+  return count;
+}
+
+function inDateRange(iso: string, from?: string, to?: string): boolean {
+  const time = Date.parse(iso);
+  if (Number.isNaN(time)) return !from && !to;
+  if (from && time < new Date(`${from}T00:00:00`).getTime()) return false;
+  if (to && time > new Date(`${to}T23:59:59.999`).getTime()) return false;
+  return true;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Text around the first match, split into matching and plain parts
+ */
+export function buildSnippet(text: string, needles: string[]): SnippetPart[] {
+  const lower = text.toLowerCase();
+  const first = needles.reduce((min, needle) => {
+    const at = lower.indexOf(needle);
+    return at !== -1 && at < min ? at : min;
+  }, Infinity);
+
+  let start = first === Infinity ? 0 : Math.max(0, first - SNIPPET_CONTEXT_CHARS);
+  // Start on a word boundary when one is close
+  if (start > 0) {
+    const space = text.lastIndexOf(' ', start);
+    if (space !== -1 && start - space < 15) start = space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const window = `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+
+  if (needles.length === 0) return [{ text: window, match: false }];
+  const pattern = new RegExp(`(${needles.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|')})`, 'gi');
+  return window
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: needles.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Hits for `query`, best first; equal scores go newest first
+ */
+export function searchHistory(
+  index: HistoryIndex,
+  query: string,
+  filters: HistorySearchFilters = {},
+  limit = 200
+): HistoryHit[] {
+  const { terms, phrases } = parseQuery(query);
+  if (terms.length === 0 && phrases.length === 0) return [];
+
+  // Docs matching every term; phrases alone are checked against all docs
+  const [first, ...rest] = terms.map(term => prefixMatches(index, term));
+  const positions = first
+    ? [...first].filter(p => rest.every(matches => matches.has(p)))
+    : index.docs.map((_, i) => i);
+
+  const hits: HistoryHit[] = [];
+  for (const position of positions) {
+    const doc = index.docs[position];
+    if (filters.sessionId && doc.session_id !== filters.sessionId) continue;
+    if (filters.kinds?.length && !filters.kinds.includes(doc.kind)) continue;
+    if (!inDateRange(doc.created_at, filters.from, filters.to)) continue;
+
+    const lower = doc.text.toLowerCase();
+    if (!phrases.every(phrase => lower.includes(phrase))) continue;
+
+    const score =
+      terms.reduce((sum, term) => sum + countOccurrences(lower, term), 0) +
+      phrases.length * MAX_TERM_OCCURRENCES;
+    hits.push({ doc, score, snippet: [] });
+  }
+
+  const needles = [...phrases, ...terms];
+  return hits
+    .sort((a, b) => b.score - a.score || b.doc.created_at.localeCompare(a.doc.created_at))
+    .slice(0, limit)
+    .map(hit => ({ ...hit, snippet: buildSnippet(hit.doc.text, needles) }));
+}
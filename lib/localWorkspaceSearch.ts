@@ -0,0 +1,171 @@
+/**
+ * Stand-in for ATLAS Core's content search: walks the workspace on the
+ * console server's own disk. /api/console/search falls back to it when the
+ * backend has no search endpoint or can't be reached. Server code only.
+ *
+ * Configuration:
+ *   ATLAS_WORKSPACE_ROOT  Directory to search (default: the workspace_root
+ *                         ATLAS Core reports, when it is on this machine)
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import vm from 'node:vm';
+import { backendFetch } from './atlasBackend';
+import {
+  DEFAULT_MAX_SEARCH_RESULTS,
+  IGNORED_DIRS,
+  WorkspaceSearchMatch,
+  WorkspaceSearchRequest,
+  WorkspaceSearchResponse,
+  compileSearchPattern,
+  createPathFilter,
+} from './workspaceSearch';
+
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_FILES = 20_000;
+const MAX_LINE_CHARS = 300;
+// Stop walking and report a partial result after this
+const SEARCH_BUDGET_MS = 10_000;
+// Longest the pattern may run over one file. Matching is synchronous, so
+// this bounds how long a catastrophic regex blocks the server.
+const FILE_MATCH_BUDGET_MS = 1_000;
+
+// Matching runs as a vm script: unlike a plain loop, it can be interrupted
+// by a timeout while the regex is backtracking
+const MATCH_SCRIPT = new vm.Script(`
+  (() => {
+    const pattern = new RegExp(source, flags);
+    const hits = [];
+    for (let i = 0; i < lines.length && hits.length < limit; i++) {
+      pattern.lastIndex = 0;
+      for (let m = pattern.exec(lines[i]); m && hits.length < limit; m = pattern.exec(lines[i])) {
+        if (m[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        hits.push([i, m.index, m[0].length]);
+      }
+    }
+    return hits;
+  })()
+`);
+
+/**
+ * The pattern ran past its budget on a single file (catastrophic backtracking)
+ */
+export class SearchTimeoutError extends Error {
+  constructor(message = 'The search pattern is too slow to run; simplify the regular expression') {
+    super(message);
+    this.name = 'SearchTimeoutError';
+  }
+}
+
+const isScriptTimeout = (err: unknown) => (err as { code?: string })?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+
+async function isDirectory(dir: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dir)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ATLAS_WORKSPACE_ROOT, else the root ATLAS Core reports; null when neither
+ * is a directory here
+ */
+export async function resolveWorkspaceRoot(): Promise<string | null> {
+  const configured = process.env.ATLAS_WORKSPACE_ROOT;
+  if (configured) return (await isDirectory(configured)) ? path.resolve(configured) : null;
+
+  try {
+    const res = await backendFetch('/v1/console/files', { method: 'GET', query: { path: '.' } });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const root = typeof data?.workspace_root === 'string' ? data.workspace_root : null;
+    return root && (await isDirectory(root)) ? root : null;
+  } catch {
+    return null;
+  }
+}
+
+// Long lines are cut to a window around the match
+function matchLine(line: string, column: number, length: number): Pick<WorkspaceSearchMatch, 'text' | 'column' | 'length'> {
+  if (line.length <= MAX_LINE_CHARS) return { text: line, column, length };
+  const start = Math.max(0, column - 100);
+  const prefix = start > 0 ? '…' : '';
+  const text = `${prefix}${line.slice(start, start + MAX_LINE_CHARS)}…`;
+  return { text, column: column - start + prefix.length, length: Math.min(length, MAX_LINE_CHARS - (column - start)) };
+}
+
+export async function searchLocalWorkspace(
+  root: string,
+  request: WorkspaceSearchRequest
+): Promise<WorkspaceSearchResponse> {
+  const pattern = compileSearchPattern(request);
+  const accepts = createPathFilter(request.include, request.exclude);
+  const maxResults = request.max_results ?? DEFAULT_MAX_SEARCH_RESULTS;
+  const deadline = Date.now() + SEARCH_BUDGET_MS;
+  const context = vm.createContext({ source: pattern.source, flags: pattern.flags, lines: [], limit: 0 });
+
+  const matches: WorkspaceSearchMatch[] = [];
+  const dirs = [''];
+  let filesSearched = 0;
+  let truncated = false;
+
+  walk: while (dirs.length > 0) {
+    const dir = dirs.pop()!;
+    const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true }).catch(() => []);
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    const subdirs: string[] = [];
+
+    for (const entry of entries) {
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) subdirs.push(relative);
+        continue;
+      }
+      if (!entry.isFile() || !accepts(relative)) continue;
+
+      if (filesSearched >= MAX_FILES || Date.now() > deadline) {
+        truncated = true;
+        break walk;
+      }
+
+      const file = path.join(root, relative);
+      const stat = await fs.stat(file).catch(() => null);
+      if (!stat || stat.size > MAX_FILE_BYTES) continue;
+      const buffer = await fs.readFile(file).catch(() => null);
+      // NUL bytes mean binary
+      if (!buffer || buffer.subarray(0, 8000).includes(0)) continue;
+      filesSearched++;
+
+      const lines = buffer.toString('utf8').split(/\r?\n/);
+      context.lines = lines;
+      context.limit = maxResults - matches.length;
+      let hits: [number, number, number][];
+      try {
+        hits = MATCH_SCRIPT.runInContext(context, {
+          timeout: Math.max(1, Math.min(FILE_MATCH_BUDGET_MS, deadline - Date.now())),
+        });
+      } catch (err) {
+        if (!isScriptTimeout(err)) throw err;
+        if (Date.now() < deadline) throw new SearchTimeoutError();
+        truncated = true;
+        break walk;
+      }
+      for (const [i, column, length] of hits) {
+        matches.push({ path: relative, line: i + 1, ...matchLine(lines[i], column, length) });
+      }
+      if (matches.length >= maxResults) {
+        truncated = true;
+        break walk;
+      }
+    }
+    // Depth first, in name order
+    dirs.push(...subdirs.reverse());
+  }
+
+  return { matches, truncated, files_searched: filesSearched, source: 'local' };
+}
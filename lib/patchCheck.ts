@@ -0,0 +1,106 @@
+/**
+ * Client-side dry run of a patch against the current workspace files, so
+ * conflicts show up before the backend is asked to apply anything.
+ */
+
+import { DiffFile, FileApplyResult, PatchApplyStatus, applyFileHunks } from './diff';
+import { fetchConsoleFileContent } from './atlasConsoleClient';
+
+// Current text of each target file; null when it does not exist
+export type PatchTargets = Record<string, string | null>;
+
+export interface FilePatchCheck {
+  path: string;
+  result: FileApplyResult;
+  error?: string; // whole-file problem (missing file, file already exists)
+}
+
+export interface PatchCheckResult {
+  status: PatchApplyStatus;
+  files: FilePatchCheck[];
+}
+
+export function patchTargetPath(file: DiffFile): string {
+  return file.oldPath || file.newPath || '';
+}
+
+export async function loadPatchTargets(files: DiffFile[]): Promise<PatchTargets> {
+  const paths = [...new Set(files.map(patchTargetPath).filter(Boolean))];
+  const entries = await Promise.all(
+    paths.map(async path => [path, await fetchConsoleFileContent(path)] as const)
+  );
+  return Object.fromEntries(entries);
+}
+
+function failAll(file: DiffFile, reason: string, isAccepted: (hunkIndex: number) => boolean): FileApplyResult {
+  return {
+    status: 'conflict',
+    hunks: file.hunks.map((_, hunkIndex) =>
+      isAccepted(hunkIndex)
+        ? { status: 'conflict' as const, offset: 0, fuzz: 0, reason }
+        : { status: 'clean' as const, offset: 0, fuzz: 0 }
+    ),
+  };
+}
+
+/**
+ * Check every accepted hunk against `targets`
+ */
+export function checkPatch(
+  files: DiffFile[],
+  targets: PatchTargets,
+  isHunkAccepted: (fileIndex: number, hunkIndex: number) => boolean = () => true
+): PatchCheckResult {
+  const checks = files.map((file, fileIndex): FilePatchCheck => {
+    const path = patchTargetPath(file);
+    const current = targets[path];
+    const creates = file.oldPath === null;
+    const isAccepted = (hunkIndex: number) => isHunkAccepted(fileIndex, hunkIndex);
+
+    // Nothing of this file will be sent
+    if (!file.hunks.some((_, hunkIndex) => isAccepted(hunkIndex))) {
+      return {
+        path,
+        result: {
+          status: 'clean',
+          hunks: file.hunks.map(() => ({ status: 'clean' as const, offset: 0, fuzz: 0 })),
+        },
+      };
+    }
+
+    if (current === null && !creates) {
+      const error = 'File does not exist in the workspace';
+      return { path, result: failAll(file, error, isAccepted), error };
+    }
+    if (current && creates) {
+      const error = 'Patch creates a file that already exists';
+      return { path, result: failAll(file, error, isAccepted), error };
+    }
+
+    return {
+      path,
+      result: applyFileHunks(current ?? '', file, {
+        skipHunk: hunkIndex => !isAccepted(hunkIndex),
+      }),
+    };
+  });
+
+  const status: PatchApplyStatus = checks.some(c => c.result.status === 'conflict')
+    ? 'conflict'
+    : checks.some(c => c.result.status === 'offset')
+      ? 'offset'
+      : 'clean';
+
+  return { status, files: checks };
+}
+
+/**
+ * Accepted hunks that failed the dry run
+ */
+export function conflictingHunks(check: PatchCheckResult) {
+  return check.files.flatMap((file, fileIndex) =>
+    file.result.hunks
+      .map((hunk, hunkIndex) => ({ ...hunk, fileIndex, hunkIndex, path: file.path }))
+      .filter(hunk => hunk.status === 'conflict')
+  );
+}
@@ -0,0 +1,128 @@
+// patchJournal.ts
+// Per-session journal of applied patches. Every file a patch changed is
+// recorded with its pre- and post-image so the change can be reverted as
+// long as the file still matches the post-image.
+
+import { create } from 'zustand';
+import type { PatchJournalEntry } from './types';
+import { applyConsolePatch, fetchConsoleFileContent } from './atlasConsoleClient';
+import { CONSOLE_DB_STORES, isIndexedDbAvailable, withStore } from './consoleDb';
+import { createUnifiedDiff, serializeUnifiedDiff } from './diff';
+
+const STORE = CONSOLE_DB_STORES.patchJournal.name;
+
+const MAX_ENTRIES_PER_SESSION = 200;
+
+interface StoredPatchJournal {
+  session_id: string;
+  entries: PatchJournalEntry[];
+}
+
+export interface RevertOutcome {
+  reverted: string[];
+  failed: { id: string; file_path: string; error: string }[];
+}
+
+async function persistJournal(sessionId: string, entries: PatchJournalEntry[]): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(STORE, 'readwrite', store => {
+    store.put({ session_id: sessionId, entries } satisfies StoredPatchJournal);
+  });
+}
+
+/**
+ * True when the file no longer matches what the patch left behind
+ */
+export async function hasDrifted(entry: PatchJournalEntry): Promise<boolean> {
+  const current = await fetchConsoleFileContent(entry.file_path);
+  return current !== entry.post_image;
+}
+
+interface PatchJournalStoreState {
+  entriesBySession: Record<string, PatchJournalEntry[]>;
+  loadedSessions: Record<string, boolean>;
+
+  // Actions
+  loadJournal: (sessionId: string) => Promise<void>;
+  recordApply: (sessionId: string, entries: PatchJournalEntry[]) => void;
+  revertEntries: (sessionId: string, ids: string[]) => Promise<RevertOutcome>;
+}
+
+export const usePatchJournalStore = create<PatchJournalStoreState>((set, get) => {
+  const save = (sessionId: string, entries: PatchJournalEntry[]) => {
+    set(state => ({ entriesBySession: { ...state.entriesBySession, [sessionId]: entries } }));
+    persistJournal(sessionId, entries).catch(err =>
+      console.warn('Failed to persist patch journal:', err)
+    );
+  };
+
+  return {
+    entriesBySession: {},
+    loadedSessions: {},
+
+    loadJournal: async (sessionId) => {
+      if (get().loadedSessions[sessionId] || !isIndexedDbAvailable()) return;
+      set(state => ({ loadedSessions: { ...state.loadedSessions, [sessionId]: true } }));
+      try {
+        const record = await withStore<StoredPatchJournal | undefined>(STORE, 'readonly', store =>
+          store.get(sessionId)
+        );
+        if (!record?.entries.length) return;
+        set(state => ({
+          entriesBySession: {
+            ...state.entriesBySession,
+            // Entries recorded while loading are newer
+            [sessionId]: [...record.entries, ...(state.entriesBySession[sessionId] || [])],
+          },
+        }));
+      } catch (err) {
+        console.warn('Failed to load patch journal:', err);
+      }
+    },
+
+    recordApply: (sessionId, entries) => {
+      if (entries.length === 0) return;
+      const existing = get().entriesBySession[sessionId] || [];
+      save(sessionId, [...existing, ...entries].slice(-MAX_ENTRIES_PER_SESSION));
+    },
+
+    revertEntries: async (sessionId, ids) => {
+      const outcome: RevertOutcome = { reverted: [], failed: [] };
+      const targets = (get().entriesBySession[sessionId] || [])
+        .filter(e => ids.includes(e.id) && !e.reverted_at)
+        // Newest first, so stacked edits to one file unwind in order
+        .sort((a, b) => b.applied_at.localeCompare(a.applied_at));
+
+      for (const entry of targets) {
+        try {
+          const current = await fetchConsoleFileContent(entry.file_path);
+          if (current !== entry.post_image) {
+            throw new Error('File has changed since the patch was applied');
+          }
+          const diff = serializeUnifiedDiff([
+            createUnifiedDiff(entry.file_path, entry.post_image, entry.pre_image),
+          ]);
+          if (diff) await applyConsolePatch(entry.file_path, diff);
+          outcome.reverted.push(entry.id);
+        } catch (err: any) {
+          outcome.failed.push({
+            id: entry.id,
+            file_path: entry.file_path,
+            error: err?.message || 'Revert failed',
+          });
+        }
+      }
+
+      if (outcome.reverted.length > 0) {
+        const revertedAt = new Date().toISOString();
+        save(
+          sessionId,
+          (get().entriesBySession[sessionId] || []).map(e =>
+            outcome.reverted.includes(e.id) ? { ...e, reverted_at: revertedAt } : e
+          )
+        );
+      }
+      return outcome;
+    },
+  };
+});
@@ -0,0 +1,211 @@
+/**
+ * Run-all executor for the commands and tests of one AgentResponse.
+ *
+ * Steps run strictly in order (commands first, then tests, each in the
+ * order ATLAS listed them) through the command run store, so every step
+ * also shows up in its CommandPlanList / TestPlanList run history.
+ */
+
+import type { AgentResponse, CommandRun } from './types';
+import {
+  COMMAND_TIMEOUT_SECONDS,
+  TEST_TIMEOUT_SECONDS,
+  commandRunKey,
+  formatDuration,
+  useCommandRunStore,
+} from './commandRunStore';
+
+export type PlanStepKind = 'command' | 'test';
+
+export type PlanStepStatus = 'pending' | 'running' | 'passed' | 'failed' | 'cancelled' | 'skipped';
+
+// 'stop' skips every step after the first failure; 'continue' runs them all
+export type PlanFailureMode = 'stop' | 'continue';
+
+export interface PlanStep {
+  kind: PlanStepKind;
+  index: number; // position within response.commands / response.tests
+  command: string;
+  cwd?: string;
+  description?: string;
+}
+
+export interface PlanStepResult extends PlanStep {
+  status: PlanStepStatus;
+  exit_code?: number;
+  duration_ms?: number;
+  timed_out?: boolean;
+  error?: string;
+  output_tail?: string;
+}
+
+export interface PlanRunSummary {
+  mode: PlanFailureMode;
+  started_at: string;
+  finished_at?: string;
+  duration_ms?: number;
+  steps: PlanStepResult[];
+}
+
+export interface PlanRunHandle {
+  cancel: () => void;
+  done: Promise<PlanRunSummary>;
+}
+
+const OUTPUT_TAIL_LINES = 20;
+
+export function buildPlanSteps(response: Pick<AgentResponse, 'commands' | 'tests'>): PlanStep[] {
+  return [
+    ...(response.commands || []).map((c, index): PlanStep => ({
+      kind: 'command',
+      index,
+      command: c.command,
+      cwd: c.cwd,
+      description: c.description,
+    })),
+    ...(response.tests || []).map((t, index): PlanStep => ({
+      kind: 'test',
+      index,
+      command: t.command,
+      description: t.description,
+    })),
+  ];
+}
+
+export function countPlanResults(summary: PlanRunSummary): Record<PlanStepStatus, number> {
+  const counts: Record<PlanStepStatus, number> = {
+    pending: 0,
+    running: 0,
+    passed: 0,
+    failed: 0,
+    cancelled: 0,
+    skipped: 0,
+  };
+  summary.steps.forEach(step => counts[step.status]++);
+  return counts;
+}
+
+function outputTail(run: CommandRun): string {
+  const text = run.output.map(chunk => chunk.data).join('');
+  return text.trimEnd().split('\n').slice(-OUTPUT_TAIL_LINES).join('\n');
+}
+
+function toStepResult(step: PlanStep, run: CommandRun): PlanStepResult {
+  return {
+    ...step,
+    status: run.status === 'success' ? 'passed' : run.status === 'running' ? 'running' : run.status,
+    exit_code: run.exit_code,
+    duration_ms: run.duration_ms,
+    timed_out: run.timed_out,
+    error: run.error,
+    output_tail: run.status === 'success' ? undefined : outputTail(run),
+  };
+}
+
+/**
+ * Start running `steps`. `onUpdate` receives a fresh summary after every
+ * step transition; the returned handle stops the plan (and the running step).
+ */
+export function executePlan(
+  steps: PlanStep[],
+  options: {
+    mode: PlanFailureMode;
+    sessionId?: string | null;
+    onUpdate?: (summary: PlanRunSummary) => void;
+  }
+): PlanRunHandle {
+  const store = useCommandRunStore.getState();
+  const startedAt = Date.now();
+  let cancelled = false;
+  let currentRunId: string | null = null;
+
+  let summary: PlanRunSummary = {
+    mode: options.mode,
+    started_at: new Date(startedAt).toISOString(),
+    steps: steps.map(step => ({ ...step, status: 'pending' })),
+  };
+
+  const update = (index: number, result: PlanStepResult) => {
+    summary = { ...summary, steps: summary.steps.map((s, i) => (i === index ? result : s)) };
+    options.onUpdate?.(summary);
+  };
+
+  const run = async (): Promise<PlanRunSummary> => {
+    let failed = false;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      if (cancelled || (failed && options.mode === 'stop')) {
+        update(i, { ...step, status: cancelled ? 'cancelled' : 'skipped' });
+        continue;
+      }
+
+      update(i, { ...step, status: 'running' });
+      const key = commandRunKey(step.command, step.cwd, options.sessionId);
+      const pending = store.startRun(key, {
+        command: step.command,
+        cwd: step.cwd,
+        timeout: step.kind === 'test' ? TEST_TIMEOUT_SECONDS : COMMAND_TIMEOUT_SECONDS,
+        session_id: options.sessionId ?? undefined,
+      });
+      // startRun registers the run synchronously; remember it for cancel()
+      currentRunId = useCommandRunStore.getState().runsByKey[key]?.[0]?.id ?? null;
+
+      const result = toStepResult(step, await pending);
+      currentRunId = null;
+      update(i, result);
+      if (result.status !== 'passed') failed = true;
+    }
+
+    const finishedAt = Date.now();
+    summary = {
+      ...summary,
+      finished_at: new Date(finishedAt).toISOString(),
+      duration_ms: finishedAt - startedAt,
+    };
+    options.onUpdate?.(summary);
+    return summary;
+  };
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      if (currentRunId) store.cancelRun(currentRunId);
+    },
+    done: run(),
+  };
+}
+
+/**
+ * Render a plan summary as markdown for use as chat context
+ */
+export function formatPlanSummary(summary: PlanRunSummary): string {
+  const counts = countPlanResults(summary);
+  const lines = [
+    `## Plan run: ${counts.passed}/${summary.steps.length} passed` +
+      (counts.failed ? `, ${counts.failed} failed` : '') +
+      (counts.skipped ? `, ${counts.skipped} skipped` : '') +
+      (counts.cancelled ? `, ${counts.cancelled} cancelled` : ''),
+    '',
+    `Mode: ${summary.mode === 'stop' ? 'stop on first failure' : 'continue on failure'}; ` +
+      `total ${formatDuration(summary.duration_ms) || '-'}`,
+    '',
+    '| # | Kind | Command | Result | Exit | Time |',
+    '|---|------|---------|--------|------|------|',
+    ...summary.steps.map(
+      (step, i) =>
+        `| ${i + 1} | ${step.kind} | \`${step.command.replace(/\|/g, '\\|')}\` | ${step.status}` +
+        `${step.timed_out ? ' (timed out)' : ''} | ${step.exit_code ?? '-'} | ${formatDuration(step.duration_ms) || '-'} |`
+    ),
+  ];
+
+  summary.steps
+    .filter(step => step.status === 'failed')
+    .forEach(step => {
+      lines.push('', `### Output of \`${step.command}\``);
+      if (step.error) lines.push('', step.error);
+      if (step.output_tail) lines.push('', '```', step.output_tail, '```');
+    });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,62 @@
+/**
+ * Shared Prism setup: the languages the console highlights and the
+ * file-extension mapping used by the file viewer and the diff viewer.
+ */
+
+import Prism from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-javascript';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/components/prism-yaml';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-sql';
+import 'prismjs/components/prism-css';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+
+// Map file extensions to Prism language identifiers
+export const getLanguage = (filename: string): string => {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const langMap: { [key: string]: string } = {
+    'ts': 'typescript',
+    'tsx': 'tsx',
+    'js': 'javascript',
+    'jsx': 'jsx',
+    'py': 'python',
+    'json': 'json',
+    'md': 'markdown',
+    'yml': 'yaml',
+    'yaml': 'yaml',
+    'sh': 'bash',
+    'bash': 'bash',
+    'sql': 'sql',
+    'css': 'css',
+    'html': 'markup',
+    'xml': 'markup',
+  };
+  return langMap[ext || ''] || 'markup';
+};
+
+/**
+ * Prism language for a markdown code fence tag ("ts", "python", "sh", ...)
+ */
+export function getFenceLanguage(tag: string | undefined): string {
+  const normalized = (tag || '').toLowerCase();
+  if (!normalized) return 'plain';
+  if (Prism.languages[normalized]) return normalized;
+  // Tags that are file extensions go through the file viewer's map
+  const byExtension = getLanguage(`snippet.${normalized}`);
+  return byExtension === 'markup' && !['html', 'xml'].includes(normalized) ? 'plain' : byExtension;
+}
+
+/**
+ * Highlight a snippet and return HTML (Prism escapes the source text)
+ */
+export function highlightCode(code: string, language: string): string {
+  const grammar = Prism.languages[language] || Prism.languages.markup;
+  return Prism.highlight(code, grammar, language);
+}
+
+export default Prism;
@@ -0,0 +1,141 @@
+/**
+ * Browser-side fetch helpers: timeouts, caller cancellation and retry with
+ * exponential backoff.
+ *
+ * Retries are only for idempotent reads (files, logs, sessions, skills);
+ * anything that changes state gets a timeout but is sent once.
+ *
+ * Configuration:
+ *   NEXT_PUBLIC_ATLAS_REQUEST_TIMEOUT_MS  Per-attempt timeout (default 30000)
+ *   NEXT_PUBLIC_ATLAS_CHAT_TIMEOUT_MS     Chat: longest wait for the next
+ *                                         response or stream event (default 120000)
+ *   NEXT_PUBLIC_ATLAS_REQUEST_RETRIES     Retries for idempotent reads (default 3)
+ */
+
+function envNumber(value: string | undefined, fallback: number): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// process.env.NEXT_PUBLIC_* must be spelled out for Next.js to inline it
+export const REQUEST_TIMEOUT_MS = envNumber(process.env.NEXT_PUBLIC_ATLAS_REQUEST_TIMEOUT_MS, 30_000);
+export const CHAT_TIMEOUT_MS = envNumber(process.env.NEXT_PUBLIC_ATLAS_CHAT_TIMEOUT_MS, 120_000);
+export const IDEMPOTENT_RETRIES = envNumber(process.env.NEXT_PUBLIC_ATLAS_REQUEST_RETRIES, 3);
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+export interface RequestOptions {
+  // Caller cancellation
+  signal?: AbortSignal;
+  // Per attempt; 0 disables the timeout
+  timeoutMs?: number;
+  // Extra attempts after a network error, timeout, 429 or 5xx
+  retries?: number;
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err as any)?.name === 'AbortError';
+}
+
+/**
+ * An AbortController that fires after `timeoutMs` without a reset() and
+ * follows `parent`. Call clear() when done.
+ */
+export function createTimeoutController(timeoutMs: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onParentAbort = () => controller.abort();
+  if (parent?.aborted) controller.abort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  const reset = () => {
+    if (timer) clearTimeout(timer);
+    if (timeoutMs <= 0) return;
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  reset();
+
+  return {
+    signal: controller.signal,
+    reset,
+    timedOut: () => timedOut,
+    clear: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+function timeoutError(url: string, timeoutMs: number): Error {
+  return new Error(`Request to ${url.split('?')[0]} timed out after ${Math.round(timeoutMs / 1000)}s`);
+}
+
+/**
+ * fetch() that gives up after `timeoutMs`. Caller aborts reject with the
+ * usual AbortError; timeouts reject with a plain Error saying so.
+ */
+export async function fetchWithTimeout(
+  url: string,
+  init: RequestInit = {},
+  { signal, timeoutMs = REQUEST_TIMEOUT_MS }: RequestOptions = {}
+): Promise<Response> {
+  const timeout = createTimeoutController(timeoutMs, signal);
+  try {
+    return await fetch(url, { ...init, signal: timeout.signal });
+  } catch (err) {
+    if (timeout.timedOut()) throw timeoutError(url, timeoutMs);
+    throw err;
+  } finally {
+    timeout.clear();
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  // Jitter so clients recovering together don't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * fetchWithTimeout() for idempotent requests, retried with exponential
+ * backoff. The last failing response is returned as is for the caller's
+ * own error handling.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  { retries = IDEMPOTENT_RETRIES, ...options }: RequestOptions = {}
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetchWithTimeout(url, init, options);
+      if (!isRetryableStatus(res.status) || attempt >= retries) return res;
+    } catch (err) {
+      if (options.signal?.aborted || attempt >= retries) throw err;
+    }
+    await sleep(backoffDelay(attempt), options.signal);
+  }
+}
@@ -25,10 +25,10 @@ function isBrowser(): boolean {
 }
 
 /**
- * Create a random session ID
+ * Create a random ID (session IDs, chat message IDs)
  * Uses crypto.randomUUID() if available, with fallback for older browsers
  */
-function createRandomId(): string {
+export function createRandomId(): string {
     if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
         return crypto.randomUUID();
     }
@@ -0,0 +1,278 @@
+// slashCommands.ts
+// Typed registry of the chat input's slash commands. Each command maps onto
+// one of the query phrasings ATLAS Core already understands ("search logs",
+// "read file project", "ui patch infer", ...) or onto a dedicated console
+// view, so nobody has to remember the exact wording.
+
+import type { MainTabId } from './types';
+
+export type SlashArgType = 'word' | 'int' | 'path' | 'text';
+
+export interface SlashArgSpec {
+  name: string;
+  type: SlashArgType;
+  description: string;
+  optional?: boolean;
+  default?: string;
+  // Bounds for int arguments
+  min?: number;
+  max?: number;
+}
+
+export type SlashAction =
+  | { kind: 'chat'; query: string; context?: string }
+  | { kind: 'view'; tab: MainTabId; args: Record<string, string> }
+  | { kind: 'open-file'; path: string }
+  | { kind: 'help' };
+
+export interface SlashCommandContext {
+  projectId?: string;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  // At most one 'text' argument, which takes the words the others leave over
+  args: SlashArgSpec[];
+  requiresProject?: boolean;
+  build: (args: Record<string, string>, ctx: Required<SlashCommandContext>) => SlashAction;
+}
+
+export type SlashResolution =
+  | { ok: true; command: SlashCommand; action: SlashAction }
+  | { ok: false; error: string };
+
+// Same normalization the project file list uses
+const projectSubpath = (path: string) =>
+  !path || path === '.' ? '.' : path.startsWith('./') ? path : `./${path}`;
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'meta',
+    description: 'Run a meta-assessment in the Meta view',
+    args: [],
+    build: () => ({ kind: 'view', tab: 'meta', args: {} }),
+  },
+  {
+    name: 'simulate',
+    description: 'Simulate a scenario in the Simulation view',
+    args: [{ name: 'goal', type: 'text', description: 'Scenario to simulate' }],
+    build: ({ goal }) => ({ kind: 'view', tab: 'simulation', args: { goal } }),
+  },
+  {
+    name: 'security',
+    description: 'Refresh the Security view',
+    args: [],
+    build: () => ({ kind: 'view', tab: 'security', args: {} }),
+  },
+  {
+    name: 'logs',
+    description: 'Search the ATLAS logs',
+    args: [
+      { name: 'term', type: 'text', description: 'Text to search for' },
+      { name: 'limit', type: 'int', description: 'Maximum matches', optional: true, default: '20', min: 1, max: 500 },
+    ],
+    build: ({ term, limit }) => ({ kind: 'chat', query: `search logs ${term} ${limit}` }),
+  },
+  {
+    name: 'history',
+    description: 'Search chat history across all sessions',
+    args: [{ name: 'query', type: 'text', description: 'Words or "exact text" to find' }],
+    build: ({ query }) => ({ kind: 'view', tab: 'history', args: { query } }),
+  },
+  {
+    name: 'files',
+    description: "List files in the session's project",
+    args: [{ name: 'path', type: 'path', description: 'Directory in the project', optional: true, default: '.' }],
+    requiresProject: true,
+    build: ({ path }, { projectId }) => ({
+      kind: 'chat',
+      query: `list files in project ${projectId} ${projectSubpath(path)}`,
+    }),
+  },
+  {
+    name: 'read',
+    description: "Read a file from the session's project",
+    args: [{ name: 'path', type: 'path', description: 'File in the project' }],
+    requiresProject: true,
+    build: ({ path }, { projectId }) => ({ kind: 'chat', query: `read file project ${projectId} ${path}` }),
+  },
+  {
+    name: 'open',
+    description: 'Open a workspace file in the code view',
+    args: [{ name: 'path', type: 'path', description: 'Workspace file' }],
+    build: ({ path }) => ({ kind: 'open-file', path }),
+  },
+  {
+    name: 'patch-ui',
+    description: 'Ask ATLAS for a UI patch to one file',
+    args: [
+      { name: 'path', type: 'path', description: 'File to patch' },
+      { name: 'instructions', type: 'text', description: 'What to change' },
+    ],
+    requiresProject: true,
+    build: ({ path, instructions }, { projectId }) => ({
+      kind: 'chat',
+      query: 'ui patch infer',
+      context: JSON.stringify({ project: projectId, path, instructions }),
+    }),
+  },
+  {
+    name: 'patch-ui-auto',
+    description: 'Let ATLAS pick the files for a UI patch',
+    args: [{ name: 'instructions', type: 'text', description: 'What to change' }],
+    requiresProject: true,
+    build: ({ instructions }, { projectId }) => ({
+      kind: 'chat',
+      query: 'ui patch auto',
+      context: JSON.stringify({ project: projectId, instructions }),
+    }),
+  },
+  {
+    name: 'help',
+    description: 'List the slash commands',
+    args: [],
+    build: () => ({ kind: 'help' }),
+  },
+];
+
+/**
+ * Split the text after the command name into words; quotes group words
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"?|'([^']*)'?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * The command name and argument words of `/name args...`, or null when the
+ * input isn't a slash command
+ */
+export function parseSlashInput(input: string): { name: string; argText: string; tokens: string[] } | null {
+  const match = /^\/([\w-]*)(?:\s+([\s\S]*))?$/.exec(input.trimStart());
+  if (!match) return null;
+  const argText = match[2] ?? '';
+  return { name: match[1].toLowerCase(), argText, tokens: tokenize(argText) };
+}
+
+export function findSlashCommand(name: string): SlashCommand | undefined {
+  return SLASH_COMMANDS.find(c => c.name === name);
+}
+
+/**
+ * Commands whose name starts with `prefix`, for autocomplete
+ */
+export function matchSlashCommands(prefix: string): SlashCommand[] {
+  const lower = prefix.toLowerCase();
+  return SLASH_COMMANDS.filter(c => c.name.startsWith(lower));
+}
+
+export function formatSlashArg(arg: SlashArgSpec): string {
+  const label = arg.type === 'text' ? `${arg.name}…` : arg.name;
+  if (!arg.optional) return `<${label}>`;
+  return arg.default !== undefined ? `[${label}=${arg.default}]` : `[${label}]`;
+}
+
+export function commandSignature(command: SlashCommand): string {
+  return [`/${command.name}`, ...command.args.map(formatSlashArg)].join(' ');
+}
+
+function validateArg(arg: SlashArgSpec, value: string): string | null {
+  if (arg.type === 'int') {
+    if (!/^\d+$/.test(value)) return `${arg.name} must be a whole number`;
+    const n = parseInt(value, 10);
+    if (arg.min !== undefined && n < arg.min) return `${arg.name} must be at least ${arg.min}`;
+    if (arg.max !== undefined && n > arg.max) return `${arg.name} must be at most ${arg.max}`;
+  }
+  if (arg.type === 'path' && (value.includes('..') || value.startsWith('/'))) {
+    return `${arg.name} must be a relative path inside the project`;
+  }
+  if (arg.type === 'word' && /\s/.test(value)) return `${arg.name} must be a single word`;
+  return null;
+}
+
+/**
+ * Assign words to arguments. Arguments after a 'text' argument are taken from
+ * the end; optional ones only when the word fits their type.
+ */
+function bindArgs(args: SlashArgSpec[], tokens: string[]): { values: Record<string, string>; error?: string } {
+  const values: Record<string, string> = {};
+  const rest = [...tokens];
+  const textIndex = args.findIndex(a => a.type === 'text');
+  const leading = textIndex === -1 ? args : args.slice(0, textIndex);
+  const trailing = textIndex === -1 ? [] : args.slice(textIndex + 1);
+
+  for (const arg of leading) {
+    const value = rest.shift();
+    if (value !== undefined) values[arg.name] = value;
+  }
+  for (const arg of [...trailing].reverse()) {
+    const value = rest[rest.length - 1];
+    if (value === undefined) break;
+    // An out-of-range number is still the number, and fails validation later
+    if (arg.optional && !(arg.type === 'int' ? /^\d+$/.test(value) : !validateArg(arg, value))) continue;
+    values[arg.name] = value;
+    rest.pop();
+  }
+  if (textIndex !== -1) {
+    if (rest.length > 0) values[args[textIndex].name] = rest.join(' ');
+  } else if (rest.length > 0) {
+    return { values, error: `Unexpected argument "${rest[0]}"` };
+  }
+  return { values };
+}
+
+/**
+ * Validate a slash command line and turn it into the action it stands for
+ */
+export function resolveSlashCommand(input: string, ctx: SlashCommandContext = {}): SlashResolution {
+  const parsed = parseSlashInput(input);
+  if (!parsed) return { ok: false, error: 'Not a slash command' };
+  const command = findSlashCommand(parsed.name);
+  if (!command) return { ok: false, error: `Unknown command /${parsed.name}. Type /help for the list.` };
+
+  const { values, error } = bindArgs(command.args, parsed.tokens);
+  if (error) return { ok: false, error: `${error}. Usage: ${commandSignature(command)}` };
+
+  for (const arg of command.args) {
+    const value = values[arg.name];
+    if (value === undefined || value === '') {
+      if (!arg.optional) return { ok: false, error: `Missing ${formatSlashArg(arg)}. Usage: ${commandSignature(command)}` };
+      values[arg.name] = arg.default ?? '';
+      continue;
+    }
+    const invalid = validateArg(arg, value);
+    if (invalid) return { ok: false, error: invalid };
+  }
+
+  if (command.requiresProject && !ctx.projectId) {
+    return { ok: false, error: `/${command.name} needs a session with a project` };
+  }
+  return { ok: true, command, action: command.build(values, { projectId: ctx.projectId ?? '' }) };
+}
+
+/**
+ * Index of the argument being typed, for the argument hint
+ */
+export function activeArgIndex(command: SlashCommand, input: string): number {
+  const parsed = parseSlashInput(input);
+  if (!parsed || command.args.length === 0) return -1;
+  const typed = parsed.tokens.length - (parsed.argText && !/\s$/.test(parsed.argText) ? 1 : 0);
+  const index = Math.max(typed, 0);
+  const textIndex = command.args.findIndex(a => a.type === 'text');
+  if (textIndex !== -1 && index >= textIndex) return textIndex;
+  return Math.min(index, command.args.length - 1);
+}
+
+/**
+ * Markdown table of the commands, shown by /help
+ */
+export function slashHelpMarkdown(): string {
+  const rows = SLASH_COMMANDS.map(c => `| \`${commandSignature(c)}\` | ${c.description} |`);
+  return ['| Command | Description |', '| --- | --- |', ...rows].join('\n');
+}
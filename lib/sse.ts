@@ -0,0 +1,93 @@
+/**
+ * Minimal server-sent events reader.
+ *
+ * The console consumes SSE over `fetch` (not `EventSource`) because the
+ * streaming endpoints are POST requests with JSON bodies.
+ */
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse one SSE block (the text between two blank lines).
+ * Returns null for comment-only or empty blocks.
+ */
+export function parseSseBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  let id: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const rawLine of block.split('\n')) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    if (!line || line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n'), id };
+}
+
+/**
+ * Read a response body as a stream of server-sent events, invoking
+ * `onEvent` for each complete event. Resolves when the stream ends.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const parsed = parseSseBlock(block);
+        if (parsed) onEvent(parsed);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    buffer += decoder.decode();
+    const trailing = parseSseBlock(buffer.trim());
+    if (trailing) onEvent(trailing);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Encode a single SSE frame. Used by server routes that emit events.
+ */
+export function encodeSseEvent(event: string, data: unknown): string {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+  return `event: ${event}\n${lines}\n\n`;
+}
@@ -0,0 +1,112 @@
+// terminalStore.ts
+// Zustand store for the terminal panel: tabs, their connection state and
+// input queued for them by other parts of the console ("Run in terminal").
+
+import { create } from 'zustand';
+import { createRandomId } from './session';
+
+export type TerminalStatus = 'connecting' | 'open' | 'closed' | 'error';
+
+export interface TerminalTab {
+  id: string;
+  title: string;
+  cwd?: string;
+  status: TerminalStatus;
+  exitCode?: number;
+  error?: string;
+}
+
+interface TerminalStoreState {
+  tabs: TerminalTab[];
+  activeTabId: string | null;
+  panelOpen: boolean;
+  // Input waiting to be written once a tab's socket is open
+  pendingInput: Record<string, string[]>;
+
+  // Actions
+  openTab: (cwd?: string) => string;
+  closeTab: (id: string) => void;
+  setActiveTab: (id: string) => void;
+  setPanelOpen: (open: boolean) => void;
+  updateTab: (id: string, changes: Partial<Omit<TerminalTab, 'id'>>) => void;
+  runInTerminal: (command: string, options?: { cwd?: string; rootPath?: string }) => void;
+  takePendingInput: (id: string) => string[];
+}
+
+/**
+ * Quote a string for POSIX shells
+ */
+export function shellQuote(value: string): string {
+  return /^[\w./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Titles keep counting up, so closing a tab never repeats a number
+let terminalCount = 0;
+
+export const useTerminalStore = create<TerminalStoreState>((set, get) => ({
+  tabs: [],
+  activeTabId: null,
+  panelOpen: false,
+  pendingInput: {},
+
+  openTab: (cwd) => {
+    const id = createRandomId();
+    const number = ++terminalCount;
+    set(state => ({
+      tabs: [...state.tabs, { id, title: `Terminal ${number}`, cwd, status: 'connecting' }],
+      activeTabId: id,
+      panelOpen: true,
+    }));
+    return id;
+  },
+
+  closeTab: (id) => {
+    set(state => {
+      const tabs = state.tabs.filter(t => t.id !== id);
+      const { [id]: _dropped, ...pendingInput } = state.pendingInput;
+      const activeTabId =
+        state.activeTabId === id ? (tabs.length > 0 ? tabs[tabs.length - 1].id : null) : state.activeTabId;
+      // Closing the last terminal collapses the panel
+      const panelOpen = tabs.length > 0 && state.panelOpen;
+      return { tabs, activeTabId, pendingInput, panelOpen };
+    });
+  },
+
+  setActiveTab: (id) => set({ activeTabId: id }),
+
+  setPanelOpen: (open) => set({ panelOpen: open }),
+
+  updateTab: (id, changes) => {
+    set(state => ({
+      tabs: state.tabs.map(t => (t.id === id ? { ...t, ...changes } : t)),
+    }));
+  },
+
+  runInTerminal: (command, options = {}) => {
+    const { tabs, activeTabId } = get();
+    const active = tabs.find(t => t.id === activeTabId);
+
+    // Reuse the active tab unless it is gone or rooted elsewhere
+    const reusable =
+      active && active.status !== 'closed' && active.status !== 'error' && active.cwd === options.rootPath;
+    const id = reusable ? active.id : get().openTab(options.rootPath);
+
+    const line = options.cwd ? `cd ${shellQuote(options.cwd)} && ${command}` : command;
+    set(state => ({
+      activeTabId: id,
+      panelOpen: true,
+      pendingInput: {
+        ...state.pendingInput,
+        [id]: [...(state.pendingInput[id] || []), `${line}\r`],
+      },
+    }));
+  },
+
+  takePendingInput: (id) => {
+    const queued = get().pendingInput[id] || [];
+    if (queued.length > 0) {
+      set(state => ({ pendingInput: { ...state.pendingInput, [id]: [] } }));
+    }
+    return queued;
+  },
+}));
@@ -9,6 +9,8 @@ export interface AtlasChatRequest {
   context?: string | null;
   override_unresolved_assumptions: boolean;
   session_id?: string;
+  // Client-chosen id, so the request can be cancelled
+  request_id?: string;
 }
 
 export interface AtlasChatResponse {
@@ -25,6 +27,16 @@ export interface AtlasChatResponse {
   session_id?: string | null;
 }
 
+// Streaming chat events relayed by /api/atlas/chat/stream
+export type AtlasChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'tool_call'; tool_call: ToolCall }
+  | { type: 'patch'; patch: Patch }
+  | { type: 'command'; command: Command }
+  | { type: 'test'; test: TestInstruction }
+  | { type: 'done'; response: AtlasChatResponse }
+  | { type: 'error'; error: string };
+
 // Console API Types
 export type ConsoleSession = {
   session_id: string;
@@ -32,6 +44,22 @@ export type ConsoleSession = {
   root_path?: string;
   created_at?: string;
   updated_at?: string;
+  // Set from the session manager
+  name?: string;
+  tags?: string[];
+  archived?: boolean;
+};
+
+export type ConsoleSessionUpdate = {
+  name?: string;
+  tags?: string[];
+};
+
+export type ConsoleSessionCreate = ConsoleSessionUpdate & {
+  session_id?: string;
+  project_id?: string;
+  root_path?: string;
+  data?: any;
 };
 
 export type ConsoleFileInfo = {
@@ -40,6 +68,25 @@ export type ConsoleFileInfo = {
   size?: number;
 };
 
+// Project file API (/api/projects/[projectId]/files); paths are relative to the project root
+export type ProjectFileEntry = {
+  path: string;
+  name: string;
+  is_dir: boolean;
+  size?: number;
+  modified_at?: string;
+};
+
+export type ProjectFileListResponse = {
+  project_id: string;
+  path: string;
+  entries: ProjectFileEntry[];
+};
+
+export type ProjectFileContent = ProjectFileEntry & {
+  content: string;
+};
+
 export type ConsoleFileListResponse = {
   workspace_root: string;
   current_path: string;
@@ -58,6 +105,42 @@ export type Command = {
   cwd?: string;
 };
 
+// Streaming command runs relayed by /api/console/commands/stream
+export type CommandRunRequest = {
+  command: string;
+  cwd?: string;
+  timeout?: number; // seconds
+  session_id?: string;
+};
+
+export type CommandOutputStream = 'stdout' | 'stderr';
+
+export type CommandRunEvent =
+  // run_id is null when the backend can't cancel the run
+  | { type: 'start'; run_id: string | null }
+  | { type: 'output'; stream: CommandOutputStream; data: string }
+  | { type: 'exit'; exit_code: number; duration_ms: number; timed_out?: boolean }
+  | { type: 'error'; error: string };
+
+export type CommandRunStatus = 'running' | 'success' | 'failed' | 'cancelled';
+
+export type CommandRun = {
+  id: string;
+  command: string;
+  cwd?: string;
+  status: CommandRunStatus;
+  started_at: string;
+  finished_at?: string;
+  exit_code?: number;
+  duration_ms?: number;
+  timed_out?: boolean;
+  error?: string;
+  output: { stream: CommandOutputStream; data: string }[];
+  truncated?: boolean;
+  // false once the backend reports a run it can't cancel
+  cancellable?: boolean;
+};
+
 export type TestInstruction = {
   command: string;
   description?: string;
@@ -140,3 +223,107 @@ export interface AtlasTask {
 
 // Alias for TasksView
 export type TaskInfo = AtlasTask;
+
+// Chat transcript types
+export type PatchApplyResult = {
+  success: boolean;
+  message: string;
+  applied_at?: string;
+};
+
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  created_at: string; // ISO 8601 string
+  response?: AgentResponse;
+  // Outcome of applying response.patches, keyed by patch index
+  patch_results?: Record<number, PatchApplyResult>;
+  // Material gathered for response.context_requests, keyed by request_id
+  context_answers?: Record<string, ContextMaterial[]>;
+  context_submitted_at?: string;
+  // Set once response.unresolved_assumptions were reviewed and the query re-sent
+  assumptions_resent_at?: string;
+  // On a user message whose reply failed or was stopped; cleared by a retry
+  failed?: ChatFailure;
+}
+
+// What went wrong with a chat request, and what to send again on retry
+export type ChatFailure = {
+  error: string;
+  cancelled?: boolean;
+  failed_at: string;
+  query: string;
+  context?: string;
+};
+
+// One piece of material answering a ContextRequest
+export type ContextMaterial =
+  | { kind: 'file'; path: string; content: string; truncated?: boolean }
+  | { kind: 'command'; command: string; exit_code?: number; output: string }
+  | { kind: 'text'; text: string };
+
+// Assumption carried across a chat session and sent with strict-mode queries
+export type SessionAssumption = AtlasAssumption & {
+  id: string;
+  source_message_id?: string; // assistant message that surfaced it
+  updated_at: string;
+};
+
+// One file changed by an applied patch, as recorded in the patch journal
+export type PatchJournalEntry = {
+  id: string;
+  session_id: string;
+  message_id?: string; // assistant message that proposed the patch
+  patch_index: number;
+  file_path: string;
+  description?: string;
+  pre_image: string | null; // null when the patch created the file
+  post_image: string | null; // null when the patch deleted the file
+  applied_at: string;
+  reverted_at?: string;
+};
+
+// Explorer file operations (create, rename/move, delete, upload), recorded
+// with what is needed to undo them
+export type FileSnapshot = {
+  path: string;
+  is_dir: boolean;
+  content?: string; // files only
+};
+
+export type FileOperation =
+  | { kind: 'create'; path: string; is_dir: boolean }
+  | { kind: 'move'; from: string; to: string }
+  // snapshot is null when the deleted content could not be captured
+  | { kind: 'delete'; path: string; is_dir: boolean; snapshot: FileSnapshot[] | null }
+  // fingerprints (by path) let undo tell whether an uploaded file was edited since
+  | { kind: 'upload'; dir: string; paths: string[]; fingerprints?: Record<string, string> };
+
+export type FileOperationEntry = FileOperation & {
+  id: string;
+  performed_at: string;
+  undone_at?: string;
+};
+
+// Context attached to the next chat message (files, plan summaries, ...)
+export type ChatAttachment = {
+  name: string;
+  type: string; // MIME type
+  content: string;
+  size?: number;
+};
+
+// A message before the console has assigned its id and timestamp
+export type NewChatMessage = Omit<ChatMessage, 'id' | 'created_at'> &
+  Partial<Pick<ChatMessage, 'id' | 'created_at'>>;
+
+// Main view tabs
+export type MainTabId = "code" | "meta" | "logs" | "tasks" | "security" | "skills" | "simulation" | "sandbox" | "patches" | "architecture" | "neural-viz" | "history";
+
+// Work handed to a main view when it is opened (e.g. by a slash command)
+export type ViewRequest = {
+  id: string;
+  tab: MainTabId;
+  args: Record<string, string>;
+};
@@ -0,0 +1,103 @@
+/**
+ * The console state mirrored in the page URL, so a link can reopen a
+ * session on a given tab, file, line range or architecture node:
+ *
+ *   /?session=abc123&tab=code&file=src/app.ts&lines=120-140
+ *   /?tab=architecture&node=router
+ */
+
+import type { MainTabId } from './types';
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface ConsoleUrlState {
+  tab: MainTabId;
+  session: string | null;
+  file: string | null;
+  lines: LineRange | null;
+  node: string | null;
+}
+
+// Keyed by tab so adding a MainTabId without listing it here fails to compile
+const TAB_IDS: Record<MainTabId, true> = {
+  code: true,
+  architecture: true,
+  'neural-viz': true,
+  meta: true,
+  logs: true,
+  tasks: true,
+  patches: true,
+  security: true,
+  skills: true,
+  simulation: true,
+  sandbox: true,
+  history: true,
+};
+
+export const DEFAULT_TAB: MainTabId = 'code';
+
+// Own keys only: `in` would also accept 'toString' and the like
+const isTabId = (value: string | null): value is MainTabId => !!value && Object.hasOwn(TAB_IDS, value);
+
+/**
+ * `120`, `120-140` or `L120-L140`; reversed ranges are put in order
+ */
+export function parseLineRange(value: string | null): LineRange | null {
+  const match = value && /^L?(\d+)(?:-L?(\d+))?$/i.exec(value.trim());
+  if (!match) return null;
+  const a = parseInt(match[1], 10);
+  const b = match[2] ? parseInt(match[2], 10) : a;
+  if (a < 1 || b < 1) return null;
+  return { start: Math.min(a, b), end: Math.max(a, b) };
+}
+
+export function formatLineRange(lines: LineRange): string {
+  return lines.start === lines.end ? String(lines.start) : `${lines.start}-${lines.end}`;
+}
+
+export function parseConsoleUrl(search: string): ConsoleUrlState {
+  const params = new URLSearchParams(search);
+  const tab = params.get('tab');
+  const file = params.get('file');
+  return {
+    tab: isTabId(tab) ? tab : DEFAULT_TAB,
+    session: params.get('session'),
+    file,
+    // A line range means nothing without its file
+    lines: file ? parseLineRange(params.get('lines')) : null,
+    node: params.get('node'),
+  };
+}
+
+/**
+ * Query string for `state` (with the leading ?), leaving out defaults
+ */
+export function buildConsoleSearch(state: ConsoleUrlState): string {
+  const params = new URLSearchParams();
+  if (state.session) params.set('session', state.session);
+  if (state.tab !== DEFAULT_TAB) params.set('tab', state.tab);
+  if (state.file) {
+    params.set('file', state.file);
+    if (state.lines) params.set('lines', formatLineRange(state.lines));
+  }
+  if (state.node) params.set('node', state.node);
+  const query = params.toString().replace(/%2F/gi, '/');
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Whether going from `prev` to `next` deserves its own history entry.
+ * Line and node selection only replace the current one, so Back goes to
+ * the previous file or tab rather than through every click. Filling in a
+ * session where there was none is the automatic first pick, not a move.
+ */
+export function isNavigation(prev: ConsoleUrlState, next: ConsoleUrlState): boolean {
+  return (
+    prev.tab !== next.tab ||
+    (prev.session !== null && prev.session !== next.session) ||
+    prev.file !== next.file
+  );
+}
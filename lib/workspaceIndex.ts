@@ -0,0 +1,70 @@
+// workspaceIndex.ts
+// Flat list of workspace file paths for fuzzy lookups (@-mentions in the
+// chat input, the Ctrl+P file finder). Built by walking /api/console/files
+// breadth-first, skipping dependency and build directories, and kept until
+// invalidated.
+
+import { create } from 'zustand';
+import { fetchConsoleFiles } from './atlasConsoleClient';
+import { IGNORED_DIRS } from './workspaceSearch';
+
+// Upper bounds so a huge workspace can't stall the console
+const MAX_INDEXED_DIRS = 400;
+const MAX_INDEXED_FILES = 20_000;
+
+export type WorkspaceIndexStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+async function crawlWorkspace(): Promise<{ paths: string[]; truncated: boolean }> {
+  const paths: string[] = [];
+  const queue = ['.'];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_INDEXED_DIRS && paths.length < MAX_INDEXED_FILES) {
+    const dir = queue.shift()!;
+    visited++;
+    const { files } = await fetchConsoleFiles(dir);
+    for (const file of files) {
+      const name = file.path.split('/').pop() || file.path;
+      if (file.is_dir) {
+        if (!IGNORED_DIRS.has(name)) queue.push(file.path);
+      } else {
+        paths.push(file.path);
+      }
+    }
+  }
+  return { paths: paths.sort(), truncated: queue.length > 0 || paths.length >= MAX_INDEXED_FILES };
+}
+
+interface WorkspaceIndexState {
+  paths: string[];
+  status: WorkspaceIndexStatus;
+  error: string | null;
+  truncated: boolean;
+
+  // Actions
+  loadIndex: (force?: boolean) => Promise<void>;
+  invalidate: () => void;
+}
+
+export const useWorkspaceIndexStore = create<WorkspaceIndexState>((set, get) => ({
+  paths: [],
+  status: 'idle',
+  error: null,
+  truncated: false,
+
+  loadIndex: async (force = false) => {
+    const { status } = get();
+    if (status === 'loading' || (status === 'ready' && !force)) return;
+    set({ status: 'loading', error: null });
+    try {
+      const { paths, truncated } = await crawlWorkspace();
+      set({ paths, truncated, status: 'ready' });
+    } catch (err: any) {
+      set({ status: 'error', error: err.message || 'Failed to index workspace files' });
+    }
+  },
+
+  invalidate: () => {
+    if (get().status !== 'loading') set({ status: 'idle' });
+  },
+}));
@@ -0,0 +1,120 @@
+/**
+ * Workspace content search: the request/response shapes of
+ * /api/console/search and the matching rules shared by the browser (to
+ * validate and highlight) and the local stand-in search on the server.
+ *
+ * Globs: `*` and `?` stay within a path segment, `**` spans segments. A
+ * pattern without a slash matches at any depth (`*.ts`), and a pattern
+ * naming a directory matches everything under it (`src/lib`).
+ */
+
+// Dependency and build output, never indexed or searched
+export const IGNORED_DIRS = new Set([
+  'node_modules', '.git', '.next', 'dist', 'build', 'out', 'coverage',
+  '__pycache__', '.venv', 'venv', '.mypy_cache', '.pytest_cache', '.turbo',
+]);
+
+// Default and upper bound for max_results
+export const DEFAULT_MAX_SEARCH_RESULTS = 2_000;
+
+export interface WorkspaceSearchRequest {
+  query: string;
+  regex?: boolean;
+  case_sensitive?: boolean;
+  whole_word?: boolean;
+  include?: string[];
+  exclude?: string[];
+  max_results?: number;
+}
+
+export interface WorkspaceSearchMatch {
+  path: string;
+  // 1-based
+  line: number;
+  // 0-based offset of the match in `text`
+  column: number;
+  length: number;
+  // The matching line, possibly shortened around the match
+  text: string;
+}
+
+export interface WorkspaceSearchResponse {
+  matches: WorkspaceSearchMatch[];
+  // Stopped at max_results
+  truncated: boolean;
+  files_searched?: number;
+  // Which implementation answered
+  source: 'backend' | 'local';
+}
+
+export interface WorkspaceSearchFileGroup {
+  path: string;
+  matches: WorkspaceSearchMatch[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The RegExp a search request stands for (global). Throws on an invalid
+ * regular expression.
+ */
+export function compileSearchPattern(request: Pick<WorkspaceSearchRequest, 'query' | 'regex' | 'case_sensitive' | 'whole_word'>): RegExp {
+  let source = request.regex ? request.query : escapeRegExp(request.query);
+  if (request.whole_word) source = `\\b(?:${source})\\b`;
+  return new RegExp(source, request.case_sensitive ? 'g' : 'gi');
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+  if (!pattern.includes('/')) pattern = `**/${pattern}`;
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` may also match nothing
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Comma-separated globs as typed in the search panel
+ */
+export function parseGlobList(input: string): string[] {
+  return input.split(',').map(glob => glob.trim()).filter(Boolean);
+}
+
+/**
+ * Whether `path` passes the include (any, when given) and exclude (none) globs
+ */
+export function createPathFilter(include: string[] = [], exclude: string[] = []): (path: string) => boolean {
+  const included = include.map(globToRegExp);
+  const excluded = exclude.map(globToRegExp);
+  return path =>
+    (included.length === 0 || included.some(re => re.test(path))) &&
+    !excluded.some(re => re.test(path));
+}
+
+export function groupMatchesByFile(matches: WorkspaceSearchMatch[]): WorkspaceSearchFileGroup[] {
+  const groups = new Map<string, WorkspaceSearchMatch[]>();
+  for (const match of matches) {
+    const group = groups.get(match.path);
+    if (group) group.push(match);
+    else groups.set(match.path, [match]);
+  }
+  return Array.from(groups, ([path, fileMatches]) => ({ path, matches: fileMatches }));
+}
@@ -1,9 +1,27 @@
+// ATLAS Core base URL. Keep in sync with lib/atlasBackend.ts.
+const atlasBackendUrl = (
+  process.env.ATLAS_BACKEND_URL ||
+  process.env.ATLAS_API_URL ||
+  process.env.ATLAS_CORE_URL ||
+  process.env.NEXT_PUBLIC_ATLAS_API_URL ||
+  "http://localhost:8000"
+).replace(/\/+$/, "");
+
+// Local PTY sidecar (scripts/terminal-server.mjs)
+const terminalPort = process.env.ATLAS_TERMINAL_PORT || "3101";
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   poweredByHeader: false,
-  env: {
-    NEXT_PUBLIC_ATLAS_API_URL: process.env.NEXT_PUBLIC_ATLAS_API_URL || "http://127.0.0.1:8000"
+  async rewrites() {
+    // WebSocket streams cannot be served by route handlers, so they are
+    // proxied here; the browser never connects to ATLAS Core directly.
+    return [
+      { source: '/ws/telemetry/stream', destination: `${atlasBackendUrl}/v1/telemetry/stream` },
+      { source: '/ws/progress/stream/:sessionId', destination: `${atlasBackendUrl}/v1/progress/stream/:sessionId` },
+      { source: '/ws/terminal', destination: `http://127.0.0.1:${terminalPort}/terminal` },
+    ];
   },
   async headers() {
     return [
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+/**
+ * ATLAS console terminal sidecar.
+ *
+ * Serves one PTY per WebSocket connection on ws://127.0.0.1:<port>/terminal.
+ * The console reaches it through the /ws/terminal rewrite in next.config.js.
+ *
+ * Upgrades are only accepted from the console's own origin and with the
+ * per-launch token, which the console hands to its pages through
+ * /api/console/terminal/token. Without both, any web page the user visits
+ * could open a shell here.
+ *
+ * Query parameters:
+ *   token Per-launch secret (see ATLAS_TERMINAL_TOKEN)
+ *   cwd   Working directory (the console session's root_path)
+ *   cols  Initial terminal width
+ *   rows  Initial terminal height
+ *
+ * Messages (JSON text frames):
+ *   client -> server  { type: "input", data } | { type: "resize", cols, rows }
+ *   server -> client  { type: "output", data } | { type: "exit", exit_code, signal }
+ *                     | { type: "error", error }
+ *
+ * Environment:
+ *   ATLAS_TERMINAL_PORT   Listen port (default 3101)
+ *   ATLAS_TERMINAL_SHELL  Shell to spawn (default $SHELL or /bin/bash)
+ *   ATLAS_TERMINAL_ROOTS  Colon-separated directories a terminal may start in
+ *                         (default: ATLAS_WORKSPACE_ROOT). The sidecar refuses
+ *                         to start when neither is set.
+ *   ATLAS_TERMINAL_TOKEN  Secret clients must present. When unset a random one
+ *                         is generated at launch and written to
+ *                         ATLAS_TERMINAL_TOKEN_FILE for the console to read.
+ *   ATLAS_TERMINAL_TOKEN_FILE
+ *                         Token file (default <tmpdir>/atlas-terminal-<port>.token)
+ *   ATLAS_CONSOLE_ORIGINS Comma-separated origins allowed to connect. When
+ *                         unset, only a loopback console origin is accepted.
+ */
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { existsSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import pty from 'node-pty';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.ATLAS_TERMINAL_PORT || 3101);
+const SHELL = process.env.ATLAS_TERMINAL_SHELL || process.env.SHELL || '/bin/bash';
+const ALLOWED_ROOTS = (process.env.ATLAS_TERMINAL_ROOTS || process.env.ATLAS_WORKSPACE_ROOT || '')
+  .split(':')
+  .filter(Boolean)
+  .map(root => path.resolve(root));
+const ALLOWED_ORIGINS = (process.env.ATLAS_CONSOLE_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+// Keep in sync with app/api/console/terminal/token/route.ts
+const TOKEN_FILE =
+  process.env.ATLAS_TERMINAL_TOKEN_FILE || path.join(tmpdir(), `atlas-terminal-${PORT}.token`);
+const TOKEN = process.env.ATLAS_TERMINAL_TOKEN || randomBytes(32).toString('hex');
+
+if (ALLOWED_ROOTS.length === 0) {
+  console.error('[terminal] set ATLAS_TERMINAL_ROOTS (or ATLAS_WORKSPACE_ROOT) to the directories terminals may start in');
+  process.exit(1);
+}
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+function clampSize(value, fallback, max) {
+  const n = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? Math.min(n, max) : fallback;
+}
+
+/**
+ * Resolve the requested working directory, or return an error message
+ */
+function resolveCwd(requested) {
+  const cwd = path.resolve(requested || ALLOWED_ROOTS[0]);
+
+  if (!existsSync(cwd) || !statSync(cwd).isDirectory()) {
+    return { error: `Working directory does not exist: ${cwd}` };
+  }
+  if (!ALLOWED_ROOTS.some(root => cwd === root || cwd.startsWith(`${root}${path.sep}`))) {
+    return { error: `Working directory is outside ATLAS_TERMINAL_ROOTS: ${cwd}` };
+  }
+  return { cwd };
+}
+
+/**
+ * Whether the upgrade comes from a console page. Behind the Next rewrite the
+ * Host the browser used arrives as x-forwarded-host.
+ */
+function isConsoleOrigin(req) {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  if (ALLOWED_ORIGINS.length > 0) return ALLOWED_ORIGINS.includes(origin);
+
+  let url;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  const consoleHost = req.headers['x-forwarded-host'] || req.headers.host;
+  // Loopback only, so a DNS-rebound hostname doesn't pass as the console
+  return url.host === consoleHost && LOOPBACK_HOSTS.has(url.hostname);
+}
+
+function hasValidToken(url) {
+  const given = Buffer.from(url.searchParams.get('token') || '');
+  const expected = Buffer.from(TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function rejectUpgrade(socket, status) {
+  socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket upgrade required');
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (url.pathname !== '/terminal') {
+    socket.destroy();
+    return;
+  }
+  if (!isConsoleOrigin(req)) {
+    console.warn(`[terminal] rejected upgrade from origin ${req.headers.origin || '(none)'}`);
+    rejectUpgrade(socket, '403 Forbidden');
+    return;
+  }
+  if (!hasValidToken(url)) {
+    rejectUpgrade(socket, '401 Unauthorized');
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, url));
+});
+
+wss.on('connection', (ws, url) => {
+  const send = message => {
+    if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const { cwd, error } = resolveCwd(url.searchParams.get('cwd'));
+  if (error) {
+    send({ type: 'error', error });
+    ws.close(1008, 'Invalid working directory');
+    return;
+  }
+
+  let term;
+  try {
+    term = pty.spawn(SHELL, [], {
+      name: 'xterm-256color',
+      cols: clampSize(url.searchParams.get('cols'), 80, 500),
+      rows: clampSize(url.searchParams.get('rows'), 24, 200),
+      cwd,
+      env: { ...process.env, TERM: 'xterm-256color', COLORTERM: 'truecolor' },
+    });
+  } catch (err) {
+    console.error(`[terminal] failed to start ${SHELL}:`, err);
+    send({ type: 'error', error: `Failed to start ${SHELL}: ${err.message}` });
+    ws.close(1011, 'Failed to start shell');
+    return;
+  }
+  console.log(`[terminal] pid ${term.pid} started in ${cwd}`);
+
+  term.onData(data => send({ type: 'output', data }));
+  term.onExit(({ exitCode, signal }) => {
+    send({ type: 'exit', exit_code: exitCode, signal });
+    ws.close(1000, 'Process exited');
+  });
+
+  ws.on('message', raw => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (message.type === 'input' && typeof message.data === 'string') {
+      term.write(message.data);
+    } else if (message.type === 'resize') {
+      term.resize(clampSize(message.cols, term.cols, 500), clampSize(message.rows, term.rows, 200));
+    }
+  });
+
+  ws.on('close', () => {
+    console.log(`[terminal] pid ${term.pid} closed`);
+    try {
+      term.kill();
+    } catch {
+      // already exited
+    }
+  });
+});
+
+if (!process.env.ATLAS_TERMINAL_TOKEN) {
+  // Recreated so the mode applies even when a stale file is left over
+  rmSync(TOKEN_FILE, { force: true });
+  writeFileSync(TOKEN_FILE, TOKEN, { mode: 0o600 });
+  const removeTokenFile = () => rmSync(TOKEN_FILE, { force: true });
+  process.on('exit', removeTokenFile);
+  for (const signal of ['SIGINT', 'SIGTERM']) {
+    process.on(signal, () => process.exit(0));
+  }
+}
+
+server.listen(PORT, '127.0.0.1', () => {
+  console.log(`[terminal] listening on ws://127.0.0.1:${PORT}/terminal (shell: ${SHELL})`);
+});